@@ -1,3 +1,6 @@
+import type { StreamEvent } from './types'
+import { readStreamEvents } from './api/sse'
+
 export type ApiResponse<T> = {
   success: boolean
   data: T | null
@@ -86,25 +89,6 @@ export async function executeOnAgent(agentId: string, prompt: string) {
   return json.data
 }
 
-/**
- * SSE 事件类型
- */
-export type SSEEvent = {
-  type: string
-  task_id?: string
-  content?: string
-  delta?: string
-  tool?: string
-  call_id?: string
-  arguments?: Record<string, any>
-  output?: string
-  success?: boolean
-  duration_ms?: number
-  turns?: number
-  reason?: string
-  [k: string]: any
-}
-
 /**
  * 向指定智能体发送流式执行请求
  * 使用 POST + SSE 流式返回
@@ -112,7 +96,7 @@ export type SSEEvent = {
 export function executeOnAgentStream(
   agentId: string,
   prompt: string,
-  onEvent: (event: SSEEvent) => void,
+  onEvent: (event: StreamEvent) => void,
   onError?: (error: Error) => void,
   onComplete?: () => void
 ): () => void {
@@ -120,7 +104,7 @@ export function executeOnAgentStream(
   
   fetch(`/api/agents/${agentId}/execute/stream`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
     body: JSON.stringify({ prompt }),
     signal: controller.signal,
   })
@@ -130,46 +114,7 @@ export function executeOnAgentStream(
         throw new Error(`Request failed: ${res.status} ${text}`)
       }
       
-      const reader = res.body?.getReader()
-      if (!reader) {
-        throw new Error('No response body')
-      }
-      
-      const decoder = new TextDecoder()
-      let buffer = ''
-      
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-        
-        buffer += decoder.decode(value, { stream: true })
-        
-        // 解析 SSE 格式
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || '' // 保留最后一个不完整的行
-        
-        let eventType = ''
-        let eventData = ''
-        
-        for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            eventType = line.slice(7).trim()
-          } else if (line.startsWith('data: ')) {
-            eventData = line.slice(6)
-          } else if (line === '' && eventData) {
-            // 空行表示事件结束
-            try {
-              const parsed = JSON.parse(eventData) as SSEEvent
-              parsed.type = eventType || parsed.type || 'unknown'
-              onEvent(parsed)
-            } catch (e) {
-              console.warn('Failed to parse SSE event:', eventData)
-            }
-            eventType = ''
-            eventData = ''
-          }
-        }
-      }
+      await readStreamEvents(res, onEvent)
       
       onComplete?.()
     })
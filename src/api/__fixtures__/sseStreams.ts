@@ -0,0 +1,61 @@
+// 录制的 SSE 响应体（保留原始换行与心跳），用于解析器测试
+
+/** CLI serve：任务流，LF 换行，带心跳注释与事件 ID */
+export const CLI_TASK_STREAM = [
+  ': connected',
+  '',
+  'retry: 3000',
+  '',
+  'id: 1',
+  'event: task_started',
+  'data: {"task_id":"t-1","session_id":"s-1"}',
+  '',
+  'id: 2',
+  'event: delta',
+  'data: {"content":"正在查看"}',
+  '',
+  ': ping',
+  '',
+  'id: 3',
+  'event: tool_call_started',
+  'data: {"call_id":"c-1","name":"bash","arguments":{"command":"ls"}}',
+  '',
+  'id: 4',
+  'event: tool_call_completed',
+  'data: {"call_id":"c-1","output":"a.txt\\nb.txt","success":true}',
+  '',
+  'event: ping',
+  'data: {}',
+  '',
+  'id: 5',
+  'event: task_completed',
+  'data: {"task_id":"t-1","turns":2,"duration_ms":1840}',
+  '',
+  '',
+].join('\n')
+
+/** Service API：CRLF 换行，事件名放在 JSON 的 type 中，data 分多行 */
+export const SERVICE_CRLF_STREAM = [
+  ':keep-alive',
+  '',
+  'id: evt-10',
+  'data: {"type":"assistant_message_delta",',
+  'data:  "delta":"Hello"}',
+  '',
+  'id: evt-11',
+  'data: {"type":"assistant_message_completed","content":"Hello"}',
+  '',
+  'id: evt-12',
+  'data: {"type":"task_completed"}',
+  '',
+  '',
+].join('\r\n')
+
+/** 旧后端：流结束时最后一个事件没有空行 */
+export const TRAILING_EVENT_STREAM = [
+  'event: delta',
+  'data: {"content":"first"}',
+  '',
+  'event: task_completed',
+  'data: {"task_id":"t-2"}',
+].join('\n')
@@ -0,0 +1,113 @@
+/**
+ * Approval API - 工具审批策略与审批记录
+ * 按服务保存在 localStorage 中：是否开启审批模式、始终允许的工具
+ */
+
+import type { ToolApprovalLogEntry, ToolApprovalPolicy } from '../types'
+
+const POLICIES_KEY = 'ineffable_approval_policies'
+const LOG_KEY = 'ineffable_approval_log'
+
+// 审批记录最多保留条数
+const MAX_LOG_ENTRIES = 1000
+
+const DEFAULT_POLICY: ToolApprovalPolicy = { enabled: false, alwaysAllow: [] }
+
+function policyKey(serverId: string, serviceId: string): string {
+  return `${serverId}:${serviceId}`
+}
+
+function getPolicies(): Record<string, ToolApprovalPolicy> {
+  try {
+    const data = localStorage.getItem(POLICIES_KEY)
+    return data ? JSON.parse(data) : {}
+  } catch {
+    return {}
+  }
+}
+
+function savePolicy(serverId: string, serviceId: string, policy: ToolApprovalPolicy): void {
+  const policies = getPolicies()
+  policies[policyKey(serverId, serviceId)] = policy
+  localStorage.setItem(POLICIES_KEY, JSON.stringify(policies))
+}
+
+/**
+ * 获取服务的审批策略（未设置时为关闭）
+ */
+export function getApprovalPolicy(serverId?: string, serviceId?: string): ToolApprovalPolicy {
+  if (!serverId || !serviceId) return DEFAULT_POLICY
+  return getPolicies()[policyKey(serverId, serviceId)] ?? DEFAULT_POLICY
+}
+
+/**
+ * 开启/关闭服务的审批模式
+ */
+export function setApprovalEnabled(serverId: string, serviceId: string, enabled: boolean): ToolApprovalPolicy {
+  const policy = { ...getApprovalPolicy(serverId, serviceId), enabled }
+  savePolicy(serverId, serviceId, policy)
+  return policy
+}
+
+/**
+ * 设置工具是否始终允许（自动批准）
+ */
+export function setToolAlwaysAllowed(serverId: string, serviceId: string, toolName: string, allowed: boolean): ToolApprovalPolicy {
+  const current = getApprovalPolicy(serverId, serviceId)
+  const alwaysAllow = current.alwaysAllow.filter(name => name !== toolName)
+  if (allowed) alwaysAllow.push(toolName)
+  const policy = { ...current, alwaysAllow }
+  savePolicy(serverId, serviceId, policy)
+  return policy
+}
+
+/**
+ * 工具是否在服务的始终允许列表中
+ */
+export function isToolAlwaysAllowed(serverId: string | undefined, serviceId: string | undefined, toolName: string): boolean {
+  return getApprovalPolicy(serverId, serviceId).alwaysAllow.includes(toolName)
+}
+
+/**
+ * 获取审批记录（新的在前），可按服务过滤
+ */
+export function getApprovalLog(serverId?: string, serviceId?: string): ToolApprovalLogEntry[] {
+  let entries: ToolApprovalLogEntry[]
+  try {
+    const data = localStorage.getItem(LOG_KEY)
+    entries = data ? JSON.parse(data) : []
+  } catch {
+    entries = []
+  }
+  if (serverId && serviceId) {
+    entries = entries.filter(e => e.serverId === serverId && e.serviceId === serviceId)
+  }
+  return entries.reverse()
+}
+
+/**
+ * 追加审批记录
+ */
+export function appendApprovalLog(entry: Omit<ToolApprovalLogEntry, 'id' | 'timestamp'>): ToolApprovalLogEntry {
+  const record: ToolApprovalLogEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+  }
+  const entries = getApprovalLog().reverse()
+  entries.push(record)
+  localStorage.setItem(LOG_KEY, JSON.stringify(entries.slice(-MAX_LOG_ENTRIES)))
+  return record
+}
+
+/**
+ * 清空审批记录（指定服务时只清空该服务的记录）
+ */
+export function clearApprovalLog(serverId?: string, serviceId?: string): void {
+  if (!serverId || !serviceId) {
+    localStorage.removeItem(LOG_KEY)
+    return
+  }
+  const rest = getApprovalLog().reverse().filter(e => e.serverId !== serverId || e.serviceId !== serviceId)
+  localStorage.setItem(LOG_KEY, JSON.stringify(rest))
+}
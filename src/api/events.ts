@@ -0,0 +1,101 @@
+/**
+ * 流事件适配层 - 将各后端方言映射为规范事件
+ *
+ * 已知方言：
+ * - CLI serve：delta / tool_start / tool_complete（字段 tool、arguments）
+ * - Service API（见 API.md）：assistant_message_delta / assistant_message_completed /
+ *   tool_call_started / tool_call_completed（字段 name、args）、
+ *   审批模式下的 tool_approval_requested / tool_approval_resolved
+ *
+ * 无法识别的事件原样保留为 unknown，由调用方展示在调试视图中，避免被静默丢弃。
+ */
+
+import type { AgentEvent, StreamEvent } from '../types'
+
+/**
+ * 将单个流事件转换为规范事件
+ */
+export function normalizeStreamEvent(event: StreamEvent): AgentEvent {
+  switch (event.type) {
+    case 'delta':
+    case 'assistant_message_delta':
+      return { type: 'text_delta', text: event.content || event.delta || '' }
+
+    case 'assistant_message_completed':
+      return { type: 'message_completed', content: event.content }
+
+    case 'tool_start':
+      return { type: 'tool_started', call_id: event.call_id, name: event.tool, arguments: event.arguments }
+
+    case 'tool_call_started':
+      return { type: 'tool_started', call_id: event.call_id, name: event.name, arguments: event.args }
+
+    case 'tool_call_progress':
+      return {
+        type: 'tool_progress',
+        call_id: event.call_id,
+        name: event.tool_name,
+        kind: event.progress_type || 'log',
+        message: event.message,
+        progress: event.progress,
+        total: event.total,
+      }
+
+    case 'tool_complete':
+      return {
+        type: 'tool_completed',
+        call_id: event.call_id,
+        name: event.tool,
+        output: event.output,
+        success: event.success,
+        duration_ms: event.duration_ms,
+      }
+
+    case 'tool_call_completed':
+      return {
+        type: 'tool_completed',
+        call_id: event.call_id,
+        name: event.name,
+        output: event.output,
+        duration_ms: event.duration_ms,
+      }
+
+    case 'tool_approval_requested':
+      return {
+        type: 'tool_approval_requested',
+        approval_id: event.approval_id,
+        call_id: event.call_id,
+        name: event.name || 'unknown',
+        arguments: event.args,
+      }
+
+    case 'tool_approval_resolved':
+      return {
+        type: 'tool_approval_resolved',
+        approval_id: event.approval_id,
+        call_id: event.call_id,
+        decision: event.decision === 'denied' ? 'denied' : 'approved',
+      }
+
+    case 'task_failed':
+      return { type: 'task_failed', task_id: event.task_id, error: event.error || event.reason }
+
+    case 'task_aborted':
+      return { type: 'task_aborted', task_id: event.task_id, reason: event.reason || event.error }
+
+    case 'task_started':
+    case 'user_message':
+    case 'task_completed':
+    case 'stream_error':
+    case 'warning':
+    case 'unknown':
+      return event
+  }
+}
+
+/**
+ * 是否为任务结束事件（完成、失败或取消）
+ */
+export function isTerminalEvent(event: StreamEvent): boolean {
+  return event.type === 'task_completed' || event.type === 'task_failed' || event.type === 'task_aborted'
+}
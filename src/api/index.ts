@@ -1,3 +1,8 @@
 // API exports
 export * from './servers'
 export * from './services'
+export * from './sse'
+export * from './events'
+export * from './prompts'
+export * from './approvals'
+export * from './terminals'
@@ -0,0 +1,157 @@
+/**
+ * Prompt API - 提示词模板库
+ * 模板存储在 localStorage 中，可导入/导出为 JSON
+ */
+
+import type { PromptTemplate } from '../types'
+
+const PROMPTS_KEY = 'ineffable_prompts'
+
+// 占位符：{{变量名}}，变量名允许中文、字母、数字、下划线、连字符和空格
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g
+
+/**
+ * 获取所有模板
+ */
+export function getPromptTemplates(): PromptTemplate[] {
+  try {
+    const data = localStorage.getItem(PROMPTS_KEY)
+    return data ? JSON.parse(data) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 保存模板列表
+ */
+function savePromptTemplates(templates: PromptTemplate[]): void {
+  localStorage.setItem(PROMPTS_KEY, JSON.stringify(templates))
+}
+
+/**
+ * 获取在某个服务器下可用的模板：全局与该服务器的模板（包括固定到该服务器上其他服务的模板）
+ */
+export function getAvailablePromptTemplates(serverId?: string): PromptTemplate[] {
+  return getPromptTemplates().filter(t => !t.serverId || t.serverId === serverId)
+}
+
+/**
+ * 添加模板
+ */
+export function addPromptTemplate(
+  data: Pick<PromptTemplate, 'name' | 'content' | 'serverId' | 'serviceId' | 'serviceName'>,
+): PromptTemplate {
+  const templates = getPromptTemplates()
+  const now = new Date().toISOString()
+
+  const template: PromptTemplate = {
+    id: crypto.randomUUID(),
+    name: data.name,
+    content: data.content,
+    serverId: data.serverId,
+    serviceId: data.serverId ? data.serviceId : undefined,
+    serviceName: data.serverId && data.serviceId ? data.serviceName : undefined,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  templates.push(template)
+  savePromptTemplates(templates)
+
+  return template
+}
+
+/**
+ * 更新模板
+ */
+export function updatePromptTemplate(
+  id: string,
+  updates: Partial<Pick<PromptTemplate, 'name' | 'content' | 'serverId' | 'serviceId' | 'serviceName'>>,
+): PromptTemplate | null {
+  const templates = getPromptTemplates()
+  const index = templates.findIndex(t => t.id === id)
+
+  if (index === -1) return null
+
+  const next = { ...templates[index], ...updates, updatedAt: new Date().toISOString() }
+  if (!next.serverId) next.serviceId = undefined
+  if (!next.serviceId) next.serviceName = undefined
+  templates[index] = next
+  savePromptTemplates(templates)
+
+  return next
+}
+
+/**
+ * 删除模板
+ */
+export function removePromptTemplate(id: string): boolean {
+  const templates = getPromptTemplates()
+  const filtered = templates.filter(t => t.id !== id)
+
+  if (filtered.length === templates.length) return false
+
+  savePromptTemplates(filtered)
+  return true
+}
+
+/**
+ * 导出模板为 JSON
+ */
+export function exportPromptTemplates(templates: PromptTemplate[] = getPromptTemplates()): string {
+  return JSON.stringify({ version: 1, templates }, null, 2)
+}
+
+/**
+ * 从 JSON 导入模板（接受导出格式或模板数组），同 ID 的模板被覆盖
+ * @returns 导入的模板数量
+ */
+export function importPromptTemplates(json: string): number {
+  const parsed = JSON.parse(json)
+  const list: unknown[] = Array.isArray(parsed) ? parsed : parsed?.templates
+
+  if (!Array.isArray(list)) {
+    throw new Error('无效的模板文件')
+  }
+
+  const now = new Date().toISOString()
+  const imported: PromptTemplate[] = list
+    .filter((item): item is Record<string, unknown> =>
+      !!item && typeof item === 'object' &&
+      typeof (item as Record<string, unknown>).name === 'string' &&
+      typeof (item as Record<string, unknown>).content === 'string')
+    .map(item => ({
+      id: typeof item.id === 'string' ? item.id : crypto.randomUUID(),
+      name: item.name as string,
+      content: item.content as string,
+      serverId: typeof item.serverId === 'string' ? item.serverId : undefined,
+      serviceId: typeof item.serverId === 'string' && typeof item.serviceId === 'string' ? item.serviceId : undefined,
+      serviceName:
+        typeof item.serverId === 'string' && typeof item.serviceId === 'string' && typeof item.serviceName === 'string'
+          ? item.serviceName
+          : undefined,
+      createdAt: typeof item.createdAt === 'string' ? item.createdAt : now,
+      updatedAt: now,
+    }))
+
+  const ids = new Set(imported.map(t => t.id))
+  savePromptTemplates([...getPromptTemplates().filter(t => !ids.has(t.id)), ...imported])
+
+  return imported.length
+}
+
+/**
+ * 提取模板中的变量（按首次出现顺序去重）
+ */
+export function extractTemplateVariables(content: string): string[] {
+  const names = [...content.matchAll(VARIABLE_PATTERN)].map(m => m[1])
+  return [...new Set(names)]
+}
+
+/**
+ * 用变量值填充模板
+ */
+export function fillTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (whole, name: string) => values[name] ?? whole)
+}
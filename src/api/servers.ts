@@ -82,6 +82,52 @@ export function removeServer(id: string): boolean {
   return true
 }
 
+/**
+ * 设置 Server 静音
+ */
+export function setServerMuted(id: string, muted: boolean): Server | null {
+  const servers = getServers()
+  const index = servers.findIndex(s => s.id === id)
+
+  if (index === -1) return null
+
+  servers[index] = { ...servers[index], muted }
+  saveServers(servers)
+
+  return servers[index]
+}
+
+/**
+ * 设置 Service 静音（随 Server 列表一起保存）
+ */
+export function setServiceMuted(serverId: string, serviceId: string, muted: boolean): Server | null {
+  const servers = getServers()
+  const index = servers.findIndex(s => s.id === serverId)
+
+  if (index === -1) return null
+
+  const current = servers[index].mutedServiceIds || []
+  const mutedServiceIds = muted
+    ? [...current.filter(id => id !== serviceId), serviceId]
+    : current.filter(id => id !== serviceId)
+
+  servers[index] = { ...servers[index], mutedServiceIds }
+  saveServers(servers)
+
+  return servers[index]
+}
+
+/**
+ * 任务通知是否被静音（服务器或服务任一静音即为静音）
+ */
+export function isNotificationMuted(serverId?: string, serviceId?: string): boolean {
+  if (!serverId) return false
+  const server = getServer(serverId)
+  if (!server) return false
+  if (server.muted) return true
+  return !!serviceId && !!server.mutedServiceIds?.includes(serviceId)
+}
+
 /**
  * 获取单个 Server
  */
@@ -0,0 +1,117 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { followTaskStream, subscribeToStream } from './services'
+import type { StreamEvent } from '../types'
+
+function sseResponse(body: string): Response {
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+// 流在任务结束前断开
+const INTERRUPTED = 'id: 1\nevent: delta\ndata: {"content":"a"}\n\n'
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('followTaskStream', () => {
+  it.each([404, 405, 501])('gives up at once when resume returns %i', async status => {
+    const fetchMock = vi.fn(async () => new Response('', { status }))
+    vi.stubGlobal('fetch', fetchMock)
+    const events: StreamEvent[] = []
+
+    await followTaskStream('http://svc', sseResponse(INTERRUPTED), 't-1', e => events.push(e), undefined, { maxRetries: 10 })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(events.map(e => e.type)).toEqual(['delta'])
+  })
+
+  it('resumes after an interruption with offset and Last-Event-ID', async () => {
+    const fetchMock = vi.fn(async () => sseResponse('id: 2\nevent: task_completed\ndata: {}\n\n'))
+    vi.stubGlobal('fetch', fetchMock)
+    const onResumed = vi.fn()
+    const events: StreamEvent[] = []
+
+    await followTaskStream('http://svc', sseResponse(INTERRUPTED), 't-1', e => events.push(e), undefined, { onResumed })
+
+    expect(events.map(e => e.type)).toEqual(['delta', 'task_completed'])
+    expect(onResumed).toHaveBeenCalledOnce()
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('http://svc/api/tasks/t-1/events?offset=1')
+    expect(init.headers).toMatchObject({ 'Last-Event-ID': '1' })
+  })
+
+  it('ends with the error of a stream_error event instead of reconnecting', async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    const events: StreamEvent[] = []
+    const body = `${INTERRUPTED}event: stream_error\ndata: {"error":"model overloaded"}\n\n`
+
+    await expect(
+      followTaskStream('http://svc', sseResponse(body), 't-1', e => events.push(e))
+    ).rejects.toThrow('model overloaded')
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(events.map(e => e.type)).toEqual(['delta', 'stream_error'])
+  })
+})
+
+describe('subscribeToStream', () => {
+  // 等待订阅循环处理完已排队的响应
+  const settle = () => new Promise(resolve => setTimeout(resolve, 20))
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('reconnects with Last-Event-ID after the connection drops', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(sseResponse('retry: 5\nid: 7\nevent: delta\ndata: {"content":"a"}\n\n'))
+      .mockResolvedValueOnce(sseResponse('id: 8\nevent: task_completed\ndata: {}\n\n'))
+      .mockImplementation(() => new Promise(() => {}))
+    vi.stubGlobal('fetch', fetchMock)
+    const onReconnecting = vi.fn()
+    const onResumed = vi.fn()
+    const events: StreamEvent[] = []
+
+    const unsubscribe = subscribeToStream('http://svc', 's-1', e => events.push(e), undefined, { onReconnecting, onResumed })
+    await settle()
+    unsubscribe()
+
+    expect(events.map(e => e.type)).toEqual(['delta', 'task_completed'])
+    expect(onReconnecting).toHaveBeenCalledWith(1)
+    expect(onResumed).toHaveBeenCalled()
+    const [, init] = fetchMock.mock.calls[1] as [string, RequestInit]
+    expect(init.headers).toMatchObject({ 'Last-Event-ID': '7' })
+    const [, third] = fetchMock.mock.calls[2] as [string, RequestInit]
+    expect(third.headers).toMatchObject({ 'Last-Event-ID': '8' })
+  })
+
+  it('reports an error without reconnecting when the server rejects the subscription', async () => {
+    const fetchMock = vi.fn(async () => new Response('', { status: 404 }))
+    vi.stubGlobal('fetch', fetchMock)
+    const onError = vi.fn()
+
+    subscribeToStream('http://svc', 's-1', () => {}, onError)
+    await settle()
+
+    expect(fetchMock).toHaveBeenCalledOnce()
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Failed to subscribe: 404' }))
+  })
+
+  it('gives up after maxRetries failed reconnects', async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError('network down')
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    const onError = vi.fn()
+
+    subscribeToStream('http://svc', 's-1', () => {}, onError, { maxRetries: 1 })
+    await settle()
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'network down' }))
+  })
+})
@@ -2,7 +2,9 @@
  * Service API - 与 Service Manager 交互
  */
 
-import type { Service, CreateServiceRequest, UpdateServiceRequest, Session, SessionDetail, CreateSessionRequest, ExecuteRequest, ExecuteResponse, SSEEvent } from '../types'
+import type { Service, CreateServiceRequest, UpdateServiceRequest, Session, SessionDetail, CreateSessionRequest, ExecuteRequest, ExecuteResponse, ServiceStatus, SessionBranch, StreamEvent, UploadedFile, ServiceCommand, ModelInfo, FileEntry, ToolApprovalDecision } from '../types'
+import { readStreamEvents, type SSEMessage } from './sse'
+import { isTerminalEvent } from './events'
 
 // ============ Service 管理 (通过 Service Manager) ============
 
@@ -264,6 +266,7 @@ export async function listSessions(serviceUrl: string): Promise<{ currentSession
       createdAt: typeof item.created_at_unix === 'number' ? new Date(item.created_at_unix * 1000).toISOString() : undefined,
       messageCount: item.message_count,
       isActive: item.is_active,
+      parentId: item.parent_session_id ?? undefined,
     })),
   }
 }
@@ -286,6 +289,7 @@ export async function getSessionDetail(serviceUrl: string, sessionId: string): P
       role: msg.role,
       content: msg.content,
       timestamp: msg.timestamp,
+      task_id: msg.task_id ?? undefined,
     })),
     isActive: data.is_active,
   }
@@ -313,6 +317,66 @@ export async function createSession(serviceUrl: string, _data?: CreateSessionReq
     createdAt: typeof item.created_at_unix === 'number' ? new Date(item.created_at_unix * 1000).toISOString() : undefined,
     messageCount: item.message_count || 0,
     isActive: item.is_active ?? true,
+    parentId: item.parent_session_id ?? undefined,
+  }
+}
+
+/**
+ * 将源 Session 的前 turnCount 轮对话复制到目标 Session（目标需为空会话）
+ * 一轮从一条用户消息开始，包含其后的 assistant/tool 消息
+ */
+export async function cloneSession(
+  serviceUrl: string,
+  sessionId: string,
+  sourceSessionId: string,
+  turnCount: number,
+): Promise<{ messageCount: number }> {
+  const res = await fetch(`${serviceUrl}/api/sessions/${sessionId}/clone`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ source_session_id: sourceSessionId, turn_count: turnCount }),
+  })
+
+  if (!res.ok) {
+    const error = await res.text().catch(() => '')
+    throw new Error(error || `Failed to clone session: ${res.status}`)
+  }
+
+  const json = await res.json()
+  const data = json?.data ?? json
+
+  return { messageCount: data.message_count ?? 0 }
+}
+
+/**
+ * 从源 Session 分叉：创建新会话并复制前 turnCount 轮对话
+ * 复制失败时删除新建的会话
+ */
+export async function forkSession(serviceUrl: string, sourceSessionId: string, turnCount: number): Promise<Session> {
+  const session = await createSession(serviceUrl)
+
+  try {
+    const { messageCount } = await cloneSession(serviceUrl, session.id, sourceSessionId, turnCount)
+    return { ...session, messageCount, parentId: session.parentId ?? sourceSessionId }
+  } catch (err) {
+    await deleteSession(serviceUrl, session.id).catch(() => {})
+    throw err
+  }
+}
+
+/**
+ * 重命名 Session
+ */
+export async function renameSession(serviceUrl: string, sessionId: string, name: string): Promise<void> {
+  const res = await fetch(`${serviceUrl}/api/sessions/${sessionId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  })
+
+  if (!res.ok) {
+    const error = await res.text().catch(() => '')
+    throw new Error(error || `Failed to rename session: ${res.status}`)
   }
 }
 
@@ -329,6 +393,138 @@ export async function deleteSession(serviceUrl: string, sessionId: string): Prom
   }
 }
 
+/**
+ * 截断 Session memory：删除第 turn 条用户消息及之后的所有消息
+ * keepBranch 为 true 时后端将被删除的部分保存为分支，可通过 checkoutSessionBranch 切回
+ */
+export async function truncateSession(
+  serviceUrl: string,
+  sessionId: string,
+  turn: number,
+  keepBranch = true,
+): Promise<{ messageCount: number; branchId?: string }> {
+  const res = await fetch(`${serviceUrl}/api/sessions/${sessionId}/truncate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ turn, keep_branch: keepBranch }),
+  })
+
+  if (!res.ok) {
+    const error = await res.text().catch(() => '')
+    throw new Error(error || `Failed to truncate session: ${res.status}`)
+  }
+
+  const json = await res.json()
+  const data = json?.data ?? json
+
+  return {
+    messageCount: data.message_count ?? 0,
+    branchId: data.branch_id ?? undefined,
+  }
+}
+
+/**
+ * 列出 Session 当前对话路径上的分支
+ * 后端不支持分支时（404）返回空列表
+ */
+export async function listSessionBranches(serviceUrl: string, sessionId: string): Promise<SessionBranch[]> {
+  const res = await fetch(`${serviceUrl}/api/sessions/${sessionId}/branches`)
+
+  if (res.status === 404) return []
+  if (!res.ok) {
+    throw new Error(`Failed to fetch branches: ${res.status}`)
+  }
+
+  const json = await res.json()
+  const data = json?.data ?? json
+
+  return (data.branches || []).map((item: any) => ({
+    id: item.id,
+    turn: item.turn,
+    timestamp: item.timestamp,
+    preview: item.preview || '',
+    messageCount: item.message_count || 0,
+  }))
+}
+
+/**
+ * 切换到分支：当前路径从分支起点开始的部分保存为新分支，再恢复目标分支
+ */
+export async function checkoutSessionBranch(serviceUrl: string, sessionId: string, branchId: string): Promise<void> {
+  const res = await fetch(`${serviceUrl}/api/sessions/${sessionId}/branches/${branchId}/checkout`, {
+    method: 'POST',
+  })
+
+  if (!res.ok) {
+    const error = await res.text().catch(() => '')
+    throw new Error(error || `Failed to checkout branch: ${res.status}`)
+  }
+}
+
+/**
+ * 列出工作目录中的文件
+ * @param path - 相对工作目录的目录，默认为根目录
+ * @param recursive - 递归列出（后端跳过 .git、node_modules 等忽略目录）
+ */
+export async function listFiles(
+  serviceUrl: string,
+  options: { path?: string; recursive?: boolean; limit?: number } = {},
+): Promise<{ entries: FileEntry[]; truncated: boolean }> {
+  const params = new URLSearchParams()
+  if (options.path) params.set('path', options.path)
+  if (options.recursive) params.set('recursive', 'true')
+  if (options.limit) params.set('limit', String(options.limit))
+
+  const res = await fetch(`${serviceUrl}/api/files?${params}`)
+
+  if (!res.ok) {
+    throw new Error(`Failed to list files: ${res.status}`)
+  }
+
+  const json = await res.json()
+  const data = json?.data ?? json
+
+  return {
+    entries: (data.entries || []).map((item: any) => ({
+      path: String(item.path).replace(/\/+$/, ''),
+      type: item.type === 'dir' ? 'dir' : 'file',
+      size: item.size,
+    })),
+    truncated: Boolean(data.truncated),
+  }
+}
+
+/**
+ * 上传文件到 Agent 工作目录
+ * @param dir - 相对工作目录的目标目录，默认由后端决定（.ineffable/uploads）
+ */
+export async function uploadFile(serviceUrl: string, file: File, dir?: string, signal?: AbortSignal): Promise<UploadedFile> {
+  const form = new FormData()
+  form.append('file', file, file.name)
+  if (dir) form.append('dir', dir)
+
+  const res = await fetch(`${serviceUrl}/api/files/upload`, {
+    method: 'POST',
+    body: form,
+    signal,
+  })
+
+  if (!res.ok) {
+    const error = await res.text().catch(() => '')
+    throw new Error(error || `Failed to upload ${file.name}: ${res.status}`)
+  }
+
+  const json = await res.json()
+  const data = json?.data ?? json
+
+  return {
+    name: file.name,
+    path: data.path,
+    size: data.size ?? file.size,
+    mimeType: data.mime_type || file.type || 'application/octet-stream',
+  }
+}
+
 /**
  * 执行任务
  */
@@ -347,25 +543,85 @@ export async function execute(serviceUrl: string, data: ExecuteRequest): Promise
   return res.json()
 }
 
+/**
+ * executeStream 可选项
+ */
+export interface ExecuteStreamOptions {
+  /** 连接中断、准备重连时回调（attempt 从 1 开始） */
+  onReconnecting?: (attempt: number) => void
+  /** 重连成功、恢复接收事件时回调 */
+  onResumed?: () => void
+  /** 连续重连失败的最大次数 */
+  maxRetries?: number
+}
+
+function abortError(): Error {
+  return new DOMException('The operation was aborted.', 'AbortError')
+}
+
+/**
+ * 等待重连时机：延时结束、网络恢复或页面重新可见时立即继续
+ * 离线期间一直等待 online 事件
+ */
+function waitForReconnect(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+
+    const offline = !navigator.onLine
+    const timer = offline ? null : window.setTimeout(() => finish(), ms)
+
+    const onVisible = () => {
+      if (document.visibilityState === 'visible' && navigator.onLine) finish()
+    }
+    const onAbort = () => finish(abortError())
+
+    function finish(err?: Error) {
+      if (timer != null) window.clearTimeout(timer)
+      window.removeEventListener('online', onOnline)
+      document.removeEventListener('visibilitychange', onVisible)
+      signal?.removeEventListener('abort', onAbort)
+      if (err) reject(err)
+      else resolve()
+    }
+    function onOnline() {
+      finish()
+    }
+
+    window.addEventListener('online', onOnline)
+    document.addEventListener('visibilitychange', onVisible)
+    signal?.addEventListener('abort', onAbort)
+  })
+}
+
 /**
  * 执行任务（流式返回）
  * 使用 fetch 读取 SSE 流，比 EventSource 更可靠
  * 
+ * 连接中断（网络抖动、休眠唤醒）且尚未收到任务结束事件时，
+ * 通过 GET /api/tasks/{task_id}/events 续传，详见 followTaskStream。
+ * 
  * @param serviceUrl - 服务 URL
- * @param data - 执行请求参数
+ * @param data - 执行请求参数（未指定 task_id 时自动生成，用于续传）
  * @param onEvent - 事件回调
  * @param signal - AbortController signal 用于取消
+ * @param options - 重连相关回调
  */
 export async function executeStream(
   serviceUrl: string,
   data: ExecuteRequest,
-  onEvent: (event: SSEEvent) => void,
+  onEvent: (event: StreamEvent) => void,
   signal?: AbortSignal,
+  options: ExecuteStreamOptions = {},
 ): Promise<void> {
+  const taskId = data.task_id || crypto.randomUUID()
+
   const res = await fetch(`${serviceUrl}/api/execute/stream`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(data),
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify({ ...data, task_id: taskId }),
     signal,
   })
   
@@ -373,59 +629,236 @@ export async function executeStream(
     const error = await res.text().catch(() => '')
     throw new Error(error || `Failed to execute: ${res.status}`)
   }
-  
-  const reader = res.body?.getReader()
-  if (!reader) {
-    throw new Error('Response body is not readable')
+
+  await followTaskStream(serviceUrl, res, taskId, onEvent, signal, options)
+}
+
+// 旧后端不支持续传时的响应状态：没有该路由（404）、不支持该方法（405）或未实现（501）
+const RESUME_UNSUPPORTED_STATUSES = [404, 405, 501]
+
+/**
+ * 打开任务事件流（GET /api/tasks/{task_id}/events）
+ * 用于续传，或在页面刷新后从头回放正在运行的任务
+ * 
+ * @param offset - 已接收的事件数量（不含 ping），从头回放时为 0
+ * @param lastEventId - 最后收到的事件 ID
+ * @returns 任务不存在或后端不支持时返回 null
+ */
+export async function openTaskEventStream(
+  serviceUrl: string,
+  taskId: string,
+  signal?: AbortSignal,
+  offset = 0,
+  lastEventId = '',
+): Promise<Response | null> {
+  const res = await fetch(`${serviceUrl}/api/tasks/${encodeURIComponent(taskId)}/events?offset=${offset}`, {
+    headers: lastEventId
+      ? { Accept: 'text/event-stream', 'Last-Event-ID': lastEventId }
+      : { Accept: 'text/event-stream' },
+    signal,
+  })
+
+  if (RESUME_UNSUPPORTED_STATUSES.includes(res.status)) return null
+  if (!res.ok) {
+    throw new Error(`Failed to open task stream: ${res.status}`)
   }
-  
-  const decoder = new TextDecoder()
-  let buffer = ''
-  
-  try {
+  return res
+}
+
+/**
+ * 读取任务事件流直到任务结束，中途断开时自动续传
+ * 
+ * 续传携带 Last-Event-ID 与已接收事件数 offset，
+ * 重放中已收到的事件（按事件 ID）会被跳过，调用方不会收到重复事件。
+ * 收到 stream_error 时不再续传，以该错误结束。
+ * 
+ * @param res - 已建立的事件流响应（执行流或 openTaskEventStream 的结果）
+ * @param taskId - 任务 ID（收到 task_started 后以其中的 task_id 为准）
+ */
+export async function followTaskStream(
+  serviceUrl: string,
+  res: Response,
+  taskId: string,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal,
+  options: ExecuteStreamOptions = {},
+): Promise<void> {
+  const { onReconnecting, onResumed, maxRetries = 10 } = options
+
+  let lastEventId = ''
+  let offset = 0
+  let finished = false
+  let streamError: string | null = null
+  let retryMs = 1000
+  let failures = 0
+
+  // 事件 ID 去重：重放时跳过已收到的 ID（及其后未带 ID 的同组事件）
+  const seenIds = new Set<string>()
+  let currentId = ''
+  let skipping = false
+
+  const handleEvent = (event: StreamEvent, msg: SSEMessage) => {
+    if (msg.id !== currentId) {
+      currentId = msg.id
+      skipping = seenIds.has(msg.id)
+      if (msg.id && !skipping) {
+        seenIds.add(msg.id)
+        lastEventId = msg.id
+      }
+    }
+    if (skipping) return
+
+    offset++
+    failures = 0
+    if (event.type === 'task_started' && event.task_id) taskId = event.task_id
+    if (isTerminalEvent(event)) finished = true
+    if (event.type === 'stream_error') streamError = event.error || 'Task stream error'
+    onEvent(event)
+  }
+
+  while (true) {
+    let lastError: Error | null = null
+    try {
+      await readStreamEvents(res, handleEvent, {
+        lastEventId,
+        onRetry: (ms) => { retryMs = ms },
+      })
+    } catch (err) {
+      if ((err as Error).name === 'AbortError' || signal?.aborted) throw err
+      lastError = err as Error
+    }
+    if (finished) return
+    // 服务端报告的流错误：续传也无法恢复
+    if (streamError) throw new Error(streamError)
+
+    // 流在任务结束前断开：尝试续传
     while (true) {
-      const { done, value } = await reader.read()
-      if (done) break
-      
-      buffer += decoder.decode(value, { stream: true })
-      
-      // 解析 SSE 事件 (事件以 \n\n 分隔)
-      const parts = buffer.split('\n\n')
-      buffer = parts.pop() || ''
-      
-      for (const part of parts) {
-        if (!part.trim()) continue
-        
-        const lines = part.split('\n')
-        let eventType = 'message'
-        let eventData = ''
-        
-        for (const line of lines) {
-          if (line.startsWith('event:')) {
-            eventType = line.slice(6).trim()
-          } else if (line.startsWith('data:')) {
-            eventData = line.slice(5).trim()
-          }
-        }
-        
-        // 忽略 ping 事件
-        if (eventType === 'ping') continue
-        
-        if (eventData) {
-          try {
-            const data = JSON.parse(eventData)
-            onEvent({ type: eventType, ...data })
-          } catch {
-            // 非 JSON 数据
-            onEvent({ type: eventType, content: eventData })
-          }
-        } else {
-          onEvent({ type: eventType })
-        }
+      failures++
+      if (failures > maxRetries) {
+        throw lastError ?? new Error('Task stream interrupted')
       }
+      onReconnecting?.(failures)
+      await waitForReconnect(failures === 1 ? 0 : Math.min(30000, retryMs * Math.pow(2, failures - 2)), signal)
+
+      let resumed: Response | null
+      try {
+        resumed = await openTaskEventStream(serviceUrl, taskId, signal, offset, lastEventId)
+      } catch (err) {
+        if ((err as Error).name === 'AbortError' || signal?.aborted) throw err
+        lastError = err as Error
+        continue
+      }
+
+      // 后端不支持续传或任务已不存在：正常结束的流直接返回，异常中断则抛出原错误
+      if (!resumed) {
+        if (lastError) throw lastError
+        return
+      }
+      res = resumed
+      break
     }
-  } finally {
-    reader.releaseLock()
+    onResumed?.()
+  }
+}
+
+/**
+ * 获取 Agent 运行状态
+ * 兼容 { success, data } 包装与直接返回两种格式
+ */
+export async function getServiceStatus(serviceUrl: string): Promise<ServiceStatus> {
+  const res = await fetch(`${serviceUrl}/api/status`)
+  
+  if (!res.ok) {
+    throw new Error(`Failed to fetch status: ${res.status}`)
+  }
+  
+  const json = await res.json()
+  const data = json?.data ?? json
+  
+  return {
+    sessionId: data.session_id ?? undefined,
+    isRunning: Boolean(data.is_running),
+    state: data.state,
+    taskId: data.task_id ?? data.current_task_id ?? undefined,
+  }
+}
+
+/**
+ * 列出服务声明的斜杠命令
+ * 后端不支持时（404）返回空列表
+ */
+export async function listServiceCommands(serviceUrl: string): Promise<ServiceCommand[]> {
+  const res = await fetch(`${serviceUrl}/api/commands`)
+
+  if (res.status === 404) return []
+  if (!res.ok) {
+    throw new Error(`Failed to fetch commands: ${res.status}`)
+  }
+
+  const json = await res.json()
+  const data = json?.data ?? json
+
+  return (data.commands || []).map((item: any) => ({
+    name: String(item.name).replace(/^\//, ''),
+    description: item.description,
+    argsHint: item.args_hint,
+    template: item.template,
+    action: Boolean(item.action),
+  }))
+}
+
+/**
+ * 执行服务端斜杠命令，返回服务端的提示信息
+ */
+export async function runServiceCommand(serviceUrl: string, name: string, args: string): Promise<string | undefined> {
+  const res = await fetch(`${serviceUrl}/api/commands/${encodeURIComponent(name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ args }),
+  })
+
+  if (!res.ok) {
+    const error = await res.text().catch(() => '')
+    throw new Error(error || `Failed to run command: ${res.status}`)
+  }
+
+  const json = await res.json().catch(() => null)
+  const data = json?.data ?? json
+  return data?.message ?? undefined
+}
+
+/**
+ * 获取当前模型与可用模型
+ */
+export async function getServiceModel(serviceUrl: string): Promise<ModelInfo> {
+  const res = await fetch(`${serviceUrl}/api/model`)
+
+  if (!res.ok) {
+    throw new Error(`Failed to fetch model: ${res.status}`)
+  }
+
+  const json = await res.json()
+  const data = json?.data ?? json
+
+  return {
+    model: data.model,
+    available: data.available || [],
+  }
+}
+
+/**
+ * 切换模型（之后的任务生效）
+ */
+export async function setServiceModel(serviceUrl: string, model: string): Promise<void> {
+  const res = await fetch(`${serviceUrl}/api/model`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model }),
+  })
+
+  if (!res.ok) {
+    const error = await res.text().catch(() => '')
+    throw new Error(error || `Failed to set model: ${res.status}`)
   }
 }
 
@@ -443,50 +876,105 @@ export async function cancelTask(serviceUrl: string): Promise<void> {
   }
 }
 
+/**
+ * 提交工具调用审批决定（审批模式）
+ */
+export async function respondToolApproval(
+  serviceUrl: string,
+  approvalId: string,
+  decision: ToolApprovalDecision,
+): Promise<void> {
+  const res = await fetch(`${serviceUrl}/api/approvals/${encodeURIComponent(approvalId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(decision),
+  })
+
+  if (!res.ok) {
+    const error = await res.text().catch(() => '')
+    throw new Error(error || `Failed to respond to approval: ${res.status}`)
+  }
+}
+
 /**
  * 订阅 SSE 事件流（CLI serve 模式使用 /api/stream 或 /events）
  * 注意：这个函数保留用于全局事件监听，
  * 对于任务执行，推荐使用 executeStream
+ *
+ * 与 EventSource 一致：连接断开后自动重连，携带 Last-Event-ID 并遵循服务端 retry:；
+ * 服务端拒绝订阅（非 2xx）时不再重连。连续 maxRetries 次未能恢复时通过 onError 报告
  */
 export function subscribeToStream(
   serviceUrl: string,
   _sessionId: string, // CLI 模式不需要 sessionId，保留参数兼容
-  onEvent: (event: SSEEvent) => void,
+  onEvent: (event: StreamEvent) => void,
   onError?: (error: Error) => void,
+  options: ExecuteStreamOptions = {},
 ): () => void {
-  // CLI serve 模式使用 /api/stream 或 /events
-  const eventSource = new EventSource(`${serviceUrl}/api/stream`)
-  
-  eventSource.onmessage = (e) => {
-    try {
-      const event = JSON.parse(e.data) as SSEEvent
-      onEvent(event)
-    } catch (err) {
-      console.error('Failed to parse SSE event:', err)
-    }
-  }
-  
-  // 监听特定事件类型
-  const eventTypes = ['delta', 'task_started', 'task_completed', 'task_aborted', 'tool_start', 'tool_complete']
-  eventTypes.forEach(type => {
-    eventSource.addEventListener(type, (e: MessageEvent) => {
+  const controller = new AbortController()
+  const { signal } = controller
+  const { onReconnecting, onResumed, maxRetries = 10 } = options
+
+  let lastEventId = ''
+  let retryMs = 1000
+  let failures = 0
+
+  async function run() {
+    while (true) {
+      let lastError: Error | null = null
+      let res: Response | null = null
       try {
-        const data = JSON.parse(e.data)
-        onEvent({ type, ...data })
+        res = await fetch(`${serviceUrl}/api/stream`, {
+          headers: lastEventId
+            ? { Accept: 'text/event-stream', 'Last-Event-ID': lastEventId }
+            : { Accept: 'text/event-stream' },
+          signal,
+        })
       } catch (err) {
-        console.error(`Failed to parse ${type} event:`, err)
+        if ((err as Error).name === 'AbortError' || signal.aborted) throw err
+        lastError = err as Error
       }
-    })
-  })
-  
-  eventSource.onerror = (e) => {
-    console.error('SSE error:', e)
-    onError?.(new Error('SSE connection error'))
+      if (res && !res.ok) {
+        throw new Error(`Failed to subscribe: ${res.status}`)
+      }
+
+      if (res) {
+        if (failures > 0) onResumed?.()
+        try {
+          await readStreamEvents(
+            res,
+            (event, msg) => {
+              lastEventId = msg.id
+              failures = 0
+              onEvent(event)
+            },
+            { lastEventId, onRetry: (ms) => { retryMs = ms } },
+          )
+        } catch (err) {
+          if ((err as Error).name === 'AbortError' || signal.aborted) throw err
+          lastError = err as Error
+        }
+      }
+
+      // 连接断开：重连（收到事件后重新计数）
+      failures++
+      if (failures > maxRetries) {
+        throw lastError ?? new Error('Event stream interrupted')
+      }
+      onReconnecting?.(failures)
+      await waitForReconnect(failures === 1 ? 0 : Math.min(30000, retryMs * Math.pow(2, failures - 2)), signal)
+    }
   }
-  
+
+  run().catch((err) => {
+    if ((err as Error).name === 'AbortError' || signal.aborted) return
+    console.error('SSE error:', err)
+    onError?.(err as Error)
+  })
+
   // 返回取消订阅函数
   return () => {
-    eventSource.close()
+    controller.abort()
   }
 }
 
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest'
+import { createSSEParser, parseStreamEvent, readStreamEvents, type SSEMessage } from './sse'
+import type { StreamEvent } from '../types'
+import { CLI_TASK_STREAM, SERVICE_CRLF_STREAM, TRAILING_EVENT_STREAM } from './__fixtures__/sseStreams'
+
+// 按给定位置切分文本后逐块解析
+function parseChunks(chunks: string[], lastEventId?: string) {
+  const messages: SSEMessage[] = []
+  const retries: number[] = []
+  const parser = createSSEParser({ onMessage: m => messages.push(m), onRetry: ms => retries.push(ms) }, lastEventId)
+  chunks.forEach(chunk => parser.push(chunk))
+  parser.end()
+  return { messages, retries }
+}
+
+function parseText(text: string, lastEventId?: string) {
+  return parseChunks([text], lastEventId)
+}
+
+function splitEvery(text: string, size: number): string[] {
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size))
+  return chunks
+}
+
+// 以字节块形式构造响应体
+function responseOf(chunks: Uint8Array[]): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk))
+      controller.close()
+    },
+  })
+  return new Response(body)
+}
+
+async function readEvents(res: Response, lastEventId?: string) {
+  const events: Array<{ event: StreamEvent; id: string }> = []
+  const retries: number[] = []
+  await readStreamEvents(res, (event, msg) => events.push({ event, id: msg.id }), {
+    onRetry: ms => retries.push(ms),
+    lastEventId,
+  })
+  return { events, retries }
+}
+
+describe('createSSEParser', () => {
+  describe('recorded CLI serve stream', () => {
+    const expected: SSEMessage[] = [
+      { event: 'task_started', data: '{"task_id":"t-1","session_id":"s-1"}', id: '1' },
+      { event: 'delta', data: '{"content":"正在查看"}', id: '2' },
+      { event: 'tool_call_started', data: '{"call_id":"c-1","name":"bash","arguments":{"command":"ls"}}', id: '3' },
+      { event: 'tool_call_completed', data: '{"call_id":"c-1","output":"a.txt\\nb.txt","success":true}', id: '4' },
+      { event: 'ping', data: '{}', id: '4' },
+      { event: 'task_completed', data: '{"task_id":"t-1","turns":2,"duration_ms":1840}', id: '5' },
+    ]
+
+    it('parses the whole body at once', () => {
+      const { messages, retries } = parseText(CLI_TASK_STREAM)
+      expect(messages).toEqual(expected)
+      expect(retries).toEqual([3000])
+    })
+
+    it('gives the same result for any chunk size', () => {
+      for (let size = 1; size <= 16; size++) {
+        expect(parseChunks(splitEvery(CLI_TASK_STREAM, size)).messages).toEqual(expected)
+      }
+    })
+  })
+
+  describe('line endings', () => {
+    const expected: SSEMessage[] = [
+      { event: 'message', data: '{"type":"assistant_message_delta",\n "delta":"Hello"}', id: 'evt-10' },
+      { event: 'message', data: '{"type":"assistant_message_completed","content":"Hello"}', id: 'evt-11' },
+      { event: 'message', data: '{"type":"task_completed"}', id: 'evt-12' },
+    ]
+
+    it('parses a recorded CRLF stream', () => {
+      expect(parseText(SERVICE_CRLF_STREAM).messages).toEqual(expected)
+    })
+
+    it('handles CRLF split between chunks at every position', () => {
+      for (let i = 1; i < SERVICE_CRLF_STREAM.length; i++) {
+        const chunks = [SERVICE_CRLF_STREAM.slice(0, i), SERVICE_CRLF_STREAM.slice(i)]
+        expect(parseChunks(chunks).messages).toEqual(expected)
+      }
+    })
+
+    it('does not treat a split CRLF as two line breaks', () => {
+      const { messages } = parseChunks(['data: a\r', '\ndata: b\r', '\n\r', '\n'])
+      expect(messages).toEqual([{ event: 'message', data: 'a\nb', id: '' }])
+    })
+
+    it('accepts bare CR line endings', () => {
+      expect(parseText('event: delta\rdata: x\r\rdata: y\r\r').messages).toEqual([
+        { event: 'delta', data: 'x', id: '' },
+        { event: 'message', data: 'y', id: '' },
+      ])
+    })
+
+    it('treats a CR at the very end of the stream as a line break', () => {
+      expect(parseChunks(['data: x\r', '\r']).messages).toEqual([{ event: 'message', data: 'x', id: '' }])
+    })
+  })
+
+  describe('fields', () => {
+    it('joins multi-line data with \\n and keeps empty data lines', () => {
+      expect(parseText('data: first\ndata:\ndata:  indented\n\n').messages).toEqual([
+        { event: 'message', data: 'first\n\n indented', id: '' },
+      ])
+    })
+
+    it('removes only one leading space from values', () => {
+      expect(parseText('data:no-space\n\n').messages[0].data).toBe('no-space')
+    })
+
+    it('treats a field without colon as an empty value', () => {
+      expect(parseText('data\n\n').messages).toEqual([{ event: 'message', data: '', id: '' }])
+    })
+
+    it('does not dispatch events without data', () => {
+      expect(parseText('event: delta\n\nid: 7\n\n').messages).toEqual([])
+    })
+
+    it('keeps the last event id across events and from the initial value', () => {
+      const { messages } = parseText('data: a\n\nid: 9\ndata: b\n\ndata: c\n\n', '8')
+      expect(messages.map(m => m.id)).toEqual(['8', '9', '9'])
+    })
+
+    it('resets the id with an empty id field and ignores ids containing NUL', () => {
+      const { messages } = parseText('id: 1\ndata: a\n\nid\ndata: b\n\nid: 2\0x\ndata: c\n\n')
+      expect(messages.map(m => m.id)).toEqual(['1', '', ''])
+    })
+
+    it('reports only numeric retry values', () => {
+      expect(parseText('retry: 1500\n\nretry: soon\n\nretry: -1\n\n').retries).toEqual([1500])
+    })
+
+    it('ignores comments, ping comments and unknown fields', () => {
+      expect(parseText(': ping\n:\nfoo: bar\ndata: x\n: inside\n\n').messages).toEqual([
+        { event: 'message', data: 'x', id: '' },
+      ])
+    })
+  })
+
+  describe('end of stream', () => {
+    it('drops a trailing event that was not terminated by a blank line', () => {
+      expect(parseText(TRAILING_EVENT_STREAM).messages).toEqual([{ event: 'delta', data: '{"content":"first"}', id: '' }])
+    })
+
+    it('drops a trailing event that ends with a single line break', () => {
+      expect(parseText(`${TRAILING_EVENT_STREAM}\n`).messages).toHaveLength(1)
+    })
+
+    it('dispatches it once the blank line arrives', () => {
+      expect(parseText(`${TRAILING_EVENT_STREAM}\n\n`).messages).toHaveLength(2)
+    })
+  })
+})
+
+describe('parseStreamEvent', () => {
+  it('prefers the event field over the JSON type', () => {
+    expect(parseStreamEvent({ event: 'delta', data: '{"type":"other","content":"x"}', id: '' })).toEqual({
+      type: 'delta',
+      content: 'x',
+    })
+  })
+
+  it('falls back to the JSON type', () => {
+    expect(parseStreamEvent({ event: 'message', data: '{"type":"task_completed"}', id: '' })).toEqual({ type: 'task_completed' })
+  })
+
+  it('returns null for ping events', () => {
+    expect(parseStreamEvent({ event: 'ping', data: '{}', id: '' })).toBeNull()
+    expect(parseStreamEvent({ event: 'message', data: '{"type":"ping"}', id: '' })).toBeNull()
+  })
+
+  it('wraps non-JSON data as content', () => {
+    expect(parseStreamEvent({ event: 'delta', data: 'plain text', id: '' })).toEqual({ type: 'delta', content: 'plain text' })
+  })
+
+  it('marks unknown events and events missing required fields', () => {
+    expect(parseStreamEvent({ event: 'surprise', data: '{"a":1}', id: '' })).toEqual({ type: 'unknown', event: 'surprise', data: { a: 1 } })
+    expect(parseStreamEvent({ event: 'tool_call_started', data: '{"name":"bash"}', id: '' })).toMatchObject({ type: 'unknown' })
+  })
+})
+
+describe('readStreamEvents', () => {
+  const encoder = new TextEncoder()
+
+  it('reads a recorded stream from byte chunks and skips pings', async () => {
+    const bytes = encoder.encode(CLI_TASK_STREAM)
+    const chunks: Uint8Array[] = []
+    for (let i = 0; i < bytes.length; i += 5) chunks.push(bytes.slice(i, i + 5))
+
+    const { events, retries } = await readEvents(responseOf(chunks))
+    expect(events.map(e => e.event.type)).toEqual([
+      'task_started',
+      'delta',
+      'tool_call_started',
+      'tool_call_completed',
+      'task_completed',
+    ])
+    // 多字节字符被切分到不同分块时正确解码
+    expect(events[1].event).toEqual({ type: 'delta', content: '正在查看' })
+    expect(events.map(e => e.id)).toEqual(['1', '2', '3', '4', '5'])
+    expect(retries).toEqual([3000])
+  })
+
+  it('continues from the given last event id', async () => {
+    const { events } = await readEvents(responseOf([encoder.encode('data: {"type":"task_completed"}\n\n')]), 'evt-3')
+    expect(events).toEqual([{ event: { type: 'task_completed' }, id: 'evt-3' }])
+  })
+})
@@ -0,0 +1,214 @@
+/**
+ * SSE 流式客户端 - 统一解析 text/event-stream
+ *
+ * 按 WHATWG Server-Sent Events 规范解析：
+ * - 支持 \n、\r、\r\n 三种换行（包括跨分块截断的 \r\n）
+ * - 多行 data: 以 \n 拼接
+ * - 处理 id: / retry: 字段，忽略 : 开头的注释（心跳）
+ * - 空行分派事件，流结束时未完成的事件被丢弃
+ */
+
+import type { StreamEvent } from '../types'
+
+/** 原始 SSE 消息 */
+export interface SSEMessage {
+  /** 事件名，未指定时为 message */
+  event: string
+  /** 数据（多行 data: 以 \n 拼接） */
+  data: string
+  /** 最近一次收到的事件 ID（规范中的 last event ID） */
+  id: string
+}
+
+export interface SSEParserOptions {
+  /** 分派完整消息 */
+  onMessage: (msg: SSEMessage) => void
+  /** 服务端通过 retry: 指定的重连间隔（毫秒） */
+  onRetry?: (ms: number) => void
+}
+
+export interface SSEParser {
+  /** 追加一段已解码的文本 */
+  push: (chunk: string) => void
+  /** 流结束 */
+  end: () => void
+}
+
+/**
+ * 创建 SSE 解析器
+ * @param lastEventId - 初始的事件 ID（用于重连后延续）
+ */
+export function createSSEParser({ onMessage, onRetry }: SSEParserOptions, lastEventId = ''): SSEParser {
+  let buffer = ''
+  let eventType = ''
+  let dataLines: string[] = []
+  let hasData = false
+
+  const dispatch = () => {
+    if (hasData) {
+      onMessage({ event: eventType || 'message', data: dataLines.join('\n'), id: lastEventId })
+    }
+    eventType = ''
+    dataLines = []
+    hasData = false
+  }
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch()
+      return
+    }
+    // 注释行（常用作心跳）
+    if (line.startsWith(':')) return
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    switch (field) {
+      case 'event':
+        eventType = value
+        break
+      case 'data':
+        dataLines.push(value)
+        hasData = true
+        break
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) onRetry?.(Number(value))
+        break
+      default:
+        // 未知字段按规范忽略
+        break
+    }
+  }
+
+  const drain = (final: boolean) => {
+    const lineEnd = /\r\n|\r|\n/g
+    let start = 0
+    let m: RegExpExecArray | null
+    while ((m = lineEnd.exec(buffer))) {
+      // 末尾单独的 \r 可能是被分块截断的 \r\n，等待下一块再判断
+      if (m[0] === '\r' && m.index === buffer.length - 1 && !final) break
+      processLine(buffer.slice(start, m.index))
+      start = m.index + m[0].length
+    }
+    buffer = buffer.slice(start)
+  }
+
+  return {
+    push(chunk) {
+      buffer += chunk
+      drain(false)
+    },
+    end() {
+      drain(true)
+      buffer = ''
+      eventType = ''
+      dataLines = []
+      hasData = false
+    },
+  }
+}
+
+/**
+ * 读取 fetch 响应体中的 SSE 流，直到流结束
+ */
+export async function readSSEStream(res: Response, options: SSEParserOptions, lastEventId?: string): Promise<void> {
+  const reader = res.body?.getReader()
+  if (!reader) {
+    throw new Error('Response body is not readable')
+  }
+
+  const decoder = new TextDecoder()
+  const parser = createSSEParser(options, lastEventId)
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      parser.push(decoder.decode(value, { stream: true }))
+    }
+    parser.push(decoder.decode())
+    parser.end()
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// 各事件类型必须携带的字段，缺失时视为无法识别
+const KNOWN_EVENTS: Record<Exclude<StreamEvent['type'], 'unknown'>, string[]> = {
+  task_started: [],
+  user_message: [],
+  delta: [],
+  assistant_message_delta: [],
+  assistant_message_completed: [],
+  tool_start: ['call_id', 'tool'],
+  tool_complete: ['call_id'],
+  tool_call_started: ['call_id', 'name'],
+  tool_call_completed: ['call_id'],
+  tool_call_progress: ['call_id'],
+  tool_approval_requested: ['approval_id', 'call_id'],
+  tool_approval_resolved: ['approval_id', 'call_id'],
+  task_completed: [],
+  task_failed: [],
+  task_aborted: [],
+  stream_error: [],
+  warning: [],
+}
+
+/**
+ * 将原始 SSE 消息转换为强类型事件
+ * 事件名优先取 event: 字段，其次取 JSON 中的 type；ping 事件返回 null
+ */
+export function parseStreamEvent(msg: SSEMessage): StreamEvent | null {
+  let payload: Record<string, unknown>
+  try {
+    const parsed = JSON.parse(msg.data)
+    payload = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { content: msg.data }
+  } catch {
+    // 非 JSON 数据
+    payload = { content: msg.data }
+  }
+
+  const type = msg.event !== 'message' ? msg.event : typeof payload.type === 'string' ? payload.type : msg.event
+  if (type === 'ping') return null
+
+  const required = KNOWN_EVENTS[type as keyof typeof KNOWN_EVENTS]
+  if (!required || required.some(field => typeof payload[field] !== 'string')) {
+    return { type: 'unknown', event: type, data: payload }
+  }
+
+  return { ...payload, type } as StreamEvent
+}
+
+export interface ReadStreamEventsOptions {
+  onRetry?: (ms: number) => void
+  /** 初始的事件 ID（用于重连后延续） */
+  lastEventId?: string
+}
+
+/**
+ * 读取 SSE 流并分派强类型事件
+ * onEvent 的第二个参数为原始消息，可从中取得事件 ID
+ */
+export function readStreamEvents(
+  res: Response,
+  onEvent: (event: StreamEvent, msg: SSEMessage) => void,
+  options: ReadStreamEventsOptions = {},
+): Promise<void> {
+  return readSSEStream(
+    res,
+    {
+      onMessage: (msg) => {
+        const event = parseStreamEvent(msg)
+        if (event) onEvent(event, msg)
+      },
+      onRetry: options.onRetry,
+    },
+    options.lastEventId,
+  )
+}
@@ -0,0 +1,331 @@
+/**
+ * Terminal API - 终端启动配置、工作区布局、输出缓存与录制
+ * 按服务在 localStorage 中保存最近使用的启动配置（命令、参数、工作目录、环境变量）与标签页/分屏布局
+ * 终端输出与录制较大，保存在 IndexedDB 中
+ */
+
+import type { CreatePtyRequest, RecentPtyConfig, TerminalLayout, TerminalRecording } from '../types'
+
+const RECENT_KEY = 'ineffable_pty_recent'
+const LAYOUTS_KEY = 'ineffable_terminal_layouts'
+
+// 每个服务最多保留的最近配置数
+const MAX_RECENT = 8
+
+function serviceKey(serverId: string, serviceId: string): string {
+  return `${serverId}:${serviceId}`
+}
+
+function getAllRecent(): Record<string, RecentPtyConfig[]> {
+  try {
+    const data = localStorage.getItem(RECENT_KEY)
+    return data ? JSON.parse(data) : {}
+  } catch {
+    return {}
+  }
+}
+
+function saveRecent(serverId: string, serviceId: string, configs: RecentPtyConfig[]): void {
+  const all = getAllRecent()
+  all[serviceKey(serverId, serviceId)] = configs
+  localStorage.setItem(RECENT_KEY, JSON.stringify(all))
+}
+
+// 相同的命令、参数、目录与环境变量视为同一配置
+function sameConfig(a: Omit<RecentPtyConfig, 'usedAt'>, b: Omit<RecentPtyConfig, 'usedAt'>): boolean {
+  return a.command === b.command
+    && JSON.stringify(a.args ?? []) === JSON.stringify(b.args ?? [])
+    && (a.working_dir ?? '') === (b.working_dir ?? '')
+    && JSON.stringify(a.env ?? {}) === JSON.stringify(b.env ?? {})
+}
+
+/**
+ * 获取服务最近使用的终端配置（最近的在前）
+ */
+export function getRecentPtyConfigs(serverId?: string, serviceId?: string): RecentPtyConfig[] {
+  if (!serverId || !serviceId) return []
+  return getAllRecent()[serviceKey(serverId, serviceId)] ?? []
+}
+
+/**
+ * 记录一次终端启动配置（已存在时移到最前）
+ */
+export function rememberPtyConfig(serverId: string, serviceId: string, request: CreatePtyRequest): RecentPtyConfig[] {
+  const config: Omit<RecentPtyConfig, 'usedAt'> = {
+    command: request.command,
+    args: request.args,
+    working_dir: request.working_dir,
+    env: request.env,
+  }
+  const rest = getRecentPtyConfigs(serverId, serviceId).filter(c => !sameConfig(c, config))
+  const configs = [{ ...config, usedAt: new Date().toISOString() }, ...rest].slice(0, MAX_RECENT)
+  saveRecent(serverId, serviceId, configs)
+  return configs
+}
+
+/**
+ * 删除一条最近配置
+ */
+export function removeRecentPtyConfig(serverId: string, serviceId: string, config: RecentPtyConfig): RecentPtyConfig[] {
+  const configs = getRecentPtyConfigs(serverId, serviceId).filter(c => !sameConfig(c, config))
+  saveRecent(serverId, serviceId, configs)
+  return configs
+}
+
+function getLayouts(): Record<string, TerminalLayout> {
+  try {
+    const data = localStorage.getItem(LAYOUTS_KEY)
+    return data ? JSON.parse(data) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * 获取服务的终端工作区布局（未保存时为空布局）
+ */
+export function getTerminalLayout(serverId?: string, serviceId?: string): TerminalLayout {
+  const empty: TerminalLayout = { tabs: [], activeTabId: null }
+  if (!serverId || !serviceId) return empty
+  return getLayouts()[serviceKey(serverId, serviceId)] ?? empty
+}
+
+/**
+ * 保存服务的终端工作区布局
+ */
+export function saveTerminalLayout(serverId: string, serviceId: string, layout: TerminalLayout): void {
+  const layouts = getLayouts()
+  layouts[serviceKey(serverId, serviceId)] = layout
+  localStorage.setItem(LAYOUTS_KEY, JSON.stringify(layouts))
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB
+// ---------------------------------------------------------------------------
+
+const TERMINAL_DB = 'ineffable_terminal'
+const TERMINAL_DB_VERSION = 2
+const SCROLLBACK_STORE = 'scrollback'
+// 录制的元信息与内容分开保存，列出录制时不必读取内容
+const RECORDINGS_STORE = 'recordings'
+const RECORDING_DATA_STORE = 'recording_data'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openTerminalDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(TERMINAL_DB, TERMINAL_DB_VERSION)
+      req.onupgradeneeded = (e) => {
+        const db = req.result
+        if (e.oldVersion < 1) db.createObjectStore(SCROLLBACK_STORE, { keyPath: 'key' })
+        if (e.oldVersion < 2) {
+          db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' }).createIndex('serviceUrl', 'serviceUrl')
+          db.createObjectStore(RECORDING_DATA_STORE, { keyPath: 'id' })
+        }
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    // 打开失败（如隐私模式）时下次重试
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+// 在一个事务中操作，事务完成后返回
+async function withStores(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => void
+): Promise<void> {
+  const db = await openTerminalDb()
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode)
+    run(tx)
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function withScrollbackStore(mode: IDBTransactionMode, run: (store: IDBObjectStore) => void): Promise<void> {
+  return withStores([SCROLLBACK_STORE], mode, tx => run(tx.objectStore(SCROLLBACK_STORE)))
+}
+
+// ---------------------------------------------------------------------------
+// 终端输出缓存
+// ---------------------------------------------------------------------------
+
+// 每个终端最多缓存的字符数（超出时从开头按整行丢弃）
+const MAX_SCROLLBACK_CHARS = 1_000_000
+// 超过该时间未更新的缓存在清理时删除
+const SCROLLBACK_TTL = 7 * 24 * 60 * 60 * 1000
+
+interface ScrollbackRecord {
+  key: string
+  serviceUrl: string
+  ptyId: string
+  data: string
+  updatedAt: number
+}
+
+function scrollbackKey(serviceUrl: string, ptyId: string): string {
+  return `${serviceUrl}::${ptyId}`
+}
+
+function trimScrollback(data: string): string {
+  if (data.length <= MAX_SCROLLBACK_CHARS) return data
+  const start = data.length - MAX_SCROLLBACK_CHARS
+  const lineStart = data.indexOf('\n', start)
+  return data.slice(lineStart === -1 ? start : lineStart + 1)
+}
+
+/**
+ * 读取终端的输出缓存（没有缓存或 IndexedDB 不可用时为空字符串）
+ */
+export async function loadPtyScrollback(serviceUrl: string, ptyId: string): Promise<string> {
+  let data = ''
+  try {
+    await withScrollbackStore('readonly', store => {
+      const req = store.get(scrollbackKey(serviceUrl, ptyId))
+      req.onsuccess = () => {
+        data = (req.result as ScrollbackRecord | undefined)?.data ?? ''
+      }
+    })
+  } catch (err) {
+    console.warn('Failed to load terminal scrollback:', err)
+  }
+  return data
+}
+
+/**
+ * 追加终端输出到缓存
+ */
+export async function appendPtyScrollback(serviceUrl: string, ptyId: string, chunk: string): Promise<void> {
+  if (!chunk) return
+  const key = scrollbackKey(serviceUrl, ptyId)
+  try {
+    await withScrollbackStore('readwrite', store => {
+      const req = store.get(key)
+      req.onsuccess = () => {
+        const prev = req.result as ScrollbackRecord | undefined
+        const record: ScrollbackRecord = {
+          key,
+          serviceUrl,
+          ptyId,
+          data: trimScrollback((prev?.data ?? '') + chunk),
+          updatedAt: Date.now(),
+        }
+        store.put(record)
+      }
+    })
+  } catch (err) {
+    console.warn('Failed to save terminal scrollback:', err)
+  }
+}
+
+/**
+ * 删除终端的输出缓存
+ */
+export async function deletePtyScrollback(serviceUrl: string, ptyId: string): Promise<void> {
+  try {
+    await withScrollbackStore('readwrite', store => {
+      store.delete(scrollbackKey(serviceUrl, ptyId))
+    })
+  } catch (err) {
+    console.warn('Failed to delete terminal scrollback:', err)
+  }
+}
+
+/**
+ * 清理输出缓存：删除该服务中已不存在的终端，以及所有长时间未更新的缓存
+ */
+export async function prunePtyScrollback(serviceUrl: string, living: Set<string>): Promise<void> {
+  const expired = Date.now() - SCROLLBACK_TTL
+  try {
+    await withScrollbackStore('readwrite', store => {
+      const req = store.openCursor()
+      req.onsuccess = () => {
+        const cursor = req.result
+        if (!cursor) return
+        const record = cursor.value as ScrollbackRecord
+        if ((record.serviceUrl === serviceUrl && !living.has(record.ptyId)) || record.updatedAt < expired) {
+          cursor.delete()
+        }
+        cursor.continue()
+      }
+    })
+  } catch (err) {
+    console.warn('Failed to prune terminal scrollback:', err)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 终端录制
+// ---------------------------------------------------------------------------
+
+/**
+ * 保存录制（元信息与 asciicast 内容）
+ */
+export async function saveTerminalRecording(recording: TerminalRecording, cast: string): Promise<void> {
+  await withStores([RECORDINGS_STORE, RECORDING_DATA_STORE], 'readwrite', tx => {
+    tx.objectStore(RECORDINGS_STORE).put(recording)
+    tx.objectStore(RECORDING_DATA_STORE).put({ id: recording.id, cast })
+  })
+}
+
+/**
+ * 列出服务的录制（最近的在前）
+ */
+export async function listTerminalRecordings(serviceUrl: string): Promise<TerminalRecording[]> {
+  let recordings: TerminalRecording[] = []
+  await withStores([RECORDINGS_STORE], 'readonly', tx => {
+    const req = tx.objectStore(RECORDINGS_STORE).index('serviceUrl').getAll(serviceUrl)
+    req.onsuccess = () => {
+      recordings = req.result as TerminalRecording[]
+    }
+  })
+  return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+}
+
+/**
+ * 获取单个录制的元信息
+ */
+export async function getTerminalRecording(id: string): Promise<TerminalRecording | undefined> {
+  let recording: TerminalRecording | undefined
+  await withStores([RECORDINGS_STORE], 'readonly', tx => {
+    const req = tx.objectStore(RECORDINGS_STORE).get(id)
+    req.onsuccess = () => {
+      recording = req.result as TerminalRecording | undefined
+    }
+  })
+  return recording
+}
+
+/**
+ * 读取录制的 asciicast 内容
+ */
+export async function loadTerminalRecordingCast(id: string): Promise<string> {
+  let cast: string | undefined
+  await withStores([RECORDING_DATA_STORE], 'readonly', tx => {
+    const req = tx.objectStore(RECORDING_DATA_STORE).get(id)
+    req.onsuccess = () => {
+      cast = (req.result as { cast: string } | undefined)?.cast
+    }
+  })
+  if (cast === undefined) throw new Error('录制不存在')
+  return cast
+}
+
+/**
+ * 删除录制
+ */
+export async function deleteTerminalRecording(id: string): Promise<void> {
+  await withStores([RECORDINGS_STORE, RECORDING_DATA_STORE], 'readwrite', tx => {
+    tx.objectStore(RECORDINGS_STORE).delete(id)
+    tx.objectStore(RECORDING_DATA_STORE).delete(id)
+  })
+}
@@ -1,15 +1,30 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react'
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { Plus, Bot, RefreshCw, MessageSquare } from 'lucide-react'
 import { cn } from '../utils/cn'
-import type { Server, Service, Session, SSEEvent } from '../types'
-import { createSession } from '../api/services'
+import type { FileEntry, FileReference, Server, Service, Session, ServiceCommand } from '../types'
+import { getApprovalPolicy } from '../api/approvals'
+import { createSession, getServiceModel, listServiceCommands, renameSession, runServiceCommand, setServiceModel } from '../api/services'
 import '../styles/markdown.css'
 
-import type { ContentSegment, Message, ToolCall } from './chat/types'
+import type { ContentSegment, Message, PendingAttachment, PendingPrompt, ToolCall } from './chat/types'
+import { readAttachment } from './chat/attachments'
+import { loadMentionFiles } from './chat/fileMentions'
 import ChatHeader from './chat/ChatHeader'
 import ChatMessageBubble from './chat/ChatMessageBubble'
 import ChatComposer from './chat/ChatComposer'
+import PromptLibrary from './chat/PromptLibrary'
+import QueuedPrompts from './chat/QueuedPrompts'
+import ApprovalSettings from './chat/ApprovalSettings'
+import { ToolRenderContext, type ToolRenderActions } from './chat/tools'
+import ChangesPanel from './chat/ChangesPanel'
+import { collectSessionChanges } from './chat/fileChanges'
 import BackToBottomButton from './chat/BackToBottomButton'
+import StreamDebugPanel from './chat/StreamDebugPanel'
+import { TerminalPanel } from './TerminalPanel'
+import TerminalRecordingsDialog from './TerminalRecordingsDialog'
+import { RECORDING_LINK_PREFIX } from './terminalRecording'
+import { mergeSlashCommands, type SlashCommand } from './chat/slashCommands'
+import { downloadText, messagesToMarkdown } from './chat/exportMarkdown'
 import { useChatMessages } from '../hooks/useChatMessages'
 import { useChatScrollFollow } from '../hooks/useChatScrollFollow'
 
@@ -20,51 +35,332 @@ interface Props {
   session: Session | null
   serviceUrl: string
   onSessionChange?: (session: Session) => void
-  onSessionTitleRefresh?: (sessionId: string) => void
-  onRunningSessionChange?: (sessionId: string | null) => void
+  onSessionTitleRefresh?: (sessionId: string, serviceUrl: string) => void
+  // 分叉出新会话后，在侧边栏中打开
+  onSessionFork?: (session: Session) => void
+  // 打开同一服务下的其他会话（例如分叉来源）
+  onOpenSession?: (sessionId: string) => void
+  // 在同一服务器的另一个服务中插入或发送 prompt（固定了目标服务的模板）
+  onRunOnService?: (serviceId: string, text: string, send: boolean) => void
+  // 切换到目标会话后待处理的 prompt
+  pendingPrompt?: PendingPrompt | null
+  onPendingPromptHandled?: () => void
 }
 
 
-export default function ChatPanel({ server, service, session, serviceUrl, onSessionChange, onSessionTitleRefresh, onRunningSessionChange }: Props) {
+export default function ChatPanel({
+  server,
+  service,
+  session,
+  serviceUrl,
+  onSessionChange,
+  onSessionTitleRefresh,
+  onSessionFork,
+  onOpenSession,
+  onRunOnService,
+  pendingPrompt,
+  onPendingPromptHandled,
+}: Props) {
   const [input, setInput] = useState('')
+  const [showDebug, setShowDebug] = useState(false)
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([])
+  const [mentions, setMentions] = useState<FileReference[]>([])
+  const [showTerminal, setShowTerminal] = useState(false)
+  const [showChanges, setShowChanges] = useState(false)
+  // 从改动面板跳转后短暂高亮的消息
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  const highlightTimerRef = useRef<number | null>(null)
+  const [showPrompts, setShowPrompts] = useState(false)
+  // 终端录制列表（/recordings）；从消息中的录制链接打开时直接回放
+  const [recordingsDialog, setRecordingsDialog] = useState<{ recordingId?: string } | null>(null)
+  const [showApprovals, setShowApprovals] = useState(false)
+  const [approvalEnabled, setApprovalEnabled] = useState(false)
+  const [serviceCommands, setServiceCommands] = useState<ServiceCommand[]>([])
+  // 命令执行结果等短暂提示
+  const [notice, setNotice] = useState<string | null>(null)
+  const noticeTimerRef = useRef<number | null>(null)
 
-  const { messages, setMessages, loading, sending, sendMessage, cancel } = useChatMessages({
+  const {
+    messages,
+    loading,
+    sending,
+    reconnecting,
+    unknownEvents,
+    clearUnknownEvents,
+    sendMessage,
+    queue,
+    queuePaused,
+    queuePrompt,
+    queueActions,
+    editMessage,
+    regenerate,
+    switchBranch,
+    forkAt,
+    clearSession,
+    branchNav,
+    decideApproval,
+    cancel,
+  } = useChatMessages({
     serviceUrl,
+    server,
+    service,
     session,
     onSessionTitleRefresh,
   })
   
   const { scrollContainerRef, isAtBottom, handleScroll, markAtBottomAndScroll } = useChatScrollFollow({
     resetDeps: [session?.id, loading],
-    followDeps: [messages],
+    followDeps: [messages, queue],
     thresholdPx: 80,
   })
 
+  // 切换到目标会话后插入或发送待处理的 prompt
   useEffect(() => {
-    onRunningSessionChange?.(sending ? (session?.id ?? null) : null)
-  }, [onRunningSessionChange, sending, session?.id])
+    if (!pendingPrompt || pendingPrompt.sessionId !== session?.id) return
+    onPendingPromptHandled?.()
+    if (pendingPrompt.send) void sendMessage(pendingPrompt.text)
+    else setInput(pendingPrompt.text)
+  }, [pendingPrompt, session?.id])
 
-  // 刷新会话列表（用于获取自动生成的标题）
+  // 加载服务声明的斜杠命令（后端不支持时为空）
+  useEffect(() => {
+    if (!serviceUrl) return
+    let cancelled = false
+    listServiceCommands(serviceUrl)
+      .then(list => { if (!cancelled) setServiceCommands(list) })
+      .catch(err => {
+        console.warn('Failed to load service commands:', err)
+        if (!cancelled) setServiceCommands([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [serviceUrl])
+
+  const commands = useMemo(() => mergeSlashCommands(serviceCommands), [serviceCommands])
+
+  // 本会话修改过的文件（实时事件与历史记录）
+  const sessionChanges = useMemo(() => collectSessionChanges(messages), [messages])
+
+  // 当前服务是否开启了工具审批模式
+  useEffect(() => {
+    setApprovalEnabled(getApprovalPolicy(server?.id, service?.id).enabled)
+  }, [server?.id, service?.id])
+
+  const showNotice = useCallback((text: string) => {
+    setNotice(text)
+    if (noticeTimerRef.current) window.clearTimeout(noticeTimerRef.current)
+    noticeTimerRef.current = window.setTimeout(() => setNotice(null), 4000)
+  }, [])
+
+  useEffect(() => () => {
+    if (noticeTimerRef.current) window.clearTimeout(noticeTimerRef.current)
+    if (highlightTimerRef.current) window.clearTimeout(highlightTimerRef.current)
+  }, [])
+
+  // 跳到产生改动的消息：优先定位到具体的工具调用
+  const handleJumpToChange = useCallback((messageId: string, toolId: string) => {
+    const container = scrollContainerRef.current
+    const messageEl = container?.querySelector<HTMLElement>(`[data-message-id="${CSS.escape(messageId)}"]`)
+    if (!messageEl) return
+    const target = messageEl.querySelector<HTMLElement>(`[data-tool-id="${CSS.escape(toolId)}"]`) ?? messageEl
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setHighlightedMessageId(messageId)
+    if (highlightTimerRef.current) window.clearTimeout(highlightTimerRef.current)
+    highlightTimerRef.current = window.setTimeout(() => setHighlightedMessageId(null), 2000)
+  }, [scrollContainerRef])
+
+  async function handleCommand(command: SlashCommand, args: string) {
+    try {
+      if (command.source === 'service') {
+        if (!command.action) return
+        const message = await runServiceCommand(serviceUrl, command.name, args)
+        showNotice(message || `已执行 /${command.name}`)
+        return
+      }
+
+      switch (command.name) {
+        case 'new':
+          await handleCreateSession()
+          break
+        case 'cancel':
+          if (sending) await cancel()
+          else showNotice('没有正在运行的任务')
+          break
+        case 'clear':
+          if (sending) {
+            showNotice('任务运行中，无法清空')
+            break
+          }
+          if (!confirm('确定要清空当前会话吗？旧对话会保留为分支。')) break
+          await clearSession()
+          break
+        case 'rename': {
+          if (!session) break
+          if (!args) {
+            showNotice('用法：/rename <标题>')
+            break
+          }
+          await renameSession(serviceUrl, session.id, args)
+          onSessionChange?.({ ...session, name: args })
+          onSessionTitleRefresh?.(session.id, serviceUrl)
+          break
+        }
+        case 'export': {
+          const title = session?.name || (session ? `会话 ${session.id.slice(0, 8)}` : '对话')
+          downloadText(`${title}.md`, messagesToMarkdown(messages, title))
+          break
+        }
+        case 'terminal':
+          setShowTerminal(v => !v)
+          break
+        case 'changes':
+          setShowChanges(v => !v)
+          break
+        case 'recordings':
+          setRecordingsDialog({})
+          break
+        case 'model': {
+          if (args) {
+            await setServiceModel(serviceUrl, args)
+            showNotice(`已切换模型：${args}`)
+          } else {
+            const info = await getServiceModel(serviceUrl)
+            showNotice(
+              info.available.length > 0
+                ? `当前模型：${info.model}（可用：${info.available.join('、')}）`
+                : `当前模型：${info.model}`
+            )
+          }
+          break
+        }
+      }
+    } catch (err) {
+      showNotice(`/${command.name} 失败: ${(err as Error).message}`)
+    }
+  }
 
   async function handleCreateSession() {
     if (!serviceUrl) return
 
     try {
       const newSession = await createSession(serviceUrl)
-      setMessages([])
       onSessionChange?.(newSession)
     } catch (err) {
       alert(`创建会话失败: ${(err as Error).message}`)
     }
   }
 
+  async function handleEditMessage(messageId: string, prompt: string) {
+    try {
+      await editMessage(messageId, prompt)
+    } catch (err) {
+      alert(`编辑失败: ${(err as Error).message}`)
+    }
+  }
+
+  async function handleRegenerate(messageId: string) {
+    try {
+      await regenerate(messageId)
+    } catch (err) {
+      alert(`重新生成失败: ${(err as Error).message}`)
+    }
+  }
+
+  async function handleFork(messageId: string) {
+    try {
+      const result = await forkAt(messageId)
+      if (!result) return
+      onSessionFork?.(result.session)
+      // 从用户消息分叉：把该 prompt 放回输入框，便于修改后发送
+      if (result.prompt) setInput(result.prompt)
+    } catch (err) {
+      alert(`分叉会话失败: ${(err as Error).message}`)
+    }
+  }
+
+  async function handleSwitchBranch(branchId: string) {
+    try {
+      await switchBranch(branchId)
+    } catch (err) {
+      alert(`切换分支失败: ${(err as Error).message}`)
+    }
+  }
+
+  async function handleAddFiles(files: File[]) {
+    try {
+      const added = await Promise.all(files.map(readAttachment))
+      setAttachments(prev => [...prev, ...added])
+    } catch (err) {
+      alert(`读取附件失败: ${(err as Error).message}`)
+    }
+  }
+
+  const handleLoadFiles = useCallback(() => loadMentionFiles(serviceUrl), [serviceUrl])
+
+  function handleMention(entry: FileEntry) {
+    setMentions(prev => prev.some(m => m.path === entry.path) ? prev : [...prev, { path: entry.path, type: entry.type }])
+  }
+
+  // 工具输出中点击文件：作为 @ 引用插入输入框
+  const toolRenderActions = useMemo<ToolRenderActions>(() => ({
+    onOpenFile: (path: string) => {
+      setMentions(prev => prev.some(m => m.path === path) ? prev : [...prev, { path, type: 'file' }])
+      setInput(prev => `${prev}${prev && !/\s$/.test(prev) ? ' ' : ''}@${path} `)
+    },
+  }), [])
+
+  function handleRemoveAttachment(id: string) {
+    setAttachments(prev => {
+      const removed = prev.find(a => a.id === id)
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl)
+      return prev.filter(a => a.id !== id)
+    })
+  }
+
   function handleSubmit(e?: React.FormEvent) {
     e?.preventDefault()
-    if (sending) return
-    if (!input.trim()) return
+    if (!input.trim() && attachments.length === 0) return
     const currentPrompt = input
+    const currentAttachments = attachments
+    // 只保留仍出现在输入中的 @ 引用
+    const currentMentions = mentions.filter(m => currentPrompt.includes(`@${m.path}`))
     setInput('')
-    void sendMessage(currentPrompt)
+    setAttachments([])
+    setMentions([])
+    // 任务运行中（或队列未清空时）加入队列，保持发送顺序
+    if (sending || queue.length > 0) {
+      queuePrompt(currentPrompt, currentAttachments, currentMentions)
+      return
+    }
+    void sendMessage(currentPrompt, currentAttachments, currentMentions)
+  }
+
+  function handleInsertPrompt(text: string) {
+    setInput(prev => (prev.trim() ? `${prev.replace(/\s+$/, '')}\n\n${text}` : text))
+    setShowPrompts(false)
+  }
+
+  // 消息中的终端录制链接：打开播放器而不是跳转
+  function handleMessagesClick(e: React.MouseEvent) {
+    const link = (e.target as HTMLElement).closest('a')
+    const href = link?.getAttribute('href')
+    if (!href?.startsWith(RECORDING_LINK_PREFIX)) return
+    e.preventDefault()
+    setRecordingsDialog({ recordingId: href.slice(RECORDING_LINK_PREFIX.length) })
+  }
+
+  function handleSendPrompt(text: string) {
+    if (sending || !text.trim()) return
+    setShowPrompts(false)
+    void sendMessage(text)
+  }
+
+  function handleRunPromptOnService(serviceId: string, text: string, send: boolean) {
+    if (!text.trim()) return
+    setShowPrompts(false)
+    if (onRunOnService) onRunOnService(serviceId, text, send)
+    else alert('无法切换到模板固定的服务')
   }
 
   // 未选择服务或会话时的空状态
@@ -91,56 +387,202 @@ export default function ChatPanel({ server, service, session, serviceUrl, onSess
   }
 
   return (
-    <div className="flex flex-col h-full bg-background text-foreground">
-      {/* Header */}
-      <ChatHeader server={server} service={service} session={session} />
-
-      {/* Chat Area */}
-      <div className="relative flex-1 min-h-0">
-        <main
-          ref={scrollContainerRef}
-          onScroll={handleScroll}
-          className="h-full min-h-0 overflow-y-auto p-4 space-y-6"
-        >
-        {!session ? (
-          <div className="h-full flex flex-col items-center justify-center text-muted-foreground/40">
-            <div className="bg-muted/30 p-4 rounded-full mb-4">
-              <Bot className="size-8" />
-            </div>
-            <p className="text-sm mb-4">请先创建一个会话</p>
-            <button
-              onClick={handleCreateSession}
-              className="flex items-center gap-2 px-4 py-2 rounded-full bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+    <div className="flex h-full bg-background text-foreground">
+      <div className="flex flex-col flex-1 min-w-0 h-full">
+        {/* Header */}
+        <ChatHeader
+          server={server}
+          service={service}
+          session={session}
+          unknownEventCount={unknownEvents.length}
+          debugOpen={showDebug}
+          onToggleDebug={() => setShowDebug(v => !v)}
+          onOpenParent={session?.parentId && onOpenSession ? () => onOpenSession(session.parentId!) : undefined}
+          approvalEnabled={approvalEnabled}
+          onOpenApprovals={() => setShowApprovals(true)}
+          changedFileCount={sessionChanges.length}
+          changesOpen={showChanges}
+          onToggleChanges={() => setShowChanges(v => !v)}
+        />
+
+        {/* 调试视图：未识别的流事件 */}
+        {showDebug && (
+          <StreamDebugPanel events={unknownEvents} onClear={clearUnknownEvents} onClose={() => setShowDebug(false)} />
+        )}
+
+        {/* Chat Area */}
+        <div className="relative flex-1 min-h-0">
+          <ToolRenderContext.Provider value={toolRenderActions}>
+            <main
+              ref={scrollContainerRef}
+              onScroll={handleScroll}
+              onClick={handleMessagesClick}
+              className="h-full min-h-0 overflow-y-auto p-4 space-y-6"
             >
-              <Plus className="size-4" />
-              创建会话
-            </button>
+            {!session ? (
+              <div className="h-full flex flex-col items-center justify-center text-muted-foreground/40">
+                <div className="bg-muted/30 p-4 rounded-full mb-4">
+                  <Bot className="size-8" />
+                </div>
+                <p className="text-sm mb-4">请先创建一个会话</p>
+                <button
+                  onClick={handleCreateSession}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+                >
+                  <Plus className="size-4" />
+                  创建会话
+                </button>
+              </div>
+            ) : messages.length === 0 ? (
+              <div className="h-full flex flex-col items-center justify-center text-muted-foreground/40">
+                <div className="bg-muted/30 p-4 rounded-full mb-4">
+                  <Bot className="size-8" />
+                </div>
+                <p className="text-sm">开始与 {service.name} 对话</p>
+              </div>
+            ) : (
+              messages.map((msg) => (
+                <div
+                  key={msg.id}
+                  data-message-id={msg.id}
+                  className={cn(
+                    'rounded-xl transition-colors duration-500',
+                    highlightedMessageId === msg.id && 'bg-primary/5 ring-1 ring-primary/30'
+                  )}
+                >
+                  <ChatMessageBubble
+                    msg={msg}
+                    branchNav={branchNav.get(msg.id)}
+                    actionsDisabled={sending}
+                    onEdit={msg.role === 'user' ? (content) => void handleEditMessage(msg.id, content) : undefined}
+                    onSwitchBranch={(branchId) => void handleSwitchBranch(branchId)}
+                    onRegenerate={msg.role === 'assistant' ? () => void handleRegenerate(msg.id) : undefined}
+                    onFork={msg.role !== 'system' ? () => void handleFork(msg.id) : undefined}
+                    onToolApproval={msg.role === 'assistant' ? decideApproval : undefined}
+                  />
+                </div>
+              ))
+            )}
+            {session && (
+              <QueuedPrompts
+                queue={queue}
+                paused={queuePaused}
+                sending={sending}
+                onUpdate={queueActions.update}
+                onRemove={queueActions.remove}
+                onMove={queueActions.move}
+                onResume={queueActions.resume}
+                onClear={queueActions.clear}
+              />
+            )}
+            </main>
+          </ToolRenderContext.Provider>
+
+          {/* 未在底部时：悬浮“回到底部”按钮 */}
+          {!isAtBottom && session && (
+            <BackToBottomButton
+              onClick={() => {
+                markAtBottomAndScroll('smooth')
+              }}
+            />
+          )}
+        </div>
+
+        {/* 任务流中断时的续传提示 */}
+        {reconnecting && (
+          <div className="flex-none flex items-center justify-center gap-2 pt-2 text-xs text-muted-foreground">
+            <RefreshCw className="size-3 animate-spin" />
+            连接中断，正在重新连接任务…
           </div>
-        ) : messages.length === 0 ? (
-          <div className="h-full flex flex-col items-center justify-center text-muted-foreground/40">
-            <div className="bg-muted/30 p-4 rounded-full mb-4">
-              <Bot className="size-8" />
-            </div>
-            <p className="text-sm">开始与 {service.name} 对话</p>
+        )}
+
+        {/* 命令执行结果 */}
+        {notice && (
+          <div className="flex-none flex items-center justify-center pt-2 text-xs text-muted-foreground">
+            {notice}
           </div>
-        ) : (
-          messages.map((msg) => <ChatMessageBubble key={msg.id} msg={msg} />)
         )}
-        </main>
-
-        {/* 未在底部时：悬浮“回到底部”按钮 */}
-        {!isAtBottom && session && (
-          <BackToBottomButton
-            onClick={() => {
-              markAtBottomAndScroll('smooth')
-            }}
+
+        {/* Input Area */}
+        {session && (
+          <ChatComposer
+            input={input}
+            setInput={setInput}
+            sending={sending}
+            onSubmit={handleSubmit}
+            onCancel={cancel}
+            attachments={attachments}
+            onAddFiles={(files) => void handleAddFiles(files)}
+            onRemoveAttachment={handleRemoveAttachment}
+            commands={commands}
+            onCommand={(command, args) => void handleCommand(command, args)}
+            onLoadFiles={serviceUrl ? handleLoadFiles : undefined}
+            onMention={handleMention}
+            onOpenPrompts={() => setShowPrompts(true)}
+            canQueue
+          />
+        )}
+
+        {/* 工具审批设置与记录 */}
+        {showApprovals && (
+          <ApprovalSettings
+            serverId={server.id}
+            serviceId={service.id}
+            serviceName={service.name}
+            onChange={setApprovalEnabled}
+            onClose={() => setShowApprovals(false)}
+          />
+        )}
+
+        {/* 提示词模板库 */}
+        {showPrompts && (
+          <PromptLibrary
+            serverId={server.id}
+            serviceId={service.id}
+            serviceName={service.name}
+            canSend={!sending}
+            onInsert={handleInsertPrompt}
+            onSend={handleSendPrompt}
+            onRunOnService={handleRunPromptOnService}
+            onClose={() => setShowPrompts(false)}
+          />
+        )}
+
+        {/* 终端录制（/recordings 或消息中的录制链接） */}
+        {recordingsDialog && serviceUrl && (
+          <TerminalRecordingsDialog
+            serviceUrl={serviceUrl}
+            sessionId={session?.id}
+            initialRecordingId={recordingsDialog.recordingId}
+            onInsertLink={handleInsertPrompt}
+            onClose={() => setRecordingsDialog(null)}
           />
         )}
       </div>
 
-      {/* Input Area */}
-      {session && (
-        <ChatComposer input={input} setInput={setInput} sending={sending} onSubmit={handleSubmit} onCancel={cancel} />
+      {/* 会话改动面板（/changes） */}
+      {showChanges && session && (
+        <ChangesPanel
+          files={sessionChanges}
+          className="w-[28rem] flex-none"
+          onJump={handleJumpToChange}
+          onClose={() => setShowChanges(false)}
+        />
+      )}
+
+      {/* 终端面板（/terminal）：切换服务时重新挂载，加载该服务的终端布局 */}
+      {showTerminal && serviceUrl && (
+        <TerminalPanel
+          key={`${server.id}:${service.id}`}
+          serviceUrl={serviceUrl}
+          serverId={server.id}
+          serviceId={service.id}
+          workingDir={service.workingDir}
+          sessionId={session?.id}
+          className="w-[32rem] flex-none"
+          onClose={() => setShowTerminal(false)}
+          onInsertRecordingLink={handleInsertPrompt}
+        />
       )}
     </div>
   )
@@ -37,6 +37,65 @@ hljs.registerLanguage('sql', sql)
 hljs.registerLanguage('markdown', markdown)
 hljs.registerLanguage('md', markdown)
 
+// 文件扩展名 → 语言（用于工具输出、diff 等非 Markdown 代码）
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  py: 'python', rs: 'rust', sh: 'bash', bash: 'bash', zsh: 'bash',
+  json: 'json', jsonl: 'json', yaml: 'yaml', yml: 'yaml',
+  xml: 'xml', html: 'xml', htm: 'xml', svg: 'xml', vue: 'xml',
+  css: 'css', scss: 'css', less: 'css', sql: 'sql', md: 'markdown', markdown: 'markdown',
+}
+
+/**
+ * 根据文件路径推断高亮语言，未知时返回 undefined
+ */
+export function languageForPath(path: string): string | undefined {
+  const name = path.split('/').pop()?.toLowerCase() || ''
+  const dot = name.lastIndexOf('.')
+  return dot === -1 ? undefined : EXTENSION_LANGUAGES[name.slice(dot + 1)]
+}
+
+function escapeHtml(str: string): string {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * 高亮代码并按行拆分（返回每行的 HTML）
+ * 跨行的高亮标签（多行注释、字符串）在每行末尾闭合、下一行重新打开
+ */
+export function highlightLines(code: string, language?: string): string[] {
+  let html: string
+  try {
+    html = language && hljs.getLanguage(language)
+      ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+      : escapeHtml(code)
+  } catch {
+    html = escapeHtml(code)
+  }
+
+  const lines: string[] = []
+  const open: string[] = []
+  let current = ''
+  for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (!part) continue
+    if (part === '\n') {
+      lines.push(current + '</span>'.repeat(open.length))
+      current = open.join('')
+    } else if (part.startsWith('<span')) {
+      open.push(part)
+      current += part
+    } else if (part === '</span>') {
+      open.pop()
+      current += part
+    } else {
+      current += part
+    }
+  }
+  lines.push(current)
+  return lines
+}
+
 // 配置 markdown-it
 const md = new MarkdownIt({
   html: false,
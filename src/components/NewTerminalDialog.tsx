@@ -0,0 +1,302 @@
+/**
+ * NewTerminalDialog - 新建 PTY 终端
+ *
+ * 选择 shell 预设或最近使用的配置，可设置参数、工作目录、环境变量与初始大小
+ */
+
+import { useState } from 'react'
+import { Clock, Plus, RefreshCw, Trash2, X } from 'lucide-react'
+import { cn } from '../utils/cn'
+import { createPtySession } from '../api/services'
+import { getRecentPtyConfigs, rememberPtyConfig, removeRecentPtyConfig } from '../api/terminals'
+import type { CreatePtyRequest, PtySession, RecentPtyConfig } from '../types'
+
+interface NewTerminalDialogProps {
+  serviceUrl: string
+  serverId?: string
+  serviceId?: string
+  /** 默认工作目录（服务的 workingDir） */
+  defaultWorkingDir?: string
+  /** 初始大小（按终端容器估算） */
+  defaultSize: { cols: number; rows: number }
+  onCreated: (session: PtySession) => void
+  onClose: () => void
+}
+
+const SHELL_PRESETS: Array<{ label: string; command: string; args: string }> = [
+  { label: 'bash', command: 'bash', args: '-l' },
+  { label: 'zsh', command: 'zsh', args: '-l' },
+  { label: 'sh', command: 'sh', args: '' },
+  { label: 'fish', command: 'fish', args: '' },
+  { label: 'python', command: 'python3', args: '' },
+  { label: 'node', command: 'node', args: '' },
+]
+
+interface EnvRow {
+  id: string
+  key: string
+  value: string
+}
+
+// 按空白拆分参数，支持单/双引号
+function splitArgs(text: string): string[] {
+  const args: string[] = []
+  for (const m of text.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) args.push(m[1] ?? m[2] ?? m[3])
+  return args
+}
+
+function joinArgs(args: string[] = []): string {
+  return args.map(arg => (/[\s"']/.test(arg) ? (arg.includes('"') ? `'${arg}'` : `"${arg}"`) : arg)).join(' ')
+}
+
+function envRows(env: Record<string, string> = {}): EnvRow[] {
+  return Object.entries(env).map(([key, value]) => ({ id: crypto.randomUUID(), key, value }))
+}
+
+function describe(config: RecentPtyConfig): string {
+  return [config.command, joinArgs(config.args)].filter(Boolean).join(' ')
+}
+
+export default function NewTerminalDialog({
+  serviceUrl,
+  serverId,
+  serviceId,
+  defaultWorkingDir = '',
+  defaultSize,
+  onCreated,
+  onClose,
+}: NewTerminalDialogProps) {
+  const [recent, setRecent] = useState(() => getRecentPtyConfigs(serverId, serviceId))
+  const [command, setCommand] = useState(() => recent[0]?.command ?? 'bash')
+  const [args, setArgs] = useState(() => (recent[0] ? joinArgs(recent[0].args) : '-l'))
+  const [workingDir, setWorkingDir] = useState(() => recent[0]?.working_dir ?? defaultWorkingDir)
+  const [env, setEnv] = useState<EnvRow[]>(() => envRows(recent[0]?.env))
+  const [cols, setCols] = useState(defaultSize.cols)
+  const [rows, setRows] = useState(defaultSize.rows)
+  const [creating, setCreating] = useState(false)
+
+  function applyConfig(config: Pick<RecentPtyConfig, 'command' | 'args' | 'working_dir' | 'env'>) {
+    setCommand(config.command)
+    setArgs(joinArgs(config.args))
+    setWorkingDir(config.working_dir ?? defaultWorkingDir)
+    setEnv(envRows(config.env))
+  }
+
+  function updateEnv(id: string, patch: Partial<EnvRow>) {
+    setEnv(prev => prev.map(row => (row.id === id ? { ...row, ...patch } : row)))
+  }
+
+  async function handleCreate() {
+    if (!command.trim() || creating) return
+    const envVars: Record<string, string> = {}
+    for (const row of env) {
+      if (row.key.trim()) envVars[row.key.trim()] = row.value
+    }
+    const parsedArgs = splitArgs(args)
+    const request: CreatePtyRequest = {
+      command: command.trim(),
+      args: parsedArgs.length > 0 ? parsedArgs : undefined,
+      working_dir: workingDir.trim() || undefined,
+      env: Object.keys(envVars).length > 0 ? envVars : undefined,
+      size: { cols: Math.max(20, cols || defaultSize.cols), rows: Math.max(5, rows || defaultSize.rows) },
+    }
+
+    setCreating(true)
+    try {
+      const session = await createPtySession(serviceUrl, request)
+      if (serverId && serviceId) rememberPtyConfig(serverId, serviceId, request)
+      onCreated(session)
+    } catch (err) {
+      alert(`创建终端失败: ${(err as Error).message}`)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-popover border border-border rounded-xl p-4 w-[32rem] max-w-[calc(100vw-2rem)] max-h-[80vh] flex flex-col shadow-xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="font-semibold flex-1">新建终端</h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+            title="关闭"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3">
+          {recent.length > 0 && (
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">最近使用</div>
+              <div className="space-y-0.5">
+                {recent.map(config => (
+                  <div
+                    key={`${config.usedAt}-${describe(config)}`}
+                    className="group flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-muted text-xs cursor-pointer"
+                    onClick={() => applyConfig(config)}
+                  >
+                    <Clock className="size-3 shrink-0 text-muted-foreground" />
+                    <span className="font-mono truncate">{describe(config)}</span>
+                    {config.working_dir && (
+                      <span className="text-muted-foreground truncate">{config.working_dir}</span>
+                    )}
+                    <span className="flex-1" />
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        if (serverId && serviceId) setRecent(removeRecentPtyConfig(serverId, serviceId, config))
+                      }}
+                      className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                      title="移除"
+                    >
+                      <Trash2 className="size-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">Shell</div>
+            <div className="flex flex-wrap gap-1.5">
+              {SHELL_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => {
+                    setCommand(preset.command)
+                    setArgs(preset.args)
+                  }}
+                  className={cn(
+                    'px-2 py-0.5 rounded-md text-xs font-mono transition-colors',
+                    command === preset.command ? 'bg-primary/10 text-primary' : 'bg-muted hover:bg-muted/80'
+                  )}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="text-xs text-muted-foreground">命令</span>
+              <input
+                value={command}
+                onChange={e => setCommand(e.target.value)}
+                className="w-full mt-1 px-3 py-2 bg-muted rounded-lg text-sm font-mono border-none focus:ring-1 focus:ring-primary"
+                autoFocus
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-muted-foreground">参数</span>
+              <input
+                value={args}
+                onChange={e => setArgs(e.target.value)}
+                placeholder="-l"
+                className="w-full mt-1 px-3 py-2 bg-muted rounded-lg text-sm font-mono border-none focus:ring-1 focus:ring-primary"
+              />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="text-xs text-muted-foreground">工作目录</span>
+            <input
+              value={workingDir}
+              onChange={e => setWorkingDir(e.target.value)}
+              placeholder={defaultWorkingDir || '服务默认目录'}
+              className="w-full mt-1 px-3 py-2 bg-muted rounded-lg text-sm font-mono border-none focus:ring-1 focus:ring-primary"
+            />
+          </label>
+
+          <div>
+            <div className="flex items-center mb-1">
+              <span className="flex-1 text-xs text-muted-foreground">环境变量</span>
+              <button
+                onClick={() => setEnv(prev => [...prev, { id: crypto.randomUUID(), key: '', value: '' }])}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Plus className="size-3" />
+                添加
+              </button>
+            </div>
+            {env.length === 0 ? (
+              <div className="text-xs text-muted-foreground/60">继承服务的环境变量</div>
+            ) : (
+              <div className="space-y-1.5">
+                {env.map(row => (
+                  <div key={row.id} className="flex items-center gap-1.5">
+                    <input
+                      value={row.key}
+                      onChange={e => updateEnv(row.id, { key: e.target.value })}
+                      placeholder="NAME"
+                      className="w-36 px-2 py-1 bg-muted rounded-md text-xs font-mono border-none focus:ring-1 focus:ring-primary"
+                    />
+                    <span className="text-muted-foreground">=</span>
+                    <input
+                      value={row.value}
+                      onChange={e => updateEnv(row.id, { value: e.target.value })}
+                      placeholder="value"
+                      className="flex-1 min-w-0 px-2 py-1 bg-muted rounded-md text-xs font-mono border-none focus:ring-1 focus:ring-primary"
+                    />
+                    <button
+                      onClick={() => setEnv(prev => prev.filter(r => r.id !== row.id))}
+                      className="p-1 text-muted-foreground hover:text-destructive"
+                      title="删除"
+                    >
+                      <X className="size-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-end gap-2">
+            <label className="block w-24">
+              <span className="text-xs text-muted-foreground">列</span>
+              <input
+                type="number"
+                min={20}
+                value={cols}
+                onChange={e => setCols(Number(e.target.value))}
+                className="w-full mt-1 px-3 py-2 bg-muted rounded-lg text-sm border-none focus:ring-1 focus:ring-primary"
+              />
+            </label>
+            <label className="block w-24">
+              <span className="text-xs text-muted-foreground">行</span>
+              <input
+                type="number"
+                min={5}
+                value={rows}
+                onChange={e => setRows(Number(e.target.value))}
+                className="w-full mt-1 px-3 py-2 bg-muted rounded-lg text-sm border-none focus:ring-1 focus:ring-primary"
+              />
+            </label>
+            <span className="pb-2 text-xs text-muted-foreground/60">打开后随面板自动调整</span>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg border border-border text-sm hover:bg-muted transition-colors">
+            取消
+          </button>
+          <button
+            onClick={() => void handleCreate()}
+            disabled={!command.trim() || creating}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {creating && <RefreshCw className="size-3.5 animate-spin" />}
+            创建
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,381 @@
+/**
+ * PtyTerminal - 基于 xterm.js 的 PTY 终端
+ *
+ * - 输出通过 WebSocket 写入 xterm（完整支持 ANSI、光标控制、全屏程序）
+ * - 键盘输入原样通过 WebSocket 发送
+ * - 容器尺寸变化时由 fit addon 计算行列数，并同步到 PTY
+ * - 输出缓存在 IndexedDB 中，重新挂载时先回放缓存再连接
+ * - 在回滚缓冲区中查找（支持正则，Ctrl+Shift+F 打开），导出为文本文件
+ * - 录制输出、输入与大小变化为 asciicast v2，停止录制或卸载时保存
+ */
+
+import { useEffect, useRef, useState, useImperativeHandle, forwardRef } from 'react'
+import { ChevronDown, ChevronUp, X } from 'lucide-react'
+import { Terminal } from 'xterm'
+import { FitAddon } from 'xterm-addon-fit'
+import { SearchAddon, type ISearchOptions } from 'xterm-addon-search'
+import 'xterm/css/xterm.css'
+import { cn } from '../utils/cn'
+import { connectPtyWebSocket, resizePtySession } from '../api/services'
+import { appendPtyScrollback, loadPtyScrollback, saveTerminalRecording } from '../api/terminals'
+import type { TerminalRecording } from '../types'
+import { downloadText } from './chat/exportMarkdown'
+import { createCastRecorder, type CastRecorder } from './terminalRecording'
+
+interface PtyTerminalProps {
+  serviceUrl: string
+  ptyId: string
+  className?: string
+  /** 是否获取焦点 */
+  autoFocus?: boolean
+  /** 连接状态变化回调 */
+  onConnectionChange?: (connected: boolean) => void
+  /** 设置时录制终端，取消时保存录制；input 为 true 时同时录制键盘输入（默认只录制输出） */
+  recording?: { title: string; sessionId?: string; input?: boolean } | null
+  /** 录制保存后回调 */
+  onRecordingSaved?: (recording: TerminalRecording) => void
+}
+
+export interface PtyTerminalHandle {
+  /** 打开查找栏 */
+  openSearch: () => void
+  /** 导出回滚缓冲区为文本文件 */
+  exportScrollback: () => void
+}
+
+// 尺寸变化后延迟同步到 PTY，避免拖动时频繁请求
+const RESIZE_DELAY = 150
+// 输出合并后写入缓存的间隔
+const SCROLLBACK_FLUSH_DELAY = 1000
+
+const SEARCH_DECORATIONS: ISearchOptions['decorations'] = {
+  matchBackground: '#854d0e',
+  activeMatchBackground: '#ca8a04',
+  matchOverviewRuler: '#854d0e',
+  activeMatchColorOverviewRuler: '#facc15',
+}
+
+// 正则无效时返回错误信息
+function regexError(query: string): string | null {
+  try {
+    new RegExp(query)
+    return null
+  } catch (err) {
+    return (err as Error).message
+  }
+}
+
+// 主缓冲区（含回滚部分）的纯文本：自动换行的行重新拼接，去掉末尾空行
+function bufferText(term: Terminal): string {
+  const buffer = term.buffer.normal
+  const lines: string[] = []
+  for (let i = 0; i < buffer.length; i++) {
+    const line = buffer.getLine(i)
+    if (!line) continue
+    const text = line.translateToString(true)
+    if (line.isWrapped && lines.length > 0) lines[lines.length - 1] += text
+    else lines.push(text)
+  }
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop()
+  return lines.join('\n') + '\n'
+}
+
+export const PtyTerminal = forwardRef<PtyTerminalHandle, PtyTerminalProps>(
+  function PtyTerminal({ serviceUrl, ptyId, className, autoFocus, onConnectionChange, recording, onRecordingSaved }, ref) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const termRef = useRef<Terminal | null>(null)
+  const searchRef = useRef<SearchAddon | null>(null)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const [connected, setConnected] = useState(false)
+  const onConnectionChangeRef = useRef(onConnectionChange)
+  onConnectionChangeRef.current = onConnectionChange
+  const recorderRef = useRef<CastRecorder | null>(null)
+  const recordingRef = useRef(recording)
+  recordingRef.current = recording
+  const onRecordingSavedRef = useRef(onRecordingSaved)
+  onRecordingSavedRef.current = onRecordingSaved
+
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [useRegex, setUseRegex] = useState(false)
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [results, setResults] = useState<{ index: number; count: number } | null>(null)
+  const queryError = useRegex && query ? regexError(query) : null
+
+  const openSearch = () => {
+    setSearchOpen(true)
+    // 已打开时重新选中输入内容
+    requestAnimationFrame(() => searchInputRef.current?.select())
+  }
+
+  const closeSearch = () => {
+    setSearchOpen(false)
+    setResults(null)
+    searchRef.current?.clearDecorations()
+    termRef.current?.focus()
+  }
+
+  const find = (direction: 'next' | 'previous', incremental = false) => {
+    const search = searchRef.current
+    if (!search) return
+    if (!query || queryError) {
+      search.clearDecorations()
+      setResults(null)
+      return
+    }
+    const options: ISearchOptions = { regex: useRegex, caseSensitive, incremental, decorations: SEARCH_DECORATIONS }
+    if (direction === 'next') search.findNext(query, options)
+    else search.findPrevious(query, options)
+  }
+
+  useImperativeHandle(ref, () => ({
+    openSearch,
+    exportScrollback: () => {
+      const term = termRef.current
+      if (!term) return
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19)
+      downloadText(`terminal-${ptyId.slice(0, 8)}-${stamp}.txt`, bufferText(term), 'text/plain')
+    },
+  }), [ptyId])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const term = new Terminal({
+      cursorBlink: true,
+      fontSize: 12,
+      fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+      scrollback: 10000,
+      theme: { background: '#0a0a0a' },
+      // 查找结果高亮使用 decoration API
+      allowProposedApi: true,
+    })
+    const fit = new FitAddon()
+    const search = new SearchAddon()
+    term.loadAddon(fit)
+    term.loadAddon(search)
+    term.open(container)
+    termRef.current = term
+    searchRef.current = search
+
+    const resultsListener = search.onDidChangeResults(({ resultIndex, resultCount }) =>
+      setResults({ index: resultIndex, count: resultCount })
+    )
+
+    // Ctrl+Shift+F 打开查找栏（不发送到 PTY）
+    term.attachCustomKeyEventHandler(e => {
+      if (e.type === 'keydown' && e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'f') {
+        openSearch()
+        return false
+      }
+      return true
+    })
+
+    const setState = (value: boolean) => {
+      setConnected(value)
+      onConnectionChangeRef.current?.(value)
+    }
+
+    // 输出合并后写入缓存
+    let pending = ''
+    let flushTimer: number | null = null
+    const flush = () => {
+      if (flushTimer) window.clearTimeout(flushTimer)
+      flushTimer = null
+      const chunk = pending
+      pending = ''
+      void appendPtyScrollback(serviceUrl, ptyId, chunk)
+    }
+    const record = (data: string) => {
+      pending += data
+      if (!flushTimer) flushTimer = window.setTimeout(flush, SCROLLBACK_FLUSH_DELAY)
+    }
+
+    let ws: WebSocket | null = null
+    let disposed = false
+
+    const connect = () => {
+      ws = connectPtyWebSocket(
+        serviceUrl,
+        ptyId,
+        (data) => {
+          term.write(data)
+          record(data)
+          recorderRef.current?.output(data)
+        },
+        () => {
+          setState(false)
+          term.write('\r\n\x1b[90m[连接已断开]\x1b[0m\r\n')
+        },
+        (err) => console.error('PTY WebSocket error:', err)
+      )
+      ws.addEventListener('open', () => setState(true))
+    }
+
+    // 先回放缓存的输出，再连接接收新的输出
+    loadPtyScrollback(serviceUrl, ptyId).then(saved => {
+      if (disposed) return
+      if (saved) term.write(saved + '\x1b[0m\r\n\x1b[90m[以上为缓存的历史输出]\x1b[0m\r\n')
+      connect()
+    })
+
+    const send = (data: string) => {
+      if (ws?.readyState !== WebSocket.OPEN) return
+      ws.send(JSON.stringify({ type: 'input', data }))
+      recorderRef.current?.input(data)
+    }
+    term.onData(send)
+    term.onBinary(send)
+
+    // 行列数变化时通知 PTY
+    let resizeTimer: number | null = null
+    const syncSize = () => {
+      if (resizeTimer) window.clearTimeout(resizeTimer)
+      resizeTimer = window.setTimeout(() => {
+        resizeTimer = null
+        resizePtySession(serviceUrl, ptyId, { cols: term.cols, rows: term.rows }).catch(err =>
+          console.warn('Failed to resize PTY session:', err)
+        )
+      }, RESIZE_DELAY)
+    }
+    term.onResize(({ cols, rows }) => {
+      syncSize()
+      recorderRef.current?.resize(cols, rows)
+    })
+
+    // 隐藏（尺寸为 0）时不计算，重新显示后再适配
+    const fitToContainer = () => {
+      if (container.clientWidth === 0 || container.clientHeight === 0) return
+      fit.fit()
+    }
+    const observer = new ResizeObserver(() => fitToContainer())
+    observer.observe(container)
+    fitToContainer()
+    syncSize()
+
+    return () => {
+      disposed = true
+      observer.disconnect()
+      if (resizeTimer) window.clearTimeout(resizeTimer)
+      flush()
+      if (ws) {
+        ws.onclose = null
+        ws.close()
+      }
+      resultsListener.dispose()
+      term.dispose()
+      termRef.current = null
+      searchRef.current = null
+    }
+  }, [serviceUrl, ptyId])
+
+  useEffect(() => {
+    if (autoFocus) termRef.current?.focus()
+  }, [autoFocus])
+
+  // 录制：从开始录制时的终端大小开始，停止或卸载时保存（没有输出时不保存）
+  const recordingActive = !!recording
+  useEffect(() => {
+    const term = termRef.current
+    const meta = recordingRef.current
+    if (!recordingActive || !term || !meta) return
+    const startedAt = new Date().toISOString()
+    const width = term.cols
+    const height = term.rows
+    const recorder = createCastRecorder({ width, height, title: meta.title, input: meta.input })
+    recorderRef.current = recorder
+    return () => {
+      recorderRef.current = null
+      if (recorder.outputCount() === 0) return
+      const { cast, duration } = recorder.finish()
+      const saved: TerminalRecording = {
+        id: crypto.randomUUID(),
+        serviceUrl,
+        ptyId,
+        title: meta.title,
+        sessionId: meta.sessionId,
+        startedAt,
+        duration,
+        width,
+        height,
+        events: recorder.outputCount(),
+        input: meta.input || undefined,
+        size: new Blob([cast]).size,
+      }
+      saveTerminalRecording(saved, cast)
+        .then(() => onRecordingSavedRef.current?.(saved))
+        .catch(err => {
+          console.error('Failed to save terminal recording:', err)
+          alert(`保存录制失败: ${(err as Error).message}`)
+        })
+    }
+  }, [recordingActive, serviceUrl, ptyId])
+
+  // 查找条件变化时从当前位置增量查找
+  useEffect(() => {
+    if (searchOpen) find('next', true)
+  }, [searchOpen, query, useRegex, caseSensitive])
+
+  return (
+    <div className={cn('relative bg-[#0a0a0a]', className)}>
+      <div ref={containerRef} className="absolute inset-1" />
+      {!connected && !searchOpen && (
+        <span className="absolute top-1 right-2 text-[10px] text-muted-foreground pointer-events-none">未连接</span>
+      )}
+      {searchOpen && (
+        <div className="absolute top-1 right-4 z-10 flex items-center gap-0.5 px-1 py-0.5 rounded-md bg-popover border border-border shadow-lg text-xs">
+          <input
+            ref={searchInputRef}
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                find(e.shiftKey ? 'previous' : 'next')
+              } else if (e.key === 'Escape') {
+                e.preventDefault()
+                closeSearch()
+              }
+            }}
+            placeholder={useRegex ? '正则表达式' : '查找'}
+            title={queryError ?? undefined}
+            className={cn(
+              'w-40 px-1.5 py-0.5 bg-muted rounded font-mono border-none outline-none focus:ring-1',
+              queryError ? 'ring-1 ring-destructive focus:ring-destructive' : 'focus:ring-primary'
+            )}
+            autoFocus
+          />
+          <button
+            onClick={() => setCaseSensitive(v => !v)}
+            className={cn('px-1 rounded font-mono', caseSensitive ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:bg-muted')}
+            title="区分大小写"
+          >
+            Aa
+          </button>
+          <button
+            onClick={() => setUseRegex(v => !v)}
+            className={cn('px-1 rounded font-mono', useRegex ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:bg-muted')}
+            title="正则表达式"
+          >
+            .*
+          </button>
+          <span className="w-14 text-center text-muted-foreground tabular-nums">
+            {queryError ? '无效' : results && query ? (results.count > 0 ? `${results.index >= 0 ? results.index + 1 : '-'}/${results.count}` : '无结果') : ''}
+          </span>
+          <button onClick={() => find('previous')} className="p-0.5 rounded hover:bg-muted" title="上一个（Shift+Enter）">
+            <ChevronUp className="size-3" />
+          </button>
+          <button onClick={() => find('next')} className="p-0.5 rounded hover:bg-muted" title="下一个（Enter）">
+            <ChevronDown className="size-3" />
+          </button>
+          <button onClick={closeSearch} className="p-0.5 rounded hover:bg-muted" title="关闭（Esc）">
+            <X className="size-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+})
+
+export default PtyTerminal
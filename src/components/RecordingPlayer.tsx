@@ -0,0 +1,166 @@
+/**
+ * RecordingPlayer - 在浏览器中回放 asciicast v2 终端录制
+ *
+ * 播放/暂停、倍速、拖动进度条跳转；超过 MAX_IDLE 秒的空闲会被跳过
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { Pause, Play, RotateCcw } from 'lucide-react'
+import { Terminal } from 'xterm'
+import 'xterm/css/xterm.css'
+import { cn } from '../utils/cn'
+import { eventIndexAt, parseCastSize, type Cast } from './terminalRecording'
+
+interface RecordingPlayerProps {
+  cast: Cast
+  className?: string
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8]
+// 回放时最长的空闲间隔（秒）
+const MAX_IDLE = 2
+
+function formatTime(seconds: number): string {
+  const s = Math.floor(seconds)
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`
+}
+
+export default function RecordingPlayer({ cast, className }: RecordingPlayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const termRef = useRef<Terminal | null>(null)
+  // 已回放到的时间与下一个事件下标
+  const positionRef = useRef(0)
+  const indexRef = useRef(0)
+  const [position, setPosition] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const { duration, events } = cast
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const term = new Terminal({
+      cols: cast.header.width,
+      rows: cast.header.height,
+      fontSize: 12,
+      fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+      scrollback: 10000,
+      disableStdin: true,
+      cursorBlink: false,
+      theme: { background: '#0a0a0a' },
+    })
+    term.open(container)
+    termRef.current = term
+    positionRef.current = 0
+    indexRef.current = 0
+    setPosition(0)
+    setPlaying(events.length > 0)
+    return () => {
+      term.dispose()
+      termRef.current = null
+    }
+  }, [cast])
+
+  // 回放到指定时间；向后跳转时从头重新回放
+  const renderTo = (time: number) => {
+    const term = termRef.current
+    if (!term) return
+    if (time < positionRef.current) {
+      term.reset()
+      term.resize(cast.header.width, cast.header.height)
+      indexRef.current = 0
+    }
+    const end = eventIndexAt(events, time)
+    let output = ''
+    for (let i = indexRef.current; i < end; i++) {
+      const [, type, data] = events[i]
+      if (type === 'o') {
+        output += data
+      } else if (type === 'r') {
+        const size = parseCastSize(data)
+        // 等前面的输出处理完再调整大小
+        if (size) term.write(output, () => term.resize(size.cols, size.rows))
+        output = ''
+      }
+    }
+    if (output) term.write(output)
+    indexRef.current = end
+    positionRef.current = time
+    setPosition(time)
+  }
+
+  // 播放循环
+  useEffect(() => {
+    if (!playing) return
+    let frame = 0
+    let last = performance.now()
+    const tick = (now: number) => {
+      let time = positionRef.current + ((now - last) / 1000) * speed
+      last = now
+      // 跳过过长的空闲
+      const next = events[indexRef.current]
+      if (next && next[0] - time > MAX_IDLE) time = next[0] - MAX_IDLE
+      if (time >= duration) {
+        renderTo(duration)
+        setPlaying(false)
+        return
+      }
+      renderTo(time)
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [playing, speed, cast])
+
+  const togglePlay = () => {
+    // 播放结束后重新开始
+    if (!playing && positionRef.current >= duration) renderTo(0)
+    setPlaying(v => !v)
+  }
+
+  const ended = !playing && position >= duration
+
+  return (
+    <div className={cn('flex flex-col min-h-0', className)}>
+      <div className="flex-1 min-h-0 overflow-auto rounded-lg bg-[#0a0a0a] p-1">
+        <div ref={containerRef} className="w-max" />
+      </div>
+      <div className="flex items-center gap-2 pt-2 text-xs">
+        <button
+          onClick={togglePlay}
+          disabled={events.length === 0}
+          className="p-1.5 rounded hover:bg-muted transition-colors disabled:opacity-50"
+          title={playing ? '暂停' : ended ? '重新播放' : '播放'}
+        >
+          {playing ? <Pause className="size-4" /> : ended ? <RotateCcw className="size-4" /> : <Play className="size-4" />}
+        </button>
+        <span className="w-20 tabular-nums text-muted-foreground">
+          {formatTime(position)} / {formatTime(duration)}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.01}
+          value={Math.min(position, duration)}
+          onChange={e => renderTo(Number(e.target.value))}
+          className="flex-1 accent-primary"
+        />
+        <div className="flex items-center gap-0.5">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={cn(
+                'px-1.5 py-0.5 rounded tabular-nums transition-colors',
+                speed === s ? 'bg-primary/10 text-primary' : 'text-muted-foreground hover:bg-muted'
+              )}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,7 @@
 import React, { useMemo, useState } from 'react'
 import { useSSE } from '../hooks/useSSE'
+import { normalizeStreamEvent } from '../api/events'
+import type { StreamEvent } from '../types'
 
 type EventRecord = {
   id?: string
@@ -14,15 +16,16 @@ export default function StreamOutput({ filterTaskId }: { filterTaskId?: string }
   const [events, setEvents] = useState<EventRecord[]>([])
   const [buffers, setBuffers] = useState<Record<string, string>>({})
 
-  function handleEvent(evt: any) {
-    const e: EventRecord = evt
+  function handleEvent(evt: StreamEvent) {
+    const e = evt as EventRecord
     setEvents((s) => [...s, e])
     const tid = e.task_id || 'global'
-    if (e.type === 'assistant_message_delta') {
-      setBuffers((b) => ({ ...b, [tid]: (b[tid] || '') + (e.delta || '') }))
-    } else if (e.type === 'assistant_message_completed') {
-      setBuffers((b) => ({ ...b, [tid]: e.content || b[tid] || '' }))
-    } else if (e.type === 'task_completed') {
+    const ev = normalizeStreamEvent(evt)
+    if (ev.type === 'text_delta') {
+      setBuffers((b) => ({ ...b, [tid]: (b[tid] || '') + ev.text }))
+    } else if (ev.type === 'message_completed') {
+      setBuffers((b) => ({ ...b, [tid]: ev.content || b[tid] || '' }))
+    } else if (ev.type === 'task_completed') {
       // no-op, keep buffer
     }
   }
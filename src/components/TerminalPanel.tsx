@@ -1,23 +1,52 @@
 /**
- * TerminalPanel - 终端管理面板
- * 
- * 显示所有后台运行的终端，支持：
- * - 查看终端列表
- * - 查看终端输出
- * - 向终端发送输入
- * - 关闭终端
+ * TerminalPanel - 终端工作区
+ *
+ * 以标签页 + 分屏的方式显示服务的 PTY 终端，支持：
+ * - 新建终端（shell 预设、工作目录、环境变量、最近使用的配置），在新标签页或分屏中打开
+ * - 左右/上下分屏，拖动分隔条调整比例
+ * - 拖动面板到其他面板的一侧、其他标签页或标签栏空白处重新排列；拖动标签页调整顺序
+ * - 双击标签页重命名
+ * - 按服务保存布局，重新打开时恢复并重新连接仍在运行的终端，回放缓存的输出
+ * - 在终端输出中查找（支持正则），导出为文本文件
+ * - 录制终端为 asciicast，在录制列表中回放、下载
+ * - 在 xterm 终端中交互（支持 vim、htop 等全屏程序）
  */
 
-import { useState, useEffect, useRef, useCallback, useImperativeHandle, forwardRef } from 'react'
-import { Terminal, X, RefreshCw, Square, ChevronDown, ChevronRight, Send } from 'lucide-react'
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useImperativeHandle, forwardRef } from 'react'
+import { Terminal, X, RefreshCw, Plus, Columns2, Rows2, GripVertical, Trash2, ChevronDown, ChevronRight, Search, Download, CircleDot, Clapperboard, Keyboard } from 'lucide-react'
 import { cn } from '../utils/cn'
-import { listPtySessions, deletePtySession, connectPtyWebSocket } from '../api/services'
-import type { PtySession } from '../types'
+import { listPtySessions, deletePtySession } from '../api/services'
+import { deletePtyScrollback, getTerminalLayout, prunePtyScrollback, saveTerminalLayout } from '../api/terminals'
+import type { PtySession, TerminalLayout, TerminalPaneNode } from '../types'
+import PtyTerminal, { type PtyTerminalHandle } from './PtyTerminal'
+import NewTerminalDialog from './NewTerminalDialog'
+import TerminalRecordingsDialog from './TerminalRecordingsDialog'
+import {
+  closeTab,
+  layoutPtyIds,
+  moveTab,
+  moveToTab,
+  openInNewTab,
+  pruneLayout,
+  removePane,
+  renameTab,
+  setSplitRatio,
+  splitPane,
+  type DropEdge,
+} from './terminalLayout'
 
 interface TerminalPanelProps {
   serviceUrl: string
+  serverId?: string
+  serviceId?: string
+  // 新建终端的默认工作目录
+  workingDir?: string
+  // 当前聊天会话，记录在录制中
+  sessionId?: string
   className?: string
   onClose?: () => void
+  // 把录制链接插入聊天输入框
+  onInsertRecordingLink?: (markdown: string) => void
 }
 
 export interface TerminalPanelHandle {
@@ -25,20 +54,64 @@ export interface TerminalPanelHandle {
   expandLatest: () => void
 }
 
-interface TerminalOutput {
-  id: string
-  lines: string[]
-  ws?: WebSocket
+// 拖动中的对象：面板（含未打开的终端）或标签页
+type DragItem = { kind: 'pane'; ptyId: string } | { kind: 'tab'; tabId: string }
+
+// 新建终端后的去处
+type CreateTarget = { mode: 'tab' } | { mode: 'split'; ptyId: string; edge: DropEdge }
+
+interface Rect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// 按区域大小估算行列数（12px 等宽字体）
+function estimateSize(width: number, height: number): { cols: number; rows: number } {
+  return { cols: Math.max(20, Math.floor((width - 8) / 7.2)), rows: Math.max(5, Math.floor((height - 8) / 15)) }
+}
+
+function sessionTitle(session?: PtySession): string {
+  return session?.command.split('/').pop() || '终端'
+}
+
+// 拖放区域：面板的四条边
+const DROP_ZONES: Array<{ edge: DropEdge; className: string }> = [
+  { edge: 'left', className: 'left-0 inset-y-0 w-1/4' },
+  { edge: 'right', className: 'right-0 inset-y-0 w-1/4' },
+  { edge: 'top', className: 'top-0 inset-x-1/4 h-1/2' },
+  { edge: 'bottom', className: 'bottom-0 inset-x-1/4 h-1/2' },
+]
+
+// 拖放预览：目标面板中将被占用的部分
+const DROP_PREVIEW: Record<DropEdge, string> = {
+  left: 'left-0 inset-y-0 w-1/2',
+  right: 'right-0 inset-y-0 w-1/2',
+  top: 'top-0 inset-x-0 h-1/2',
+  bottom: 'bottom-0 inset-x-0 h-1/2',
 }
 
 export const TerminalPanel = forwardRef<TerminalPanelHandle, TerminalPanelProps>(
-  function TerminalPanel({ serviceUrl, className, onClose }, ref) {
+  function TerminalPanel({ serviceUrl, serverId, serviceId, workingDir, sessionId, className, onClose, onInsertRecordingLink }, ref) {
   const [sessions, setSessions] = useState<PtySession[]>([])
   const [loading, setLoading] = useState(false)
-  const [expandedTerminal, setExpandedTerminal] = useState<string | null>(null)
-  const [outputs, setOutputs] = useState<Record<string, TerminalOutput>>({})
-  const [inputValue, setInputValue] = useState('')
-  const outputRef = useRef<HTMLDivElement>(null)
+  // 首次成功加载终端列表前不清理布局
+  const [loaded, setLoaded] = useState(false)
+  const [layout, setLayout] = useState<TerminalLayout>(() => getTerminalLayout(serverId, serviceId))
+  const [createTarget, setCreateTarget] = useState<CreateTarget | null>(null)
+  const [dragging, setDragging] = useState<DragItem | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ ptyId: string; edge: DropEdge } | null>(null)
+  const [editingTab, setEditingTab] = useState<{ id: string; title: string } | null>(null)
+  const [showDetached, setShowDetached] = useState(true)
+  // 正在录制的终端 → 是否同时录制键盘输入
+  const [recordingIds, setRecordingIds] = useState<Map<string, boolean>>(() => new Map())
+  const [showRecordings, setShowRecordings] = useState(false)
+
+  const workspaceRef = useRef<HTMLDivElement>(null)
+  const slotsRef = useRef(new Map<string, HTMLElement>())
+  const terminalsRef = useRef(new Map<string, PtyTerminalHandle>())
+  const [rects, setRects] = useState<Record<string, Rect>>({})
 
   // 加载终端列表
   const loadSessions = useCallback(async () => {
@@ -47,26 +120,24 @@ export const TerminalPanel = forwardRef<TerminalPanelHandle, TerminalPanelProps>
     try {
       const data = await listPtySessions(serviceUrl)
       setSessions(data)
-      // 自动展开最新的终端
-      if (data.length > 0 && !expandedTerminal) {
-        setExpandedTerminal(data[0].id)
-      }
+      setLoaded(true)
     } catch (err) {
       console.error('Failed to load PTY sessions:', err)
     } finally {
       setLoading(false)
     }
-  }, [serviceUrl, expandedTerminal])
-  
+  }, [serviceUrl])
+
+  const sessionById = useCallback((ptyId: string) => sessions.find(s => s.id === ptyId), [sessions])
+
   // 暴露方法给父组件
   useImperativeHandle(ref, () => ({
     refresh: () => {
       loadSessions()
     },
     expandLatest: () => {
-      if (sessions.length > 0) {
-        setExpandedTerminal(sessions[0].id)
-      }
+      const latest = sessions[0]
+      if (latest) setLayout(prev => (layoutPtyIds(prev).includes(latest.id) ? prev : openInNewTab(prev, latest.id, sessionTitle(latest))))
     }
   }), [loadSessions, sessions])
 
@@ -78,76 +149,71 @@ export const TerminalPanel = forwardRef<TerminalPanelHandle, TerminalPanelProps>
     return () => clearInterval(interval)
   }, [loadSessions])
 
-  // 展开终端时连接 WebSocket
+  // 恢复布局：移除已结束的终端；没有打开的终端时打开最新的一个
+  const restoredRef = useRef(false)
+  // 刚创建、还未出现在列表中的终端（创建前发出的列表请求中没有它们）
+  const createdRef = useRef(new Set<string>())
   useEffect(() => {
-    if (!expandedTerminal || !serviceUrl) return
-
-    // 如果已经有连接，不重复创建
-    if (outputs[expandedTerminal]?.ws) return
-
-    const ws = connectPtyWebSocket(
-      serviceUrl,
-      expandedTerminal,
-      (data) => {
-        setOutputs(prev => {
-          const current = prev[expandedTerminal] || { id: expandedTerminal, lines: [] }
-          return {
-            ...prev,
-            [expandedTerminal]: {
-              ...current,
-              lines: [...current.lines, data],
-            }
-          }
-        })
-        // 滚动到底部
-        setTimeout(() => {
-          if (outputRef.current) {
-            outputRef.current.scrollTop = outputRef.current.scrollHeight
-          }
-        }, 10)
-      },
-      () => {
-        setOutputs(prev => {
-          const current = prev[expandedTerminal]
-          if (current) {
-            return {
-              ...prev,
-              [expandedTerminal]: { ...current, ws: undefined }
-            }
-          }
-          return prev
-        })
+    if (!loaded) return
+    const living = new Set(sessions.map(s => s.id))
+    createdRef.current.forEach(id => {
+      if (living.has(id)) createdRef.current.delete(id)
+      else living.add(id)
+    })
+    setLayout(prev => {
+      const next = pruneLayout(prev, living)
+      if (!restoredRef.current && next.tabs.length === 0 && sessions.length > 0) {
+        return openInNewTab(next, sessions[0].id, sessionTitle(sessions[0]))
       }
-    )
+      return next
+    })
+    // 首次加载后清理已结束终端的输出缓存
+    if (!restoredRef.current) void prunePtyScrollback(serviceUrl, living)
+    restoredRef.current = true
+  }, [loaded, sessions])
 
-    setOutputs(prev => ({
-      ...prev,
-      [expandedTerminal]: {
-        id: expandedTerminal,
-        lines: prev[expandedTerminal]?.lines || [],
-        ws,
-      }
-    }))
+  // 保存布局
+  useEffect(() => {
+    if (serverId && serviceId) saveTerminalLayout(serverId, serviceId, layout)
+  }, [layout, serverId, serviceId])
 
-    return () => {
-      ws.close()
-    }
-  }, [expandedTerminal, serviceUrl])
+  // 终端挂在独立的图层上，按面板占位元素的位置摆放：重新排列时不会重新创建终端
+  const measure = useCallback(() => {
+    const workspace = workspaceRef.current
+    if (!workspace) return
+    const base = workspace.getBoundingClientRect()
+    const next: Record<string, Rect> = {}
+    slotsRef.current.forEach((el, ptyId) => {
+      const r = el.getBoundingClientRect()
+      next[ptyId] = { left: r.left - base.left, top: r.top - base.top, width: r.width, height: r.height }
+    })
+    setRects(prev => (JSON.stringify(prev) === JSON.stringify(next) ? prev : next))
+  }, [])
+
+  useLayoutEffect(() => {
+    measure()
+  })
+
+  useEffect(() => {
+    const workspace = workspaceRef.current
+    if (!workspace) return
+    const observer = new ResizeObserver(() => measure())
+    observer.observe(workspace)
+    return () => observer.disconnect()
+  }, [measure])
 
-  // 删除终端
+  const registerSlot = useCallback((ptyId: string, el: HTMLElement | null) => {
+    if (el) slotsRef.current.set(ptyId, el)
+    else slotsRef.current.delete(ptyId)
+  }, [])
+
+  // 结束终端
   const handleDelete = async (ptyId: string) => {
     if (!confirm('确定要关闭这个终端吗？')) return
     try {
       await deletePtySession(serviceUrl, ptyId)
-      // 关闭 WebSocket
-      outputs[ptyId]?.ws?.close()
-      setOutputs(prev => {
-        const { [ptyId]: _, ...rest } = prev
-        return rest
-      })
-      if (expandedTerminal === ptyId) {
-        setExpandedTerminal(null)
-      }
+      setLayout(prev => removePane(prev, ptyId))
+      void deletePtyScrollback(serviceUrl, ptyId)
       loadSessions()
     } catch (err) {
       console.error('Failed to delete PTY session:', err)
@@ -155,23 +221,189 @@ export const TerminalPanel = forwardRef<TerminalPanelHandle, TerminalPanelProps>
     }
   }
 
-  // 发送输入到终端
-  const handleSendInput = () => {
-    if (!expandedTerminal || !inputValue) return
-    const ws = outputs[expandedTerminal]?.ws
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'input', data: inputValue + '\n' }))
-      setInputValue('')
+  const handleCreated = (session: PtySession) => {
+    const target = createTarget
+    setCreateTarget(null)
+    createdRef.current.add(session.id)
+    setSessions(prev => (prev.some(s => s.id === session.id) ? prev : [session, ...prev]))
+    setLayout(prev =>
+      target?.mode === 'split'
+        ? splitPane(prev, target.ptyId, session.id, target.edge)
+        : openInNewTab(prev, session.id, sessionTitle(session))
+    )
+    loadSessions()
+  }
+
+  // 新建终端的初始大小：分屏时为目标面板的一半
+  const createSize = () => {
+    if (createTarget?.mode === 'split' && rects[createTarget.ptyId]) {
+      const r = rects[createTarget.ptyId]
+      const row = createTarget.edge === 'left' || createTarget.edge === 'right'
+      return estimateSize(row ? r.width / 2 : r.width, row ? r.height : r.height / 2)
     }
+    const workspace = workspaceRef.current
+    return estimateSize(workspace?.clientWidth ?? 512, workspace?.clientHeight ?? 320)
+  }
+
+  const startDrag = (e: React.DragEvent, item: DragItem) => {
+    e.dataTransfer.effectAllowed = 'move'
+    e.dataTransfer.setData('text/plain', item.kind === 'pane' ? item.ptyId : item.tabId)
+    setDragging(item)
+  }
+
+  const endDrag = () => {
+    setDragging(null)
+    setDropTarget(null)
   }
 
-  // 发送 Ctrl+C
-  const handleSendCtrlC = () => {
-    if (!expandedTerminal) return
-    const ws = outputs[expandedTerminal]?.ws
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'input', data: '\x03' })) // Ctrl+C
+  const handleTabDrop = (tabId: string | null) => {
+    if (!dragging) return
+    if (dragging.kind === 'tab') {
+      setLayout(prev => moveTab(prev, dragging.tabId, tabId))
+    } else if (tabId) {
+      setLayout(prev => moveToTab(prev, dragging.ptyId, tabId))
+    } else {
+      const ptyId = dragging.ptyId
+      setLayout(prev => openInNewTab(prev, ptyId, sessionTitle(sessionById(ptyId))))
     }
+    endDrag()
+  }
+
+  const commitRename = () => {
+    if (!editingTab) return
+    const title = editingTab.title.trim()
+    if (title) setLayout(prev => renameTab(prev, editingTab.id, title))
+    setEditingTab(null)
+  }
+
+  const activeTab = layout.tabs.find(t => t.id === layout.activeTabId)
+  const openIds = layoutPtyIds(layout)
+  const detached = sessions.filter(s => !openIds.includes(s.id))
+
+  // 终端移出工作区时录制随之结束（卸载时已保存）
+  const openKey = openIds.join(',')
+  useEffect(() => {
+    setRecordingIds(prev => {
+      const open = new Set(openKey.split(','))
+      return [...prev.keys()].every(id => open.has(id)) ? prev : new Map([...prev].filter(([id]) => open.has(id)))
+    })
+  }, [openKey])
+
+  // 默认只录制输出；录制键盘输入需单独开启（输入的密码也会被录下）
+  const toggleRecording = (ptyId: string, input = false) => {
+    setRecordingIds(prev => {
+      const next = new Map(prev)
+      if (next.has(ptyId)) next.delete(ptyId)
+      else next.set(ptyId, input)
+      return next
+    })
+  }
+
+  // 分屏树
+  const renderPane = (node: TerminalPaneNode): React.ReactNode => {
+    if (node.type === 'split') {
+      return (
+        <SplitView
+          key={node.id}
+          direction={node.direction}
+          ratio={node.ratio}
+          onRatioChange={ratio => setLayout(prev => setSplitRatio(prev, node.id, ratio))}
+          first={renderPane(node.first)}
+          second={renderPane(node.second)}
+        />
+      )
+    }
+    const session = sessionById(node.ptyId)
+    return (
+      <div key={node.ptyId} className="flex flex-col flex-1 min-w-0 min-h-0 border border-border/50">
+        <div
+          draggable
+          onDragStart={e => startDrag(e, { kind: 'pane', ptyId: node.ptyId })}
+          onDragEnd={endDrag}
+          className="group flex items-center gap-1 px-1.5 h-6 flex-none bg-muted/40 text-xs cursor-grab"
+        >
+          <GripVertical className="size-3 text-muted-foreground/60" />
+          <span className="flex-1 truncate font-mono" title={session?.command}>{session?.command ?? node.ptyId}</span>
+          {session && session.status !== 'Running' && (
+            <span className="px-1 rounded bg-muted text-muted-foreground">{session.status}</span>
+          )}
+          {recordingIds.has(node.ptyId) && (
+            <button
+              onClick={() => toggleRecording(node.ptyId)}
+              className="flex items-center gap-1 px-1 rounded text-red-500 hover:bg-red-500/10"
+              title={recordingIds.get(node.ptyId) ? '停止录制并保存（正在录制键盘输入）' : '停止录制并保存（只录制输出）'}
+            >
+              <CircleDot className="size-3 animate-pulse" />
+              REC
+              {recordingIds.get(node.ptyId) && <Keyboard className="size-3" />}
+            </button>
+          )}
+          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+            {!recordingIds.has(node.ptyId) && (
+              <>
+                <button
+                  onClick={() => toggleRecording(node.ptyId)}
+                  className="p-0.5 rounded hover:bg-muted"
+                  title="开始录制（只录制输出）"
+                >
+                  <CircleDot className="size-3" />
+                </button>
+                <button
+                  onClick={() => toggleRecording(node.ptyId, true)}
+                  className="p-0.5 rounded hover:bg-muted"
+                  title="开始录制，包括键盘输入（输入的密码也会被录下）"
+                >
+                  <Keyboard className="size-3" />
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => terminalsRef.current.get(node.ptyId)?.openSearch()}
+              className="p-0.5 rounded hover:bg-muted"
+              title="查找（Ctrl+Shift+F）"
+            >
+              <Search className="size-3" />
+            </button>
+            <button
+              onClick={() => terminalsRef.current.get(node.ptyId)?.exportScrollback()}
+              className="p-0.5 rounded hover:bg-muted"
+              title="导出输出"
+            >
+              <Download className="size-3" />
+            </button>
+            <button
+              onClick={() => setCreateTarget({ mode: 'split', ptyId: node.ptyId, edge: 'right' })}
+              className="p-0.5 rounded hover:bg-muted"
+              title="左右分屏"
+            >
+              <Columns2 className="size-3" />
+            </button>
+            <button
+              onClick={() => setCreateTarget({ mode: 'split', ptyId: node.ptyId, edge: 'bottom' })}
+              className="p-0.5 rounded hover:bg-muted"
+              title="上下分屏"
+            >
+              <Rows2 className="size-3" />
+            </button>
+            <button
+              onClick={() => setLayout(prev => removePane(prev, node.ptyId))}
+              className="p-0.5 rounded hover:bg-muted"
+              title="从工作区移除（终端继续运行）"
+            >
+              <X className="size-3" />
+            </button>
+            <button
+              onClick={() => handleDelete(node.ptyId)}
+              className="p-0.5 rounded hover:bg-destructive/20 hover:text-destructive"
+              title="结束终端"
+            >
+              <Trash2 className="size-3" />
+            </button>
+          </div>
+        </div>
+        <div ref={el => registerSlot(node.ptyId, el)} className="flex-1 min-h-0" />
+      </div>
+    )
   }
 
   return (
@@ -184,6 +416,20 @@ export const TerminalPanel = forwardRef<TerminalPanelHandle, TerminalPanelProps>
           <span className="text-xs text-muted-foreground">({sessions.length})</span>
         </div>
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowRecordings(true)}
+            className="p-1.5 rounded hover:bg-muted transition-colors"
+            title="终端录制"
+          >
+            <Clapperboard className="size-4" />
+          </button>
+          <button
+            onClick={() => setCreateTarget({ mode: 'tab' })}
+            className="p-1.5 rounded hover:bg-muted transition-colors"
+            title="新建终端"
+          >
+            <Plus className="size-4" />
+          </button>
           <button
             onClick={loadSessions}
             className="p-1.5 rounded hover:bg-muted transition-colors"
@@ -202,95 +448,249 @@ export const TerminalPanel = forwardRef<TerminalPanelHandle, TerminalPanelProps>
         </div>
       </div>
 
-      {/* Terminal List */}
-      <div className="flex-1 overflow-y-auto">
-        {sessions.length === 0 ? (
-          <div className="p-4 text-center text-muted-foreground text-sm">
-            暂无运行中的终端
-          </div>
+      {/* 标签栏：拖放面板到空白处在新标签页打开 */}
+      {layout.tabs.length > 0 && (
+        <div
+          className="flex items-center gap-0.5 px-1 pt-1 border-b border-border overflow-x-auto flex-none"
+          onDragOver={e => dragging && e.preventDefault()}
+          onDrop={() => handleTabDrop(null)}
+        >
+          {layout.tabs.map(tab => (
+            <div
+              key={tab.id}
+              draggable={editingTab?.id !== tab.id}
+              onDragStart={e => startDrag(e, { kind: 'tab', tabId: tab.id })}
+              onDragEnd={endDrag}
+              onDragOver={e => dragging && e.preventDefault()}
+              onDrop={e => {
+                e.stopPropagation()
+                handleTabDrop(tab.id)
+              }}
+              onClick={() => setLayout(prev => ({ ...prev, activeTabId: tab.id }))}
+              onDoubleClick={() => setEditingTab({ id: tab.id, title: tab.title })}
+              className={cn(
+                'group flex items-center gap-1 max-w-40 px-2 py-1 rounded-t-md text-xs cursor-pointer transition-colors',
+                tab.id === layout.activeTabId ? 'bg-muted text-foreground' : 'text-muted-foreground hover:bg-muted/50'
+              )}
+              title="双击重命名"
+            >
+              {editingTab?.id === tab.id ? (
+                <input
+                  value={editingTab.title}
+                  onChange={e => setEditingTab({ id: tab.id, title: e.target.value })}
+                  onBlur={commitRename}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') commitRename()
+                    else if (e.key === 'Escape') setEditingTab(null)
+                  }}
+                  autoFocus
+                  className="w-24 bg-background px-1 rounded border-none text-xs focus:ring-1 focus:ring-primary"
+                />
+              ) : (
+                <span className="truncate">{tab.title}</span>
+              )}
+              <button
+                onClick={e => {
+                  e.stopPropagation()
+                  setLayout(prev => closeTab(prev, tab.id))
+                }}
+                className="opacity-0 group-hover:opacity-100 hover:text-foreground"
+                title="关闭标签页（终端继续运行）"
+              >
+                <X className="size-3" />
+              </button>
+            </div>
+          ))}
+          <div className="flex-1 self-stretch min-w-6" />
+        </div>
+      )}
+
+      {/* 工作区 */}
+      <div ref={workspaceRef} className="relative flex flex-1 min-h-0">
+        {activeTab ? (
+          <div className="flex flex-1 min-w-0 min-h-0">{renderPane(activeTab.root)}</div>
         ) : (
-          <div className="divide-y divide-border">
-            {sessions.map(session => (
-              <div key={session.id}>
-                {/* Terminal Item Header */}
-                <div
-                  className="flex items-center gap-2 px-4 py-3 cursor-pointer hover:bg-muted/50 transition-colors"
-                  onClick={() => setExpandedTerminal(expandedTerminal === session.id ? null : session.id)}
-                >
-                  {expandedTerminal === session.id ? (
-                    <ChevronDown className="size-4 text-muted-foreground" />
-                  ) : (
-                    <ChevronRight className="size-4 text-muted-foreground" />
-                  )}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <Terminal className="size-4 text-muted-foreground" />
-                      <span className="text-sm font-medium truncate">{session.command}</span>
-                    </div>
-                    <div className="flex items-center gap-2 mt-0.5">
-                      <span className={cn(
-                        "text-xs px-1.5 py-0.5 rounded",
-                        session.status === 'Running' ? "bg-success/20 text-success" : "bg-muted text-muted-foreground"
-                      )}>
-                        {session.status}
-                      </span>
-                      <span className="text-xs text-muted-foreground">
-                        PID: {session.pid || '-'}
-                      </span>
-                    </div>
-                  </div>
-                  <button
-                    onClick={(e) => { e.stopPropagation(); handleDelete(session.id) }}
-                    className="p-1.5 rounded hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors"
-                  >
-                    <X className="size-4" />
-                  </button>
-                </div>
-
-                {/* Terminal Output (Expanded) */}
-                {expandedTerminal === session.id && (
-                  <div className="border-t border-border bg-black/90">
-                    {/* Output */}
-                    <div
-                      ref={outputRef}
-                      className="h-64 overflow-y-auto p-3 font-mono text-xs text-green-400 whitespace-pre-wrap"
-                    >
-                      {outputs[session.id]?.lines.map((line, i) => (
-                        <div key={i}>{line}</div>
-                      ))}
-                    </div>
-
-                    {/* Input */}
-                    <div className="flex items-center gap-2 p-2 border-t border-border/50 bg-black/50">
-                      <input
-                        type="text"
-                        value={inputValue}
-                        onChange={(e) => setInputValue(e.target.value)}
-                        onKeyDown={(e) => e.key === 'Enter' && handleSendInput()}
-                        placeholder="输入命令..."
-                        className="flex-1 bg-transparent border border-border/50 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-primary"
-                      />
-                      <button
-                        onClick={handleSendInput}
-                        className="p-1.5 rounded bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
-                      >
-                        <Send className="size-4" />
-                      </button>
-                      <button
-                        onClick={handleSendCtrlC}
-                        className="p-1.5 rounded bg-destructive text-destructive-foreground hover:bg-destructive/90 transition-colors"
-                        title="发送 Ctrl+C"
-                      >
-                        <Square className="size-4" />
-                      </button>
-                    </div>
-                  </div>
-                )}
-              </div>
-            ))}
+          <div className="flex-1 p-4 text-center text-muted-foreground text-sm">
+            {sessions.length === 0 ? '暂无运行中的终端' : '没有打开的终端'}
+            <button
+              onClick={() => setCreateTarget({ mode: 'tab' })}
+              className="flex items-center gap-1 mx-auto mt-3 px-3 py-1.5 rounded-lg bg-muted hover:bg-muted/80 text-foreground transition-colors"
+            >
+              <Plus className="size-3.5" />
+              新建终端
+            </button>
           </div>
         )}
+
+        {/* 终端图层：布局中的终端都保持连接，不在当前标签页的隐藏 */}
+        {openIds.map(ptyId => {
+          const rect = rects[ptyId]
+          return (
+            <div
+              key={ptyId}
+              className={cn('absolute', !rect && 'hidden')}
+              style={rect ? { left: rect.left, top: rect.top, width: rect.width, height: rect.height } : undefined}
+            >
+              <PtyTerminal
+                ref={handle => {
+                  if (handle) terminalsRef.current.set(ptyId, handle)
+                  else terminalsRef.current.delete(ptyId)
+                }}
+                serviceUrl={serviceUrl}
+                ptyId={ptyId}
+                className="size-full"
+                recording={
+                  recordingIds.has(ptyId)
+                    ? { title: sessionTitle(sessionById(ptyId)), sessionId, input: recordingIds.get(ptyId) }
+                    : null
+                }
+              />
+            </div>
+          )
+        })}
+
+        {/* 拖动面板时：目标面板的四边为放置区域 */}
+        {dragging?.kind === 'pane' && Object.entries(rects).map(([ptyId, rect]) =>
+          ptyId === dragging.ptyId ? null : (
+            <div
+              key={ptyId}
+              className="absolute z-10"
+              style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+            >
+              {dropTarget?.ptyId === ptyId && (
+                <div className={cn('absolute bg-primary/20 border-2 border-primary/50 pointer-events-none', DROP_PREVIEW[dropTarget.edge])} />
+              )}
+              {DROP_ZONES.map(zone => (
+                <div
+                  key={zone.edge}
+                  className={cn('absolute', zone.className)}
+                  onDragOver={e => {
+                    e.preventDefault()
+                    if (dropTarget?.ptyId !== ptyId || dropTarget.edge !== zone.edge) setDropTarget({ ptyId, edge: zone.edge })
+                  }}
+                  onDrop={e => {
+                    e.preventDefault()
+                    setLayout(prev => splitPane(prev, ptyId, dragging.ptyId, zone.edge))
+                    endDrag()
+                  }}
+                />
+              ))}
+            </div>
+          )
+        )}
       </div>
+
+      {/* 不在工作区中的终端：可在新标签页打开或拖到面板旁 */}
+      {detached.length > 0 && (
+        <div className="flex-none border-t border-border max-h-40 overflow-y-auto">
+          <button
+            onClick={() => setShowDetached(v => !v)}
+            className="w-full flex items-center gap-1 px-3 py-1.5 text-xs text-muted-foreground hover:bg-muted/50 transition-colors"
+          >
+            {showDetached ? <ChevronDown className="size-3" /> : <ChevronRight className="size-3" />}
+            后台终端（{detached.length}）
+          </button>
+          {showDetached && detached.map(session => (
+            <div
+              key={session.id}
+              draggable
+              onDragStart={e => startDrag(e, { kind: 'pane', ptyId: session.id })}
+              onDragEnd={endDrag}
+              className="flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-muted/50 cursor-grab"
+            >
+              <GripVertical className="size-3 text-muted-foreground/60" />
+              <span className="flex-1 truncate font-mono">{session.command}</span>
+              <span className={cn(
+                "px-1.5 py-0.5 rounded",
+                session.status === 'Running' ? "bg-success/20 text-success" : "bg-muted text-muted-foreground"
+              )}>
+                {session.status}
+              </span>
+              <button
+                onClick={() => setLayout(prev => openInNewTab(prev, session.id, sessionTitle(session)))}
+                className="px-1.5 py-0.5 rounded hover:bg-muted transition-colors"
+              >
+                打开
+              </button>
+              <button
+                onClick={() => handleDelete(session.id)}
+                className="p-1 rounded hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors"
+                title="结束终端"
+              >
+                <X className="size-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {createTarget && (
+        <NewTerminalDialog
+          serviceUrl={serviceUrl}
+          serverId={serverId}
+          serviceId={serviceId}
+          defaultWorkingDir={workingDir}
+          defaultSize={createSize()}
+          onCreated={handleCreated}
+          onClose={() => setCreateTarget(null)}
+        />
+      )}
+
+      {showRecordings && (
+        <TerminalRecordingsDialog
+          serviceUrl={serviceUrl}
+          sessionId={sessionId}
+          onInsertLink={onInsertRecordingLink}
+          onClose={() => setShowRecordings(false)}
+        />
+      )}
     </div>
   )
 })
+
+// 二分分屏：拖动分隔条调整比例
+function SplitView({
+  direction,
+  ratio,
+  onRatioChange,
+  first,
+  second,
+}: {
+  direction: 'row' | 'column'
+  ratio: number
+  onRatioChange: (ratio: number) => void
+  first: React.ReactNode
+  second: React.ReactNode
+}) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const row = direction === 'row'
+
+  const startResize = (e: React.MouseEvent) => {
+    e.preventDefault()
+    const container = containerRef.current
+    if (!container) return
+    const onMove = (ev: MouseEvent) => {
+      const rect = container.getBoundingClientRect()
+      onRatioChange(row ? (ev.clientX - rect.left) / rect.width : (ev.clientY - rect.top) / rect.height)
+    }
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove)
+      window.removeEventListener('mouseup', onUp)
+      document.body.style.userSelect = ''
+    }
+    document.body.style.userSelect = 'none'
+    window.addEventListener('mousemove', onMove)
+    window.addEventListener('mouseup', onUp)
+  }
+
+  return (
+    <div ref={containerRef} className={cn('flex flex-1 min-w-0 min-h-0', row ? 'flex-row' : 'flex-col')}>
+      <div className="flex min-w-0 min-h-0" style={{ flex: `0 0 calc(${ratio * 100}% - 2px)` }}>{first}</div>
+      <div
+        onMouseDown={startResize}
+        className={cn('flex-none bg-border hover:bg-primary/50 transition-colors', row ? 'w-1 cursor-col-resize' : 'h-1 cursor-row-resize')}
+      />
+      <div className="flex flex-1 min-w-0 min-h-0">{second}</div>
+    </div>
+  )
+}
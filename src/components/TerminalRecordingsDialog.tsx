@@ -0,0 +1,280 @@
+/**
+ * TerminalRecordingsDialog - 服务的终端录制列表与回放
+ *
+ * 可只看当前会话中录制的；支持回放、下载 .cast 文件、删除，以及把录制链接插入聊天输入框
+ */
+
+import { useEffect, useState } from 'react'
+import { ArrowLeft, Clapperboard, Download, Keyboard, Link2, Play, RefreshCw, Trash2, X } from 'lucide-react'
+import { cn } from '../utils/cn'
+import {
+  deleteTerminalRecording,
+  getTerminalRecording,
+  listTerminalRecordings,
+  loadTerminalRecordingCast,
+} from '../api/terminals'
+import type { TerminalRecording } from '../types'
+import { downloadText } from './chat/exportMarkdown'
+import RecordingPlayer from './RecordingPlayer'
+import { parseCast, recordingLink, type Cast } from './terminalRecording'
+
+interface TerminalRecordingsDialogProps {
+  serviceUrl: string
+  /** 当前聊天会话：默认只显示在该会话中录制的 */
+  sessionId?: string
+  /** 打开时直接回放的录制 */
+  initialRecordingId?: string
+  /** 插入录制链接到聊天输入框（未提供时不显示） */
+  onInsertLink?: (markdown: string) => void
+  onClose: () => void
+}
+
+function formatSeconds(seconds: number): string {
+  const s = Math.round(seconds)
+  return s < 60 ? `${s}s` : `${Math.floor(s / 60)}m${String(s % 60).padStart(2, '0')}s`
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function castFilename(recording: TerminalRecording): string {
+  const stamp = recording.startedAt.replace(/[:.]/g, '-').slice(0, 19)
+  const name = recording.title.replace(/[^\w.-]+/g, '_').slice(0, 40) || 'terminal'
+  return `${name}-${stamp}.cast`
+}
+
+export default function TerminalRecordingsDialog({
+  serviceUrl,
+  sessionId,
+  initialRecordingId,
+  onInsertLink,
+  onClose,
+}: TerminalRecordingsDialogProps) {
+  const [recordings, setRecordings] = useState<TerminalRecording[]>([])
+  const [loading, setLoading] = useState(true)
+  const [onlySession, setOnlySession] = useState(!!sessionId)
+  const [selected, setSelected] = useState<TerminalRecording | null>(null)
+  const [cast, setCast] = useState<Cast | null>(null)
+  const [castError, setCastError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    listTerminalRecordings(serviceUrl)
+      .then(list => { if (!cancelled) setRecordings(list) })
+      .catch(err => console.error('Failed to load terminal recordings:', err))
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => {
+      cancelled = true
+    }
+  }, [serviceUrl])
+
+  // 从聊天中的链接打开
+  useEffect(() => {
+    if (!initialRecordingId) return
+    getTerminalRecording(initialRecordingId)
+      .then(recording => {
+        if (recording) setSelected(recording)
+        else setCastError('录制不存在（录制只保存在录制时使用的浏览器中）')
+      })
+      .catch(err => setCastError((err as Error).message))
+  }, [initialRecordingId])
+
+  // 加载选中的录制
+  useEffect(() => {
+    if (!selected) return
+    let cancelled = false
+    setCast(null)
+    setCastError(null)
+    loadTerminalRecordingCast(selected.id)
+      .then(text => { if (!cancelled) setCast(parseCast(text)) })
+      .catch(err => { if (!cancelled) setCastError((err as Error).message) })
+    return () => {
+      cancelled = true
+    }
+  }, [selected])
+
+  const handleDownload = async (recording: TerminalRecording) => {
+    try {
+      const text = await loadTerminalRecordingCast(recording.id)
+      downloadText(castFilename(recording), text, 'application/x-asciicast')
+    } catch (err) {
+      alert(`下载失败: ${(err as Error).message}`)
+    }
+  }
+
+  const handleDelete = async (recording: TerminalRecording) => {
+    if (!confirm(`确定要删除录制「${recording.title}」吗？`)) return
+    try {
+      await deleteTerminalRecording(recording.id)
+      setRecordings(prev => prev.filter(r => r.id !== recording.id))
+      if (selected?.id === recording.id) setSelected(null)
+    } catch (err) {
+      alert(`删除失败: ${(err as Error).message}`)
+    }
+  }
+
+  const handleInsertLink = (recording: TerminalRecording) => {
+    onInsertLink?.(recordingLink(recording.id, recording.title))
+    onClose()
+  }
+
+  const visible = onlySession && sessionId ? recordings.filter(r => r.sessionId === sessionId) : recordings
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className={cn(
+          'bg-popover border border-border rounded-xl p-4 max-w-[calc(100vw-2rem)] max-h-[85vh] flex flex-col shadow-xl',
+          selected || castError ? 'w-[56rem]' : 'w-[36rem]'
+        )}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 mb-3">
+          {(selected || castError) && (
+            <button
+              onClick={() => {
+                setSelected(null)
+                setCastError(null)
+              }}
+              className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+              title="返回列表"
+            >
+              <ArrowLeft className="size-4" />
+            </button>
+          )}
+          <Clapperboard className="size-4 text-primary" />
+          <h3 className="font-semibold flex-1 truncate">{selected ? selected.title : '终端录制'}</h3>
+          {selected && (
+            <>
+              <button
+                onClick={() => handleDownload(selected)}
+                className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+                title="下载 .cast"
+              >
+                <Download className="size-4" />
+              </button>
+              {onInsertLink && (
+                <button
+                  onClick={() => handleInsertLink(selected)}
+                  className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+                  title="插入链接到输入框"
+                >
+                  <Link2 className="size-4" />
+                </button>
+              )}
+            </>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+            title="关闭"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+
+        {castError ? (
+          <div className="py-12 text-center text-sm text-destructive">{castError}</div>
+        ) : selected ? (
+          cast ? (
+            <RecordingPlayer cast={cast} className="flex-1" />
+          ) : (
+            <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+              <RefreshCw className="size-4 animate-spin" />
+              加载录制...
+            </div>
+          )
+        ) : (
+          <>
+            {sessionId && (
+              <div className="flex gap-1 mb-2 text-xs">
+                {[true, false].map(value => (
+                  <button
+                    key={String(value)}
+                    onClick={() => setOnlySession(value)}
+                    className={cn(
+                      'px-2 py-0.5 rounded-md transition-colors',
+                      onlySession === value ? 'bg-primary/10 text-primary' : 'text-muted-foreground hover:bg-muted'
+                    )}
+                  >
+                    {value ? '本会话' : '全部'}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex-1 min-h-0 overflow-y-auto space-y-1">
+              {loading ? (
+                <div className="py-8 text-center text-sm text-muted-foreground">加载中...</div>
+              ) : visible.length === 0 ? (
+                <div className="py-8 text-center text-sm text-muted-foreground">
+                  暂无录制
+                  <div className="mt-1 text-xs text-muted-foreground/60">
+                    在终端面板标题栏点击录制按钮开始录制（默认只录制输出，键盘按钮同时录制输入）
+                  </div>
+                </div>
+              ) : (
+                visible.map(recording => (
+                  <div
+                    key={recording.id}
+                    className="group flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-muted cursor-pointer"
+                    onClick={() => setSelected(recording)}
+                  >
+                    <Play className="size-3.5 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-mono truncate">{recording.title}</div>
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        {new Date(recording.startedAt).toLocaleString()} · {formatSeconds(recording.duration)} · {recording.width}x{recording.height} · {formatSize(recording.size)}
+                        {recording.input && (
+                          <span className="flex items-center gap-0.5 text-warning" title="录制中包含键盘输入">
+                            · <Keyboard className="size-3" /> 含输入
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                      {onInsertLink && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleInsertLink(recording)
+                          }}
+                          className="p-1 rounded hover:bg-background"
+                          title="插入链接到输入框"
+                        >
+                          <Link2 className="size-3.5" />
+                        </button>
+                      )}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          void handleDownload(recording)
+                        }}
+                        className="p-1 rounded hover:bg-background"
+                        title="下载 .cast"
+                      >
+                        <Download className="size-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          void handleDelete(recording)
+                        }}
+                        className="p-1 rounded hover:bg-destructive/20 hover:text-destructive"
+                        title="删除"
+                      >
+                        <Trash2 className="size-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
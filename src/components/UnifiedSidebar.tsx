@@ -2,21 +2,25 @@ import React, { useState, useEffect, useCallback, forwardRef, useImperativeHandl
 import { 
   Bot, Server as ServerIcon, Plus, RefreshCw, ChevronDown, ChevronRight, 
   MessageSquare, Settings, Wifi, WifiOff, Play, Square, Trash2, PanelLeft, FolderOpen,
-  User, Sun, Moon, LogOut, X, Link2
+  User, Sun, Moon, LogOut, X, Link2, Bell, BellOff, GitFork
 } from 'lucide-react'
 import { cn } from '../utils/cn'
 import { useTheme } from '../hooks/useTheme'
+import { isNotificationSupported, setNotificationsEnabled, useNotificationsEnabled } from '../hooks/useTaskNotifications'
 import type { Server, Service, Session, ConnectionType } from '../types'
-import { getServers, addServer, removeServer, refreshServerStatuses } from '../api/servers'
+import { getServers, addServer, removeServer, refreshServerStatuses, setServerMuted, setServiceMuted } from '../api/servers'
 import { listServices, startService, stopService, createService, listSessions, createSession, deleteSession, buildServiceUrl } from '../api/services'
+import { sessionKey } from '../hooks/useSessionStreams'
 
 interface Props {
   isCollapsed: boolean
   onCollapse: (collapsed: boolean) => void
   onSessionSelect: (server: Server, service: Service, session: Session, serviceUrl: string) => void
   selectedSessionId?: string
-  // 仅当该会话存在 SSE 流（sending）时，才算“运行中”
-  runningSessionId?: string
+  // 存在 SSE 流（sending）的会话才算“运行中”，可同时有多个；按 sessionKey(serviceUrl, sessionId) 区分服务
+  runningSessionKeys?: string[]
+  // 任务已结束但尚未查看的会话
+  unreadSessionIds?: string[]
   // URL 参数，用于初始化选择
   initialServerId?: string
   initialServiceId?: string
@@ -28,6 +32,12 @@ export interface UnifiedSidebarHandle {
     serviceUrl: string,
     sessionId: string
   ) => Promise<Pick<Session, 'id' | 'name' | 'createdAt'> | null>
+  // 将新会话（例如分叉出的会话）加入对应服务的会话列表
+  insertSession: (serviceUrl: string, session: Session) => void
+  // 选中当前服务器下的某个会话，找不到时返回 false
+  openSession: (serviceUrl: string, sessionId: string) => boolean
+  // 在当前服务器的某个服务中新建会话并打开，服务不存在或未运行时返回 null
+  createServiceSession: (serviceId: string) => Promise<Session | null>
 }
 
 interface ServiceWithSessions extends Service {
@@ -53,17 +63,28 @@ function sortSessionsStable(sessions: Session[]): Session[] {
   })
 }
 
+function forkedFromTitle(sessions: Session[], parentId: string): string {
+  const parent = sessions.find(s => s.id === parentId)
+  return `分叉自 ${parent?.name || `会话 ${parentId.slice(0, 8)}`}`
+}
+
 const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedSidebar({ 
   isCollapsed, 
   onCollapse, 
   onSessionSelect, 
   selectedSessionId,
-  runningSessionId,
+  runningSessionKeys = [],
+  unreadSessionIds = [],
   initialServerId,
   initialServiceId,
   initialSessionId
 }: Props, ref) {
   const { theme, toggleTheme } = useTheme()
+  const notificationsEnabled = useNotificationsEnabled()
+
+  // 会话是否运行中（不同服务的会话 ID 可能相同，需按服务 URL 区分）
+  const isSessionRunning = (serviceUrl: string, sessionId: string) =>
+    runningSessionKeys.includes(sessionKey(serviceUrl, sessionId))
   
   // 服务器状态
   const [servers, setServers] = useState<Server[]>([])
@@ -164,9 +185,61 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
     }
   }, [selectedServer])
 
+  const insertSession = useCallback((serviceUrl: string, session: Session) => {
+    if (!selectedServer) return
+
+    if (selectedServer.connectionType === 'direct') {
+      setDirectSessions(prev => sortSessionsStable([session, ...(prev || []).filter(s => s.id !== session.id)]))
+      return
+    }
+
+    setServices(prev => prev.map(s => {
+      if (buildServiceUrl(selectedServer.url, s.port) !== serviceUrl) return s
+      return {
+        ...s,
+        expanded: true,
+        sessions: sortSessionsStable([session, ...s.sessions.filter(sess => sess.id !== session.id)]),
+      }
+    }))
+  }, [selectedServer])
+
+  const openSession = useCallback((serviceUrl: string, sessionId: string) => {
+    if (!selectedServer) return false
+
+    if (selectedServer.connectionType === 'direct') {
+      const target = directSessions?.find(s => s.id === sessionId)
+      if (!target) return false
+      handleDirectSessionClick(target)
+      return true
+    }
+
+    const service = services.find(s => buildServiceUrl(selectedServer.url, s.port) === serviceUrl)
+    const target = service?.sessions.find(s => s.id === sessionId)
+    if (!service || !target) return false
+    handleSessionClick(service, target)
+    return true
+  }, [selectedServer, directSessions, services])
+
+  const createServiceSession = useCallback(async (serviceId: string) => {
+    if (!selectedServer || selectedServer.connectionType === 'direct') return null
+    const service = services.find(s => s.id === serviceId)
+    if (!service || service.status !== 'running') return null
+
+    const serviceUrl = buildServiceUrl(selectedServer.url, service.port)
+    const newSession = await createSession(serviceUrl)
+    setServices(prev => prev.map(s =>
+      s.id === service.id ? { ...s, expanded: true, sessions: sortSessionsStable([newSession, ...s.sessions]) } : s
+    ))
+    onSessionSelect(selectedServer, service, newSession, serviceUrl)
+    return newSession
+  }, [selectedServer, services, onSessionSelect])
+
   useImperativeHandle(ref, () => ({
     refreshSessionTitle,
-  }), [refreshSessionTitle])
+    insertSession,
+    openSession,
+    createServiceSession,
+  }), [refreshSessionTitle, insertSession, openSession, createServiceSession])
 
   async function loadServers() {
     setLoadingServers(true)
@@ -376,8 +449,10 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
     e.stopPropagation()
     if (!selectedServer) return
     
+    const serviceUrl = buildServiceUrl(selectedServer.url, service.port)
+
     // 不允许删除运行中的会话（以 SSE 流为准）
-    if (runningSessionId === session.id) {
+    if (isSessionRunning(serviceUrl, session.id)) {
       alert('无法删除运行中的会话')
       return
     }
@@ -385,7 +460,6 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
     if (!confirm(`确定要删除会话 "${session.name || session.id.slice(0, 8)}" 吗？`)) return
     
     try {
-      const serviceUrl = buildServiceUrl(selectedServer.url, service.port)
       await deleteSession(serviceUrl, session.id)
       // 从列表中移除
       setServices(prev => prev.map(s => 
@@ -436,7 +510,7 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
     if (!selectedServer) return
     
     // 不允许删除运行中的会话（以 SSE 流为准）
-    if (runningSessionId === session.id) {
+    if (isSessionRunning(selectedServer.url, session.id)) {
       alert('无法删除运行中的会话')
       return
     }
@@ -451,6 +525,34 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
     }
   }
 
+  // 静音设置随 Server 列表一起保存
+  function applyServerUpdate(updated: Server | null) {
+    if (!updated) return
+    setServers(prev => prev.map(s => s.id === updated.id ? { ...s, muted: updated.muted, mutedServiceIds: updated.mutedServiceIds } : s))
+    if (selectedServer?.id === updated.id) {
+      setSelectedServer({ ...selectedServer, muted: updated.muted, mutedServiceIds: updated.mutedServiceIds })
+    }
+  }
+
+  function handleToggleServerMute(server: Server, e: React.MouseEvent) {
+    e.stopPropagation()
+    applyServerUpdate(setServerMuted(server.id, !server.muted))
+  }
+
+  function handleToggleServiceMute(serviceId: string, e: React.MouseEvent) {
+    e.stopPropagation()
+    if (!selectedServer) return
+    const muted = !!selectedServer.mutedServiceIds?.includes(serviceId)
+    applyServerUpdate(setServiceMuted(selectedServer.id, serviceId, !muted))
+  }
+
+  async function handleToggleNotifications() {
+    const on = await setNotificationsEnabled(!notificationsEnabled)
+    if (!notificationsEnabled && !on) {
+      alert('无法开启桌面通知，请在浏览器设置中允许本站发送通知')
+    }
+  }
+
   async function handleAddServer() {
     if (!newServerName.trim() || !newServerUrl.trim()) return
     const server = addServer(newServerName.trim(), newServerUrl.trim(), newServerConnectionType)
@@ -562,11 +664,24 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
                     )}
                     <span className="text-sm truncate">{server.name}</span>
                   </div>
-                  {server.status === 'online' ? (
-                    <Wifi className="size-3 text-success shrink-0" />
-                  ) : (
-                    <WifiOff className="size-3 text-muted-foreground shrink-0" />
-                  )}
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    <span
+                      role="button"
+                      onClick={(e) => handleToggleServerMute(server, e)}
+                      className={cn(
+                        "p-0.5 rounded hover:bg-muted-foreground/20 transition-colors",
+                        server.muted ? "text-muted-foreground" : "text-muted-foreground/40 hover:text-muted-foreground"
+                      )}
+                      title={server.muted ? "取消静音" : "静音该服务器的通知"}
+                    >
+                      {server.muted ? <BellOff className="size-3" /> : <Bell className="size-3" />}
+                    </span>
+                    {server.status === 'online' ? (
+                      <Wifi className="size-3 text-success" />
+                    ) : (
+                      <WifiOff className="size-3 text-muted-foreground" />
+                    )}
+                  </div>
                 </button>
               ))}
               <div className="border-t border-border">
@@ -630,7 +745,8 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
             ) : (
               <div className="space-y-0.5 px-2">
                 {directSessions.map(session => {
-                  const isRunning = runningSessionId === session.id
+                  const isRunning = isSessionRunning(selectedServer.url, session.id)
+                  const isUnread = !isRunning && unreadSessionIds.includes(session.id)
                   return (
                     <div
                       key={session.id}
@@ -645,13 +761,26 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
                         onClick={() => handleDirectSessionClick(session)}
                         className="flex items-center gap-2 flex-1 min-w-0"
                       >
-                        <MessageSquare className="size-3.5 shrink-0" />
+                        {isRunning ? (
+                          <RefreshCw className="size-3.5 shrink-0 animate-spin text-primary" />
+                        ) : (
+                          <MessageSquare className="size-3.5 shrink-0" />
+                        )}
                         <span className={cn(
                           "text-sm truncate flex-1",
-                          isRunning && "text-primary animate-pulse"
+                          isRunning && "text-primary animate-pulse",
+                          isUnread && "font-medium text-foreground"
                         )}>
                           {session.name || `会话 ${session.id.slice(0, 8)}`}
                         </span>
+                        {session.parentId && (
+                          <span title={forkedFromTitle(directSessions || [], session.parentId)}>
+                            <GitFork className="size-3 shrink-0 text-muted-foreground/60" />
+                          </span>
+                        )}
+                        {isUnread && (
+                          <span className="size-1.5 rounded-full bg-primary shrink-0" title="有新的结果" />
+                        )}
                       </button>
                       <button
                         onClick={(e) => {
@@ -760,6 +889,30 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
                   {/* Name */}
                   <span className="text-sm flex-1 truncate">{service.name}</span>
 
+                  {selectedServer.mutedServiceIds?.includes(service.id) && (
+                    <BellOff className="size-3 text-muted-foreground/60 shrink-0 group-hover:hidden" />
+                  )}
+
+                  {/* 未读会话（折叠时也能看到） */}
+                  {!service.expanded && service.sessions.some(sess => unreadSessionIds.includes(sess.id)) && (
+                    <span className="size-1.5 rounded-full bg-primary shrink-0 group-hover:hidden" title="有新的结果" />
+                  )}
+
+                  {/* 运行中会话数（包括后台运行的会话） */}
+                  {(() => {
+                    const serviceUrl = buildServiceUrl(selectedServer.url, service.port)
+                    const runningCount = service.sessions.filter(sess => isSessionRunning(serviceUrl, sess.id)).length
+                    return runningCount > 0 ? (
+                      <span
+                        className="flex items-center gap-1 px-1.5 rounded-full bg-primary/10 text-primary text-[10px] group-hover:hidden"
+                        title={`${runningCount} 个会话运行中`}
+                      >
+                        <RefreshCw className="size-2.5 animate-spin" />
+                        {runningCount}
+                      </span>
+                    ) : null
+                  })()}
+
                   {/* Actions */}
                   <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
                     {service.status === 'running' ? (
@@ -771,6 +924,17 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
                         >
                           <Plus className="size-3" />
                         </button>
+                        <button
+                          onClick={(e) => handleToggleServiceMute(service.id, e)}
+                          className="p-1 rounded hover:bg-muted-foreground/20"
+                          title={selectedServer.mutedServiceIds?.includes(service.id) ? "取消静音" : "静音该服务的通知"}
+                        >
+                          {selectedServer.mutedServiceIds?.includes(service.id) ? (
+                            <BellOff className="size-3" />
+                          ) : (
+                            <Bell className="size-3" />
+                          )}
+                        </button>
                         <button
                           onClick={(e) => handleStopService(service.id, e)}
                           className="p-1 rounded hover:bg-muted-foreground/20"
@@ -800,7 +964,8 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
                       </div>
                     ) : (
                       service.sessions.map(session => {
-                        const isRunning = runningSessionId === session.id
+                        const isRunning = isSessionRunning(buildServiceUrl(selectedServer.url, service.port), session.id)
+                        const isUnread = !isRunning && unreadSessionIds.includes(session.id)
                         return (
                           <div
                             key={session.id}
@@ -815,13 +980,26 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
                               onClick={() => handleSessionClick(service, session)}
                               className="flex items-center gap-2 flex-1 min-w-0"
                             >
-                              <MessageSquare className="size-3 shrink-0" />
+                              {isRunning ? (
+                                <RefreshCw className="size-3 shrink-0 animate-spin text-primary" />
+                              ) : (
+                                <MessageSquare className="size-3 shrink-0" />
+                              )}
                               <span className={cn(
                                 "text-xs truncate flex-1",
-                                isRunning && "text-primary animate-pulse"
+                                isRunning && "text-primary animate-pulse",
+                                isUnread && "font-medium text-foreground"
                               )}>
                                 {session.name || `会话 ${session.id.slice(0, 8)}`}
                               </span>
+                              {session.parentId && (
+                                <span title={forkedFromTitle(service.sessions, session.parentId)}>
+                                  <GitFork className="size-3 shrink-0 text-muted-foreground/60" />
+                                </span>
+                              )}
+                              {isUnread && (
+                                <span className="size-1.5 rounded-full bg-primary shrink-0" title="有新的结果" />
+                              )}
                             </button>
                             <button
                               onClick={(e) => {
@@ -864,6 +1042,15 @@ const UnifiedSidebar = forwardRef<UnifiedSidebarHandle, Props>(function UnifiedS
             {theme === 'dark' ? <Sun className="size-4" /> : <Moon className="size-4" />}
             <span>{theme === 'dark' ? '浅色模式' : '深色模式'}</span>
           </button>
+          {isNotificationSupported() && (
+            <button
+              onClick={handleToggleNotifications}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-muted/80 transition-colors text-sm text-foreground/80 hover:text-foreground"
+            >
+              {notificationsEnabled ? <BellOff className="size-4" /> : <Bell className="size-4" />}
+              <span>{notificationsEnabled ? '关闭桌面通知' : '开启桌面通知'}</span>
+            </button>
+          )}
           <button className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-muted/80 transition-colors text-sm text-foreground/80 hover:text-foreground">
             <Settings className="size-4" />
             <span>设置</span>
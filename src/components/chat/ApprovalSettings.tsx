@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import { ShieldCheck, ShieldX, Trash2, X } from 'lucide-react'
+import { cn } from '../../utils/cn'
+import {
+  clearApprovalLog,
+  getApprovalLog,
+  getApprovalPolicy,
+  setApprovalEnabled,
+  setToolAlwaysAllowed,
+} from '../../api/approvals'
+
+// 工具审批设置：开启审批模式、管理始终允许的工具、查看该服务的审批记录
+export default function ApprovalSettings({
+  serverId,
+  serviceId,
+  serviceName,
+  onChange,
+  onClose,
+}: {
+  serverId: string
+  serviceId: string
+  serviceName: string
+  onChange?: (enabled: boolean) => void
+  onClose: () => void
+}) {
+  const [policy, setPolicy] = useState(() => getApprovalPolicy(serverId, serviceId))
+  const [log, setLog] = useState(() => getApprovalLog(serverId, serviceId))
+
+  function toggleEnabled() {
+    const next = setApprovalEnabled(serverId, serviceId, !policy.enabled)
+    setPolicy(next)
+    onChange?.(next.enabled)
+  }
+
+  function handleClearLog() {
+    if (!confirm('确定清空该服务的审批记录？')) return
+    clearApprovalLog(serverId, serviceId)
+    setLog([])
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-popover border border-border rounded-xl p-4 w-[32rem] max-w-[calc(100vw-2rem)] max-h-[80vh] flex flex-col shadow-xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="font-semibold flex-1 truncate">工具审批 · {serviceName}</h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+            title="关闭"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+
+        <button
+          onClick={toggleEnabled}
+          className="flex items-center gap-3 px-3 py-2 rounded-lg bg-muted hover:bg-muted/80 text-left transition-colors"
+        >
+          <div className="flex-1">
+            <div className="text-sm">审批模式</div>
+            <div className="text-xs text-muted-foreground">开启后，工具执行前需要在对话中批准（对之后的任务生效）</div>
+          </div>
+          <span
+            className={cn(
+              'relative w-9 h-5 rounded-full transition-colors shrink-0',
+              policy.enabled ? 'bg-primary' : 'bg-muted-foreground/30'
+            )}
+          >
+            <span
+              className={cn(
+                'absolute top-0.5 size-4 rounded-full bg-background transition-all',
+                policy.enabled ? 'left-4.5' : 'left-0.5'
+              )}
+            />
+          </span>
+        </button>
+
+        <div className="mt-3">
+          <div className="text-xs text-muted-foreground mb-1">始终允许的工具</div>
+          {policy.alwaysAllow.length === 0 ? (
+            <div className="text-xs text-muted-foreground/60">暂无，可在审批时选择“始终允许”</div>
+          ) : (
+            <div className="flex flex-wrap gap-1.5">
+              {policy.alwaysAllow.map(name => (
+                <span key={name} className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-muted text-xs font-mono">
+                  {name}
+                  <button
+                    onClick={() => setPolicy(setToolAlwaysAllowed(serverId, serviceId, name, false))}
+                    className="text-muted-foreground hover:text-foreground"
+                    title="取消始终允许"
+                  >
+                    <X className="size-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center mt-4 mb-1">
+          <div className="flex-1 text-xs text-muted-foreground">审批记录（{log.length}）</div>
+          {log.length > 0 && (
+            <button
+              onClick={handleClearLog}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-destructive transition-colors"
+            >
+              <Trash2 className="size-3" />
+              清空
+            </button>
+          )}
+        </div>
+        <div className="flex-1 min-h-0 overflow-y-auto -mx-1">
+          {log.length === 0 ? (
+            <div className="px-3 py-6 text-center text-sm text-muted-foreground">没有审批记录</div>
+          ) : (
+            log.map(entry => (
+              <div key={entry.id} className="flex items-start gap-2 px-3 py-1.5 mx-1 rounded-lg hover:bg-muted/50 text-xs">
+                {entry.decision === 'approved' ? (
+                  <ShieldCheck className="size-3.5 mt-0.5 shrink-0 text-primary" />
+                ) : (
+                  <ShieldX className="size-3.5 mt-0.5 shrink-0 text-destructive" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1.5">
+                    <span className="font-mono truncate">{entry.toolName}</span>
+                    <span className="text-muted-foreground">
+                      {entry.decision === 'approved' ? (entry.auto ? '自动批准' : '已批准') : '已拒绝'}
+                      {entry.editedArguments && '（修改参数）'}
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground/70 truncate">
+                    {new Date(entry.timestamp).toLocaleString()} · 会话 {entry.sessionId.slice(0, 8)}
+                  </div>
+                  {entry.arguments && Object.keys(entry.arguments).length > 0 && (
+                    <div className="text-muted-foreground/70 font-mono truncate" title={JSON.stringify(entry.editedArguments ?? entry.arguments, null, 2)}>
+                      {JSON.stringify(entry.editedArguments ?? entry.arguments)}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, File as FileIcon, FileText } from 'lucide-react'
+import type { MessageAttachment } from './types'
+
+// 用户消息中的附件卡片：文本附件可展开查看内容，上传的文件显示工作目录中的路径
+export default function AttachmentCard({ attachment, previewUrl }: { attachment: MessageAttachment; previewUrl?: string }) {
+  const [expanded, setExpanded] = useState(false)
+
+  if (attachment.kind === 'file') {
+    return (
+      <div className="flex items-center gap-2 max-w-full px-2 py-1.5 rounded-lg bg-background/60 border border-border/40 text-xs">
+        {previewUrl ? (
+          <img src={previewUrl} alt={attachment.name} className="max-h-40 max-w-60 rounded object-contain" />
+        ) : (
+          <FileIcon className="size-4 shrink-0 text-muted-foreground" />
+        )}
+        <div className="min-w-0">
+          <div className="truncate">{attachment.name}</div>
+          <div className="truncate text-muted-foreground/70 font-mono">{attachment.path || '上传中…'}</div>
+        </div>
+      </div>
+    )
+  }
+
+  const lineCount = (attachment.content || '').split('\n').length
+
+  return (
+    <div className="max-w-full rounded-lg bg-background/60 border border-border/40 text-xs overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setExpanded(v => !v)}
+        className="w-full flex items-center gap-2 px-2 py-1.5 hover:bg-muted/40 transition-colors text-left"
+      >
+        <FileText className="size-4 shrink-0 text-muted-foreground" />
+        <span className="truncate flex-1">{attachment.name}</span>
+        <span className="shrink-0 text-muted-foreground/60">{lineCount} 行</span>
+        {expanded ? <ChevronDown className="size-3 shrink-0" /> : <ChevronRight className="size-3 shrink-0" />}
+      </button>
+      {expanded && (
+        <pre className="max-h-64 overflow-auto px-3 py-2 border-t border-border/40 font-mono text-[11px] whitespace-pre">
+          {attachment.content}
+        </pre>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react'
+import { ChevronLeft, CornerDownRight, FileDiff as FileDiffIcon, X } from 'lucide-react'
+import { cn } from '../../utils/cn'
+import DiffViewer from './DiffViewer'
+import { cumulativeFileDiff, type SessionFileChanges } from './fileChanges'
+import { diffStats } from './lineDiff'
+
+function splitPath(path: string): { name: string; dir: string } {
+  const index = path.lastIndexOf('/')
+  return index === -1 ? { name: path, dir: '' } : { name: path.slice(index + 1), dir: path.slice(0, index) }
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+// 单个文件：改动列表（可跳到对应消息）+ 首次改动前到最终状态的累计 diff；
+// 缺少文件原文无法重放时，按时间顺序列出每次改动的 diff
+function FileChangesDetail({
+  file,
+  onBack,
+  onJump,
+}: {
+  file: SessionFileChanges
+  onBack: () => void
+  onJump: (messageId: string, toolId: string) => void
+}) {
+  const { name, dir } = splitPath(file.path || '（未知文件）')
+  const cumulative = useMemo(() => cumulativeFileDiff(file), [file])
+
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+        <button onClick={onBack} className="p-1 rounded hover:bg-muted transition-colors" title="返回文件列表">
+          <ChevronLeft className="size-4" />
+        </button>
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-mono truncate">{name}</div>
+          {dir && <div className="text-xs text-muted-foreground font-mono truncate" title={file.path}>{dir}</div>}
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-3 space-y-3">
+        <div className="space-y-1">
+          {file.changes.map((change, index) => {
+            const stats = diffStats([change.diff])
+            return (
+              <button
+                key={`${change.toolId}-${index}`}
+                onClick={() => onJump(change.messageId, change.toolId)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs hover:bg-muted transition-colors"
+                title="跳到对应消息"
+              >
+                <span className="text-muted-foreground">#{index + 1}</span>
+                <span className="font-mono truncate">{change.toolName}</span>
+                <span className="text-muted-foreground">{formatTime(change.timestamp)}</span>
+                <span className="flex-1" />
+                <span className="text-green-500">+{stats.added}</span>
+                <span className="text-red-500">-{stats.removed}</span>
+                <CornerDownRight className="size-3 text-muted-foreground" />
+              </button>
+            )
+          })}
+        </div>
+        {cumulative ? (
+          <div className="space-y-2">
+            <div className="text-xs text-muted-foreground">累计改动（首次改动前 → 最终）</div>
+            <DiffViewer files={[cumulative]} />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="text-xs text-muted-foreground">缺少文件原文，无法合成累计改动；各次改动（按时间顺序）</div>
+            {file.changes.map((change, index) => (
+              <div key={`${change.toolId}-${index}`}>
+                <div className="text-xs text-muted-foreground mb-1">
+                  #{index + 1} <span className="font-mono">{change.toolName}</span>
+                </div>
+                <DiffViewer files={[change.diff]} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// 会话改动面板：汇总 Agent 在本会话中修改过的所有文件
+export default function ChangesPanel({
+  files,
+  className,
+  onJump,
+  onClose,
+}: {
+  files: SessionFileChanges[]
+  className?: string
+  onJump: (messageId: string, toolId: string) => void
+  onClose?: () => void
+}) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null)
+  const selected = selectedPath === null ? undefined : files.find(f => f.path === selectedPath)
+  const total = useMemo(() => diffStats(files.flatMap(f => f.changes.map(c => c.diff))), [files])
+
+  return (
+    <div className={cn('flex flex-col h-full bg-background border-l border-border', className)}>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <div className="flex items-center gap-2">
+          <FileDiffIcon className="size-5 text-primary" />
+          <span className="font-semibold">改动</span>
+          <span className="text-xs text-muted-foreground">({files.length})</span>
+          {files.length > 0 && (
+            <span className="text-xs">
+              <span className="text-green-500">+{total.added}</span>{' '}
+              <span className="text-red-500">-{total.removed}</span>
+            </span>
+          )}
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="p-1.5 rounded hover:bg-muted transition-colors">
+            <X className="size-4" />
+          </button>
+        )}
+      </div>
+
+      {selected ? (
+        <FileChangesDetail file={selected} onBack={() => setSelectedPath(null)} onJump={onJump} />
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          {files.length === 0 ? (
+            <div className="p-4 text-center text-muted-foreground text-sm">本会话还没有修改文件</div>
+          ) : (
+            <div className="divide-y divide-border">
+              {files.map(file => {
+                const { name, dir } = splitPath(file.path || '（未知文件）')
+                const stats = diffStats(file.changes.map(c => c.diff))
+                return (
+                  <button
+                    key={file.path}
+                    onClick={() => setSelectedPath(file.path)}
+                    className="w-full flex items-center gap-2 px-4 py-2.5 text-left hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-mono truncate">{name}</div>
+                      <div className="text-xs text-muted-foreground truncate" title={file.path}>
+                        {dir && <span className="font-mono">{dir} · </span>}
+                        {file.changes.length} 次修改
+                      </div>
+                    </div>
+                    <span className="text-xs text-green-500">+{stats.added}</span>
+                    <span className="text-xs text-red-500">-{stats.removed}</span>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,11 @@
-import React from 'react'
-import { Mic, Paperclip, Send, StopCircle } from 'lucide-react'
+import React, { useEffect, useRef, useState } from 'react'
+import { BookText, File as FileIcon, FileText, Folder, Mic, Paperclip, Send, StopCircle, X } from 'lucide-react'
 import { cn } from '../../utils/cn'
+import type { FileEntry } from '../../types'
+import type { PendingAttachment } from './types'
+import { formatFileSize } from './attachments'
+import { matchSlashCommands, parseSlashInput, type SlashCommand } from './slashCommands'
+import { findMentionQuery, fuzzyMatchFiles } from './fileMentions'
 
 export default function ChatComposer({
   input,
@@ -8,33 +13,335 @@ export default function ChatComposer({
   sending,
   onSubmit,
   onCancel,
+  attachments = [],
+  onAddFiles,
+  onRemoveAttachment,
+  commands = [],
+  onCommand,
+  onLoadFiles,
+  onMention,
+  onOpenPrompts,
+  canQueue = false,
 }: {
   input: string
   setInput: (value: string) => void
   sending: boolean
   onSubmit: (e?: React.FormEvent) => void
   onCancel: () => void
+  attachments?: PendingAttachment[]
+  onAddFiles?: (files: File[]) => void
+  onRemoveAttachment?: (id: string) => void
+  // 斜杠命令：输入 "/" 时弹出命令面板
+  commands?: SlashCommand[]
+  onCommand?: (command: SlashCommand, args: string) => void
+  // @ 引用：加载工作目录文件列表，选中后回调
+  onLoadFiles?: () => Promise<FileEntry[]>
+  onMention?: (entry: FileEntry) => void
+  // 打开提示词模板库
+  onOpenPrompts?: () => void
+  // 任务运行中允许提交（加入队列）
+  canQueue?: boolean
 }) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null)
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null)
+  const [mentionIndex, setMentionIndex] = useState(0)
+  const [files, setFiles] = useState<FileEntry[] | null>(null)
+  const [filesError, setFilesError] = useState(false)
+  const [dragging, setDragging] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [paletteDismissed, setPaletteDismissed] = useState(false)
+  const canSend = (input.trim().length > 0 || attachments.length > 0) && (!sending || canQueue)
+
+  const slash = onCommand ? parseSlashInput(input) : null
+  const matches = slash?.typingName ? matchSlashCommands(commands, slash.name) : []
+  const paletteOpen = matches.length > 0 && !paletteDismissed
+  const selectedIndex = Math.min(activeIndex, matches.length - 1)
+  // 已输入完整命令名（含参数）时显示参数提示
+  const exactCommand = slash ? commands.find(c => c.name === slash.name) : undefined
+
+  const mentionMatches = mention && files ? fuzzyMatchFiles(files, mention.query, 30) : []
+  const mentionOpen = mention !== null && !!onLoadFiles
+  const mentionSelected = Math.min(mentionIndex, mentionMatches.length - 1)
+
+  // 切换服务后丢弃旧的文件列表
+  useEffect(() => {
+    setFiles(null)
+    setFilesError(false)
+  }, [onLoadFiles])
+
+  // 每次开始输入 @ 时加载文件列表（加载函数自带短期缓存）
+  useEffect(() => {
+    if (!mentionOpen || !onLoadFiles) return
+    let cancelled = false
+    onLoadFiles()
+      .then(list => {
+        if (cancelled) return
+        setFiles(list)
+        setFilesError(false)
+      })
+      .catch(err => {
+        console.warn('Failed to load files:', err)
+        if (!cancelled) setFilesError(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [mentionOpen, onLoadFiles])
+
+  function updateMention(el: HTMLTextAreaElement) {
+    const next = findMentionQuery(el.value, el.selectionStart)
+    if (next?.start !== mention?.start || next?.query !== mention?.query) {
+      setMention(next)
+      setMentionIndex(0)
+    }
+  }
+
+  // 用 @路径 替换正在输入的查询词
+  function insertMention(entry: FileEntry) {
+    const el = textareaRef.current
+    if (!el || !mention) return
+    const token = entry.type === 'dir' ? `@${entry.path}/` : `@${entry.path}`
+    const next = input.slice(0, mention.start) + token + ' ' + input.slice(el.selectionStart)
+    const caret = mention.start + token.length + 1
+    setInput(next)
+    setMention(null)
+    onMention?.(entry)
+    requestAnimationFrame(() => {
+      el.focus()
+      el.setSelectionRange(caret, caret)
+    })
+  }
+
+  function runCommand(command: SlashCommand, args: string) {
+    setInput('')
+    onCommand?.(command, args)
+  }
+
+  // 选中命令：模板命令替换输入内容，需要参数的命令补全后等待输入参数
+  function selectCommand(command: SlashCommand) {
+    if (command.template != null) {
+      setInput(command.template)
+    } else if (command.argsHint) {
+      setInput(`/${command.name} `)
+    } else {
+      runCommand(command, '')
+    }
+  }
+
+  // 回车/发送：完整的命令执行命令，否则发送消息（运行中只允许执行命令或加入队列）
+  function submit() {
+    if (slash && exactCommand) {
+      if (exactCommand.template != null) setInput(exactCommand.template)
+      else runCommand(exactCommand, slash.args)
+      return
+    }
+    if (sending && !canQueue) return
+    onSubmit()
+  }
+
   return (
     <footer className="flex-none p-4 bg-background">
       <div className="max-w-3xl mx-auto">
-        <form onSubmit={onSubmit} className="relative bg-background rounded-3xl border border-primary/20 shadow-sm transition-all duration-200">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            submit()
+          }}
+          onDragOver={(e) => {
+            if (!onAddFiles || !e.dataTransfer.types.includes('Files')) return
+            e.preventDefault()
+            setDragging(true)
+          }}
+          onDragLeave={(e) => {
+            // 移动到子元素时也会触发 dragleave
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false)
+          }}
+          onDrop={(e) => {
+            if (!onAddFiles) return
+            e.preventDefault()
+            setDragging(false)
+            const files = Array.from(e.dataTransfer.files)
+            if (files.length > 0) onAddFiles(files)
+          }}
+          className={cn(
+            'relative bg-background rounded-3xl border border-primary/20 shadow-sm transition-all duration-200',
+            dragging && 'border-primary border-dashed bg-primary/5'
+          )}
+        >
+          {/* @ 文件选择 */}
+          {mentionOpen && (
+            <div className="absolute bottom-full left-0 right-0 mb-2 p-1 bg-popover border border-border rounded-xl shadow-lg z-20 max-h-64 overflow-y-auto">
+              {filesError ? (
+                <div className="px-3 py-2 text-xs text-muted-foreground">无法加载文件列表</div>
+              ) : !files ? (
+                <div className="px-3 py-2 text-xs text-muted-foreground">加载文件列表…</div>
+              ) : mentionMatches.length === 0 ? (
+                <div className="px-3 py-2 text-xs text-muted-foreground">没有匹配的文件</div>
+              ) : (
+                mentionMatches.map((entry, idx) => {
+                  const slash = entry.path.lastIndexOf('/')
+                  return (
+                    <button
+                      key={entry.path}
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onMouseEnter={() => setMentionIndex(idx)}
+                      onClick={() => insertMention(entry)}
+                      className={cn(
+                        'w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-left text-sm transition-colors',
+                        idx === mentionSelected ? 'bg-muted' : 'hover:bg-muted/60'
+                      )}
+                    >
+                      {entry.type === 'dir' ? (
+                        <Folder className="size-3.5 shrink-0 text-primary" />
+                      ) : (
+                        <FileIcon className="size-3.5 shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="shrink-0 font-medium">{entry.path.slice(slash + 1)}</span>
+                      <span className="truncate text-xs text-muted-foreground/70 font-mono">{entry.path.slice(0, slash + 1)}</span>
+                    </button>
+                  )
+                })
+              )}
+            </div>
+          )}
+
+          {/* 斜杠命令面板 */}
+          {paletteOpen && (
+            <div className="absolute bottom-full left-0 right-0 mb-2 p-1 bg-popover border border-border rounded-xl shadow-lg z-20 max-h-64 overflow-y-auto">
+              {matches.map((command, idx) => (
+                <button
+                  key={command.name}
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setActiveIndex(idx)}
+                  onClick={() => selectCommand(command)}
+                  className={cn(
+                    'w-full flex items-center gap-3 px-3 py-1.5 rounded-lg text-left text-sm transition-colors',
+                    idx === selectedIndex ? 'bg-muted' : 'hover:bg-muted/60'
+                  )}
+                >
+                  <span className="font-mono text-foreground">/{command.name}</span>
+                  {command.argsHint && (
+                    <span className="font-mono text-xs text-muted-foreground/60">{command.argsHint}</span>
+                  )}
+                  <span className="flex-1 truncate text-xs text-muted-foreground">{command.description}</span>
+                  {command.source === 'service' && (
+                    <span className="shrink-0 text-[10px] px-1.5 rounded bg-primary/10 text-primary">服务</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* 参数提示 */}
+          {!paletteOpen && slash && !slash.typingName && exactCommand?.argsHint && (
+            <div className="absolute bottom-full left-4 mb-2 px-2 py-1 rounded-md bg-popover border border-border shadow-sm text-xs text-muted-foreground font-mono z-20">
+              /{exactCommand.name} {exactCommand.argsHint}
+              {exactCommand.description && <span className="ml-2 font-sans">{exactCommand.description}</span>}
+            </div>
+          )}
+
+          {/* 待发送的附件 */}
+          {attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 px-4 pt-3">
+              {attachments.map(a => (
+                <div
+                  key={a.id}
+                  className="flex items-center gap-2 max-w-56 pl-1.5 pr-1 py-1 rounded-lg bg-muted/60 border border-border/40 text-xs"
+                  title={`${a.name}（${formatFileSize(a.size)}）`}
+                >
+                  {a.previewUrl ? (
+                    <img src={a.previewUrl} alt="" className="size-6 rounded object-cover shrink-0" />
+                  ) : a.kind === 'text' ? (
+                    <FileText className="size-4 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <FileIcon className="size-4 shrink-0 text-muted-foreground" />
+                  )}
+                  <span className="truncate">{a.name}</span>
+                  <span className="shrink-0 text-muted-foreground/60">{formatFileSize(a.size)}</span>
+                  <button
+                    type="button"
+                    onClick={() => onRemoveAttachment?.(a.id)}
+                    className="p-0.5 rounded hover:bg-muted-foreground/20 shrink-0"
+                    title="移除"
+                  >
+                    <X className="size-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
           <textarea
+            ref={textareaRef}
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={(e) => {
+              setInput(e.target.value)
+              setActiveIndex(0)
+              setPaletteDismissed(false)
+            }}
+            onSelect={(e) => updateMention(e.currentTarget)}
             onKeyDown={(e) => {
-              // 流式输出时允许继续输入，但不能触发发送
-              if (sending) return
               // 中文等输入法组合态：回车用于选词/上屏，不应触发发送
               // React KeyboardEvent: e.nativeEvent.isComposing
               // 部分浏览器会用 keyCode 229 表示 IME 处理中
               const native = e.nativeEvent as unknown as { isComposing?: boolean; keyCode?: number }
               if (e.isComposing || native?.isComposing || native?.keyCode === 229) return
+
+              // 文件选择：上下键选择，Tab/回车插入，Esc 关闭
+              if (mentionOpen) {
+                if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && mentionMatches.length > 0) {
+                  e.preventDefault()
+                  const step = e.key === 'ArrowDown' ? 1 : -1
+                  setMentionIndex((mentionSelected + step + mentionMatches.length) % mentionMatches.length)
+                  return
+                }
+                if ((e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) && mentionMatches.length > 0) {
+                  e.preventDefault()
+                  insertMention(mentionMatches[mentionSelected])
+                  return
+                }
+                if (e.key === 'Escape') {
+                  e.preventDefault()
+                  setMention(null)
+                  return
+                }
+              }
+
+              // 命令面板：上下键选择，Tab/回车选中，Esc 关闭
+              if (paletteOpen) {
+                if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                  e.preventDefault()
+                  const step = e.key === 'ArrowDown' ? 1 : -1
+                  setActiveIndex((selectedIndex + step + matches.length) % matches.length)
+                  return
+                }
+                if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+                  e.preventDefault()
+                  selectCommand(matches[selectedIndex])
+                  return
+                }
+                if (e.key === 'Escape') {
+                  e.preventDefault()
+                  setPaletteDismissed(true)
+                  return
+                }
+              }
+
+              // 流式输出时允许继续输入，但不能触发发送（命令除外，例如 /cancel）
               if (e.key === 'Enter' && !e.shiftKey) {
                 e.preventDefault()
-                onSubmit()
+                submit()
               }
             }}
+            onPaste={(e) => {
+              // 粘贴文件（截图等）作为附件，普通文本照常粘贴
+              const files = Array.from(e.clipboardData.files)
+              if (!onAddFiles || files.length === 0) return
+              e.preventDefault()
+              onAddFiles(files)
+            }}
             placeholder="开始吧..."
             className="w-full min-h-13 max-h-50 bg-transparent border-none px-5 py-4 text-sm resize-none focus:ring-0 focus:outline-none placeholder:text-muted-foreground/40"
             rows={1}
@@ -42,9 +349,37 @@ export default function ChatComposer({
           />
           <div className="flex items-center justify-between px-3 pb-3">
             <div className="flex items-center gap-1">
-              <button type="button" className="p-2 text-muted-foreground/60 hover:text-foreground hover:bg-muted rounded-full transition-colors">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!onAddFiles}
+                className="p-2 text-muted-foreground/60 hover:text-foreground hover:bg-muted rounded-full transition-colors"
+                title="添加附件"
+              >
                 <Paperclip className="size-5" />
               </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  const files = Array.from(e.target.files || [])
+                  if (files.length > 0) onAddFiles?.(files)
+                  // 允许再次选择同一文件
+                  e.target.value = ''
+                }}
+              />
+              {onOpenPrompts && (
+                <button
+                  type="button"
+                  onClick={onOpenPrompts}
+                  className="p-2 text-muted-foreground/60 hover:text-foreground hover:bg-muted rounded-full transition-colors"
+                  title="提示词模板"
+                >
+                  <BookText className="size-5" />
+                </button>
+              )}
               <button type="button" className="p-2 text-muted-foreground/60 hover:text-foreground hover:bg-muted rounded-full transition-colors">
                 <Mic className="size-5" />
               </button>
@@ -62,13 +397,14 @@ export default function ChatComposer({
               )}
               <button
                 type="submit"
-                disabled={!input.trim() || sending}
+                disabled={!canSend}
                 className={cn(
                   'p-2 rounded-full transition-all duration-200',
-                  input.trim() && !sending
+                  canSend
                     ? 'bg-primary text-primary-foreground shadow-sm hover:shadow-md hover:bg-primary/90'
                     : 'bg-transparent text-muted-foreground/30 cursor-not-allowed'
                 )}
+                title={sending && canQueue ? '加入队列，当前任务完成后发送' : undefined}
               >
                 <Send className="size-5" />
               </button>
@@ -1,24 +1,103 @@
+import { Bug, FileDiff, GitFork, ShieldCheck } from 'lucide-react'
 import type { Server, Service, Session } from '../../types'
+import { cn } from '../../utils/cn'
 
 export default function ChatHeader({
   server,
   service,
   session,
+  unknownEventCount = 0,
+  debugOpen = false,
+  onToggleDebug,
+  onOpenParent,
+  approvalEnabled = false,
+  onOpenApprovals,
+  changedFileCount = 0,
+  changesOpen = false,
+  onToggleChanges,
 }: {
   server: Server
   service: Service
   session: Session | null
+  // 未识别流事件数量，大于 0 时显示调试入口
+  unknownEventCount?: number
+  debugOpen?: boolean
+  onToggleDebug?: () => void
+  // 分叉会话：打开来源会话
+  onOpenParent?: () => void
+  // 工具审批模式
+  approvalEnabled?: boolean
+  onOpenApprovals?: () => void
+  // 会话改动面板：本会话修改过的文件数
+  changedFileCount?: number
+  changesOpen?: boolean
+  onToggleChanges?: () => void
 }) {
   return (
-    <header className="flex-none h-14 border-b border-border/40 bg-background/80 backdrop-blur-md px-4 flex items-center justify-center z-10">
+    <header className="relative flex-none h-14 border-b border-border/40 bg-background/80 backdrop-blur-md px-4 flex items-center justify-center z-10">
       <div className="flex flex-col items-center text-center">
         <h1 className="font-medium text-base text-foreground">
           {session?.name || (session ? `会话 ${session.id.slice(0, 8)}` : service.name)}
         </h1>
-        <span className="text-xs text-muted-foreground">
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
           {service.name} • {server.name}
+          {onOpenParent && (
+            <button
+              type="button"
+              onClick={onOpenParent}
+              className="flex items-center gap-0.5 ml-1 text-primary hover:underline"
+              title="打开来源会话"
+            >
+              <GitFork className="size-3" />
+              分叉自来源会话
+            </button>
+          )}
         </span>
       </div>
+      <div className="absolute right-4 flex items-center gap-1">
+        {onToggleChanges && (changedFileCount > 0 || changesOpen) && (
+          <button
+            type="button"
+            onClick={onToggleChanges}
+            className={cn(
+              'flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors',
+              changesOpen ? 'bg-primary/10 text-primary' : 'text-muted-foreground hover:bg-muted'
+            )}
+            title="本会话修改的文件"
+          >
+            <FileDiff className="size-3.5" />
+            {changedFileCount}
+          </button>
+        )}
+        {onOpenApprovals && (
+          <button
+            type="button"
+            onClick={onOpenApprovals}
+            className={cn(
+              'flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors',
+              approvalEnabled ? 'bg-primary/10 text-primary' : 'text-muted-foreground hover:bg-muted'
+            )}
+            title={approvalEnabled ? '工具审批已开启' : '工具审批'}
+          >
+            <ShieldCheck className="size-3.5" />
+            {approvalEnabled && '审批'}
+          </button>
+        )}
+        {onToggleDebug && (unknownEventCount > 0 || debugOpen) && (
+          <button
+            type="button"
+            onClick={onToggleDebug}
+            className={cn(
+              'flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors',
+              debugOpen ? 'bg-warning/20 text-warning' : 'text-warning hover:bg-warning/10'
+            )}
+            title="未识别的流事件"
+          >
+            <Bug className="size-3.5" />
+            {unknownEventCount}
+          </button>
+        )}
+      </div>
     </header>
   )
 }
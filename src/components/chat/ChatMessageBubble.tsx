@@ -1,19 +1,234 @@
+import { useMemo, useState } from 'react'
+import { AtSign, ChevronLeft, ChevronRight, Clapperboard, Columns2, GitFork, Pencil, RotateCcw } from 'lucide-react'
 import MarkdownRenderer from '../MarkdownRenderer'
 import { cn } from '../../utils/cn'
-import type { Message } from './types'
+import type { ToolApprovalDecision } from '../../types'
+import type { BranchNav, ContentSegment, Message, ToolCall } from './types'
 import { filterToolCallTags } from './messageParsing'
 import ToolCallBlock from './ToolCallBlock'
+import AttachmentCard from './AttachmentCard'
+import { splitMessageAttachments } from './attachments'
 import TypingDots from './TypingDots'
+import DiffViewer from './DiffViewer'
+import FilesTouchedSummary from './FilesTouchedSummary'
+import ToolTimeline from './ToolTimeline'
+import { parseLooseDiff, parseUnifiedDiff, splitDiffBlocks } from './lineDiff'
+import { RECORDING_LINK_PREFIX, splitRecordingLinks } from '../terminalRecording'
+
+// 助手消息：按片段渲染
+// 助手文本：```diff 代码块使用 diff 查看器，其余按 Markdown 渲染
+function AssistantText({ content }: { content: string }) {
+  const parts = useMemo(() => splitDiffBlocks(content), [content])
+  if (!parts.some(p => p.type === 'diff')) return <MarkdownRenderer content={content} />
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.type === 'diff' ? (
+          <DiffViewer key={i} files={parseUnifiedDiff(part.content) ?? [parseLooseDiff(part.content)]} className="my-3 max-h-[32rem]" />
+        ) : (
+          <MarkdownRenderer key={i} content={part.content} />
+        )
+      )}
+    </>
+  )
+}
+
+type ToolApprovalHandler = (tool: ToolCall, decision: ToolApprovalDecision, alwaysAllow?: boolean) => Promise<void>
+
+function AssistantSegments({
+  segments,
+  status,
+  onToolApproval,
+}: {
+  segments: ContentSegment[]
+  status?: Message['status']
+  onToolApproval?: ToolApprovalHandler
+}) {
+  // 正在等待响应
+  if (segments.length === 0 && status === 'streaming') return <TypingDots />
+
+  return (
+    <>
+      {segments.map((segment, idx) =>
+        segment.type === 'text' ? (
+          // 文本片段：使用 Markdown 渲染（过滤掉 tool_call 标签）
+          <AssistantText key={`text-${idx}`} content={filterToolCallTags(segment.content || '')} />
+        ) : segment.type === 'tool' && segment.tool ? (
+          // 工具调用片段
+          <ToolCallBlock
+            key={`tool-${segment.tool.id}`}
+            tool={segment.tool}
+            onApproval={onToolApproval ? (decision, alwaysAllow) => onToolApproval(segment.tool!, decision, alwaysAllow) : undefined}
+          />
+        ) : null
+      )}
+      {status === 'streaming' && (
+        <div className="mt-1">
+          <TypingDots />
+        </div>
+      )}
+      {status !== 'streaming' && <FilesTouchedSummary segments={segments} />}
+    </>
+  )
+}
+
+// 用户消息文本：终端录制链接渲染为可点击的链接（由 ChatPanel 打开播放器）
+function UserText({ text }: { text: string }) {
+  return (
+    <div className="whitespace-pre-wrap wrap-break-word">
+      {splitRecordingLinks(text).map((part, i) =>
+        typeof part === 'string' ? (
+          part
+        ) : (
+          <a key={i} href={`${RECORDING_LINK_PREFIX}${part.id}`} className="inline-flex items-center gap-1 underline underline-offset-2">
+            <Clapperboard className="size-3.5 shrink-0" />
+            {part.title}
+          </a>
+        )
+      )}
+    </div>
+  )
+}
+
+// 用户消息：@ 引用以标签、附件以卡片形式展示在文本下方
+function UserContent({ msg }: { msg: Message }) {
+  const { text, attachments, references } = splitMessageAttachments(msg.content)
+  if (attachments.length === 0 && references.length === 0) {
+    return <UserText text={msg.content} />
+  }
+  return (
+    <div className="space-y-2">
+      {text && <UserText text={text} />}
+      {references.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {references.map(ref => (
+            <span
+              key={ref.path}
+              className="flex items-center gap-0.5 max-w-full px-1.5 py-0.5 rounded-md bg-background/60 border border-border/40 text-xs font-mono"
+              title={ref.type === 'dir' ? '引用目录' : '引用文件'}
+            >
+              <AtSign className="size-3 shrink-0 text-primary" />
+              <span className="truncate">{ref.type === 'dir' ? `${ref.path}/` : ref.path}</span>
+            </span>
+          ))}
+        </div>
+      )}
+      {attachments.length > 0 && (
+        <div className="flex flex-col items-start gap-1.5">
+          {attachments.map((a, idx) => (
+            <AttachmentCard key={`${a.name}-${idx}`} attachment={a} previewUrl={msg.attachmentPreviews?.[a.name]} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function ChatMessageBubble({
+  msg,
+  branchNav,
+  actionsDisabled = false,
+  onEdit,
+  onSwitchBranch,
+  onRegenerate,
+  onFork,
+  onToolApproval,
+}: {
+  msg: Message
+  branchNav?: BranchNav
+  // 任务运行中禁用编辑/切换分支
+  actionsDisabled?: boolean
+  onEdit?: (content: string) => void
+  onSwitchBranch?: (branchId: string) => void
+  onRegenerate?: () => void
+  // 从该消息分叉出新会话
+  onFork?: () => void
+  // 审批模式：批准/拒绝等待中的工具调用
+  onToolApproval?: ToolApprovalHandler
+}) {
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+  // 正在查看的版本（null 为最新版本）与并排对比
+  const [variantIndex, setVariantIndex] = useState<number | null>(null)
+  const [compare, setCompare] = useState(false)
+
+  // 所有生成版本：旧版本在前，当前（最新）在最后
+  const versions = [
+    ...(msg.variants || []),
+    { content: msg.content, segments: msg.segments, status: msg.status, timestamp: msg.timestamp },
+  ]
+  const latestIndex = versions.length - 1
+  const shownIndex = variantIndex === null ? latestIndex : Math.min(variantIndex, latestIndex)
+  // 并排对比时左侧为选中的旧版本（选中最新时取上一个）
+  const compareIndex = shownIndex === latestIndex ? latestIndex - 1 : shownIndex
+  const comparing = compare && versions.length > 1
+
+  function startEdit() {
+    setDraft(msg.content)
+    setEditing(true)
+  }
+
+  function submitEdit() {
+    if (!draft.trim()) return
+    setEditing(false)
+    onEdit?.(draft)
+  }
+
+  if (editing) {
+    return (
+      <div className="flex gap-4 max-w-3xl mx-auto justify-end">
+        <div className="flex-1 max-w-[85%] rounded-2xl border border-border bg-background p-3 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setEditing(false)
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && !e.nativeEvent.isComposing) {
+                e.preventDefault()
+                submitEdit()
+              }
+            }}
+            autoFocus
+            rows={Math.min(10, Math.max(2, draft.split('\n').length))}
+            className="w-full resize-none bg-transparent text-sm leading-relaxed outline-none"
+          />
+          <div className="flex items-center justify-end gap-2 text-xs">
+            <span className="flex-1 text-muted-foreground">之后的对话将保留为分支</span>
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="px-3 py-1.5 rounded-lg hover:bg-muted transition-colors"
+            >
+              取消
+            </button>
+            <button
+              type="button"
+              onClick={submitEdit}
+              disabled={!draft.trim() || actionsDisabled}
+              className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              重新运行
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
 
-export default function ChatMessageBubble({ msg }: { msg: Message }) {
   return (
     <div
       className={cn(
-        'flex gap-4 max-w-3xl mx-auto',
+        'flex gap-4 mx-auto',
+        comparing ? 'max-w-6xl' : 'max-w-3xl',
         msg.role === 'user' ? 'justify-end' : 'justify-start'
       )}
     >
-      <div className={cn('flex-1', msg.role === 'user' ? 'max-w-[85%] flex justify-end' : 'max-w-full')}>
+      <div
+        className={cn(
+          'flex-1',
+          msg.role === 'user' ? 'max-w-[85%] flex flex-col items-end gap-1 group/user' : 'max-w-full'
+        )}
+      >
         <div
           className={cn(
             'px-0 py-2 text-sm leading-relaxed',
@@ -26,31 +241,152 @@ export default function ChatMessageBubble({ msg }: { msg: Message }) {
         >
           {/* 按顺序渲染内容片段 */}
           {msg.role === 'user' ? (
-            // 用户消息：简单文本
-            <div className="whitespace-pre-wrap wrap-break-word">{msg.content}</div>
-          ) : msg.segments.length === 0 && msg.status === 'streaming' ? (
-            // 正在等待响应
-            <TypingDots />
+            // 用户消息：文本 + 附件卡片
+            <UserContent msg={msg} />
+          ) : comparing ? (
+            // 并排对比两个版本
+            <div className="grid grid-cols-2 gap-4">
+              {[compareIndex, latestIndex].map(i => (
+                <div key={i} className="min-w-0 rounded-xl border border-border/40 p-3">
+                  <div className="mb-2 text-xs text-muted-foreground">
+                    版本 {i + 1}{i === latestIndex && '（最新）'}
+                  </div>
+                  <AssistantSegments segments={versions[i].segments} status={versions[i].status} />
+                </div>
+              ))}
+            </div>
           ) : (
-            // 助手消息：按片段渲染
             <>
-              {msg.segments.map((segment, idx) =>
-                segment.type === 'text' ? (
-                  // 文本片段：使用 Markdown 渲染（过滤掉 tool_call 标签）
-                  <MarkdownRenderer key={`text-${idx}`} content={filterToolCallTags(segment.content || '')} />
-                ) : segment.type === 'tool' && segment.tool ? (
-                  // 工具调用片段
-                  <ToolCallBlock key={`tool-${segment.tool.id}`} tool={segment.tool} />
-                ) : null
-              )}
-              {msg.role === 'assistant' && msg.status === 'streaming' && (
-                <div className="mt-1">
-                  <TypingDots />
-                </div>
-              )}
+              <AssistantSegments
+                segments={versions[shownIndex].segments}
+                status={versions[shownIndex].status}
+                onToolApproval={shownIndex === latestIndex ? onToolApproval : undefined}
+              />
+              {/* 时间信息只记录在当前版本上 */}
+              {shownIndex === latestIndex && <ToolTimeline msg={msg} />}
             </>
           )}
         </div>
+
+        {/* 助手消息操作：重新生成、切换版本、并排对比 */}
+        {msg.role === 'assistant' && msg.status !== 'streaming' && (onRegenerate || onFork || versions.length > 1) && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            {versions.length > 1 && (
+              <>
+                <div className="flex items-center">
+                  <button
+                    type="button"
+                    onClick={() => setVariantIndex(Math.max(0, shownIndex - 1))}
+                    disabled={shownIndex === 0}
+                    className="p-0.5 rounded hover:bg-muted transition-colors disabled:opacity-30"
+                    title="上一个版本"
+                  >
+                    <ChevronLeft className="size-3.5" />
+                  </button>
+                  <span className="tabular-nums">
+                    {shownIndex + 1}/{versions.length}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setVariantIndex(shownIndex + 1 >= latestIndex ? null : shownIndex + 1)}
+                    disabled={shownIndex === latestIndex}
+                    className="p-0.5 rounded hover:bg-muted transition-colors disabled:opacity-30"
+                    title="下一个版本"
+                  >
+                    <ChevronRight className="size-3.5" />
+                  </button>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setCompare(v => !v)}
+                  className={cn('p-1 rounded hover:bg-muted transition-colors', comparing && 'text-primary')}
+                  title={comparing ? '退出对比' : '与最新版本并排对比'}
+                >
+                  <Columns2 className="size-3.5" />
+                </button>
+              </>
+            )}
+            {onRegenerate && (
+              <button
+                type="button"
+                onClick={() => {
+                  setVariantIndex(null)
+                  onRegenerate()
+                }}
+                disabled={actionsDisabled}
+                className="p-1 rounded hover:bg-muted transition-colors disabled:opacity-30"
+                title="重新生成"
+              >
+                <RotateCcw className="size-3.5" />
+              </button>
+            )}
+            {onFork && (
+              <button
+                type="button"
+                onClick={onFork}
+                className="p-1 rounded hover:bg-muted transition-colors"
+                title="从这里分叉新会话"
+              >
+                <GitFork className="size-3.5" />
+              </button>
+            )}
+            {shownIndex !== latestIndex && !comparing && (
+              <span className="ml-1 text-muted-foreground/70">后续对话基于最新版本</span>
+            )}
+          </div>
+        )}
+
+        {/* 用户消息操作：编辑并重新运行、切换分支 */}
+        {msg.role === 'user' && (onEdit || onFork || branchNav) && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            {branchNav && (
+              <div className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => branchNav.prevBranchId && onSwitchBranch?.(branchNav.prevBranchId)}
+                  disabled={!branchNav.prevBranchId || actionsDisabled}
+                  className="p-0.5 rounded hover:bg-muted transition-colors disabled:opacity-30"
+                  title="上一个版本"
+                >
+                  <ChevronLeft className="size-3.5" />
+                </button>
+                <span className="tabular-nums">
+                  {branchNav.index + 1}/{branchNav.total}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => branchNav.nextBranchId && onSwitchBranch?.(branchNav.nextBranchId)}
+                  disabled={!branchNav.nextBranchId || actionsDisabled}
+                  className="p-0.5 rounded hover:bg-muted transition-colors disabled:opacity-30"
+                  title="下一个版本"
+                >
+                  <ChevronRight className="size-3.5" />
+                </button>
+              </div>
+            )}
+            {onEdit && (
+              <button
+                type="button"
+                onClick={startEdit}
+                disabled={actionsDisabled}
+                className="p-1 rounded hover:bg-muted transition-colors opacity-0 group-hover/user:opacity-100 disabled:hidden"
+                title="编辑并重新运行"
+              >
+                <Pencil className="size-3" />
+              </button>
+            )}
+            {onFork && (
+              <button
+                type="button"
+                onClick={onFork}
+                className="p-1 rounded hover:bg-muted transition-colors opacity-0 group-hover/user:opacity-100"
+                title="从这里分叉新会话"
+              >
+                <GitFork className="size-3" />
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,381 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronsUpDown, Columns2, FileDiff as FileDiffIcon, Rows2 } from 'lucide-react'
+import { highlightLines, languageForPath } from '../MarkdownRenderer'
+import { cn } from '../../utils/cn'
+import { diffStats, type DiffLine, type FileDiff } from './lineDiff'
+
+type DiffMode = 'unified' | 'split'
+
+const MODE_KEY = 'ineffable_diff_mode'
+
+// 改动前后保留的未改动行数，更长的未改动段折叠
+const CONTEXT_LINES = 3
+
+function loadMode(): DiffMode {
+  try {
+    return localStorage.getItem(MODE_KEY) === 'split' ? 'split' : 'unified'
+  } catch {
+    return 'unified'
+  }
+}
+
+// 带高亮 HTML 的行
+interface RenderedLine extends DiffLine {
+  html: string
+}
+
+type HunkRow =
+  | { kind: 'line'; line: RenderedLine }
+  | { kind: 'collapsed'; id: string; lines: RenderedLine[] }
+
+// 分别高亮旧/新两侧（多行注释等跨行语法在各自一侧连续）
+function renderFileLines(file: FileDiff): RenderedLine[][] {
+  const language = languageForPath(file.path)
+  const all = file.hunks.flatMap(h => h.lines)
+  const oldHtml = highlightLines(all.filter(l => l.type !== 'add').map(l => l.content).join('\n'), language)
+  const newHtml = highlightLines(all.filter(l => l.type !== 'remove').map(l => l.content).join('\n'), language)
+
+  let oi = 0
+  let ni = 0
+  return file.hunks.map(hunk => hunk.lines.map(line => {
+    if (line.type === 'remove') return { ...line, html: oldHtml[oi++] ?? '' }
+    if (line.type === 'add') return { ...line, html: newHtml[ni++] ?? '' }
+    oi++
+    return { ...line, html: newHtml[ni++] ?? '' }
+  }))
+}
+
+// 折叠较长的未改动段：只保留改动前后各 CONTEXT_LINES 行
+function buildRows(lines: RenderedLine[], keyPrefix: string, expanded: Set<string>): HunkRow[] {
+  const rows: HunkRow[] = []
+  let i = 0
+  while (i < lines.length) {
+    if (lines[i].type !== 'context') {
+      rows.push({ kind: 'line', line: lines[i++] })
+      continue
+    }
+    let end = i
+    while (end < lines.length && lines[end].type === 'context') end++
+
+    const keepHead = i === 0 ? 0 : CONTEXT_LINES
+    const keepTail = end === lines.length ? 0 : CONTEXT_LINES
+    const id = `${keyPrefix}-${i}`
+    if (end - i > keepHead + keepTail + 1 && !expanded.has(id)) {
+      lines.slice(i, i + keepHead).forEach(line => rows.push({ kind: 'line', line }))
+      rows.push({ kind: 'collapsed', id, lines: lines.slice(i + keepHead, end - keepTail) })
+      lines.slice(end - keepTail, end).forEach(line => rows.push({ kind: 'line', line }))
+    } else {
+      lines.slice(i, end).forEach(line => rows.push({ kind: 'line', line }))
+    }
+    i = end
+  }
+  return rows
+}
+
+const LINE_BG: Record<DiffLine['type'], string> = {
+  context: '',
+  add: 'bg-green-500/10',
+  remove: 'bg-red-500/10',
+}
+
+const MARKERS: Record<DiffLine['type'], string> = {
+  context: ' ',
+  add: '+',
+  remove: '-',
+}
+
+function LineNumber({ value }: { value?: number }) {
+  return <td className="w-px px-2 text-right select-none text-muted-foreground/50 align-top">{value ?? ''}</td>
+}
+
+function Marker({ type }: { type: DiffLine['type'] }) {
+  return (
+    <td className={cn('w-px pl-1 select-none align-top', type === 'add' && 'text-green-400', type === 'remove' && 'text-red-400')}>
+      {MARKERS[type]}
+    </td>
+  )
+}
+
+function Code({ line, className }: { line?: RenderedLine; className?: string }) {
+  return <td className={cn('pl-1 pr-3 whitespace-pre', className)} dangerouslySetInnerHTML={{ __html: line?.html || ' ' }} />
+}
+
+function CollapsedRow({ count, colSpan, onExpand }: { count: number; colSpan: number; onExpand: () => void }) {
+  return (
+    <tr>
+      <td colSpan={colSpan} className="p-0">
+        <button
+          type="button"
+          onClick={onExpand}
+          className="w-full flex items-center justify-center gap-1 py-0.5 text-[11px] text-muted-foreground bg-muted/30 hover:bg-muted/60 hover:text-foreground transition-colors"
+        >
+          <ChevronsUpDown className="size-3" />
+          展开 {count} 行未改动
+        </button>
+      </td>
+    </tr>
+  )
+}
+
+function UnifiedRows({ rows, onExpand }: { rows: HunkRow[]; onExpand: (id: string) => void }) {
+  return (
+    <>
+      {rows.map((row, i) =>
+        row.kind === 'collapsed' ? (
+          <CollapsedRow key={row.id} count={row.lines.length} colSpan={4} onExpand={() => onExpand(row.id)} />
+        ) : (
+          <tr key={i} className={LINE_BG[row.line.type]}>
+            <LineNumber value={row.line.oldLine} />
+            <LineNumber value={row.line.newLine} />
+            <Marker type={row.line.type} />
+            <Code line={row.line} />
+          </tr>
+        )
+      )}
+    </>
+  )
+}
+
+// 并排：连续的删除行与新增行逐行配对
+function SplitRows({ rows, onExpand }: { rows: HunkRow[]; onExpand: (id: string) => void }) {
+  const out: JSX.Element[] = []
+  let i = 0
+  while (i < rows.length) {
+    const row = rows[i]
+    if (row.kind === 'collapsed') {
+      out.push(<CollapsedRow key={row.id} count={row.lines.length} colSpan={6} onExpand={() => onExpand(row.id)} />)
+      i++
+      continue
+    }
+    if (row.line.type === 'context') {
+      out.push(
+        <tr key={i}>
+          <LineNumber value={row.line.oldLine} />
+          <Marker type="context" />
+          <Code line={row.line} className="w-1/2" />
+          <LineNumber value={row.line.newLine} />
+          <Marker type="context" />
+          <Code line={row.line} className="w-1/2" />
+        </tr>
+      )
+      i++
+      continue
+    }
+
+    const removed: RenderedLine[] = []
+    const added: RenderedLine[] = []
+    const start = i
+    for (let r = rows[i]; r?.kind === 'line' && r.line.type === 'remove'; r = rows[++i]) removed.push(r.line)
+    for (let r = rows[i]; r?.kind === 'line' && r.line.type === 'add'; r = rows[++i]) added.push(r.line)
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k]
+      const right = added[k]
+      out.push(
+        <tr key={`${start}-${k}`}>
+          <LineNumber value={left?.oldLine} />
+          {left ? <Marker type="remove" /> : <td />}
+          <Code line={left} className={cn('w-1/2', left ? LINE_BG.remove : 'bg-muted/20')} />
+          <LineNumber value={right?.newLine} />
+          {right ? <Marker type="add" /> : <td />}
+          <Code line={right} className={cn('w-1/2', right ? LINE_BG.add : 'bg-muted/20')} />
+        </tr>
+      )
+    }
+  }
+  return <>{out}</>
+}
+
+function FileSection({
+  file,
+  index,
+  mode,
+  showHeader,
+  sectionRef,
+}: {
+  file: FileDiff
+  index: number
+  mode: DiffMode
+  showHeader: boolean
+  sectionRef: (el: HTMLDivElement | null) => void
+}) {
+  const [collapsed, setCollapsed] = useState(false)
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set())
+  const rendered = useMemo(() => renderFileLines(file), [file])
+  const stats = useMemo(() => diffStats([file]), [file])
+
+  const expand = (id: string) => setExpanded(prev => new Set(prev).add(id))
+
+  return (
+    <div ref={sectionRef} className="border-b border-border/40 last:border-b-0">
+      {showHeader && (
+        <button
+          type="button"
+          onClick={() => setCollapsed(v => !v)}
+          className="sticky top-0 z-1 w-full flex items-center gap-2 px-3 py-1.5 text-xs bg-muted/80 backdrop-blur hover:bg-muted text-left"
+        >
+          {collapsed ? <ChevronRight className="size-3 shrink-0" /> : <ChevronDown className="size-3 shrink-0" />}
+          <span className="flex-1 min-w-0 truncate font-mono">{file.path || '（未知文件）'}</span>
+          <span className="shrink-0 text-green-500">+{stats.added}</span>
+          <span className="shrink-0 text-red-500">-{stats.removed}</span>
+        </button>
+      )}
+      {!collapsed && (
+        <div className="hljs overflow-x-auto text-xs font-mono">
+          <table className="w-full border-collapse">
+            <tbody>
+              {file.hunks.map((hunk, h) => {
+                const rows = buildRows(rendered[h], `${index}-${h}`, expanded)
+                return [
+                  hunk.header && (
+                    <tr key={`header-${h}`} className="bg-blue-500/10 text-muted-foreground">
+                      <td colSpan={mode === 'split' ? 6 : 4} className="px-3 py-0.5 whitespace-pre">{hunk.header}</td>
+                    </tr>
+                  ),
+                  // 多个计算出的改动之间用分隔行隔开
+                  !hunk.header && h > 0 && (
+                    <tr key={`sep-${h}`}>
+                      <td colSpan={mode === 'split' ? 6 : 4} className="h-2 bg-muted/30" />
+                    </tr>
+                  ),
+                  mode === 'split' ? (
+                    <SplitRows key={`rows-${h}`} rows={rows} onExpand={expand} />
+                  ) : (
+                    <UnifiedRows key={`rows-${h}`} rows={rows} onExpand={expand} />
+                  ),
+                ]
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// diff 查看器：统一/并排模式、语法高亮、折叠未改动段、多文件导航
+export default function DiffViewer({
+  files,
+  initialPath,
+  className,
+}: {
+  files: FileDiff[]
+  // 打开时定位到的文件
+  initialPath?: string
+  className?: string
+}) {
+  const [mode, setMode] = useState<DiffMode>(loadMode)
+  const [current, setCurrent] = useState(() => Math.max(0, files.findIndex(f => f.path === initialPath)))
+  const scrollRef = useRef<HTMLDivElement | null>(null)
+  const sectionRefs = useRef<Array<HTMLDivElement | null>>([])
+  const stats = useMemo(() => diffStats(files), [files])
+  const multiFile = files.length > 1
+  const showHeaders = multiFile || Boolean(files[0]?.path)
+
+  function changeMode(next: DiffMode) {
+    setMode(next)
+    try {
+      localStorage.setItem(MODE_KEY, next)
+    } catch {
+      // 忽略存储失败
+    }
+  }
+
+  function goTo(index: number) {
+    const target = Math.min(Math.max(index, 0), files.length - 1)
+    setCurrent(target)
+    const container = scrollRef.current
+    const section = sectionRefs.current[target]
+    if (container && section) container.scrollTop = section.offsetTop
+  }
+
+  // 打开时定位到指定文件
+  useEffect(() => {
+    if (current > 0) goTo(current)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  if (files.length === 0) {
+    return <div className="px-3 py-2 text-xs text-muted-foreground">没有改动</div>
+  }
+
+  return (
+    <div className={cn('flex flex-col rounded-md border border-border/40 overflow-hidden', className)}>
+      <div className="flex-none flex items-center gap-2 px-2 py-1 text-xs bg-muted/40 border-b border-border/40">
+        <FileDiffIcon className="size-3.5 shrink-0 text-muted-foreground" />
+        {multiFile ? (
+          <>
+            <button
+              type="button"
+              onClick={() => goTo(current - 1)}
+              disabled={current === 0}
+              className="p-0.5 rounded hover:bg-muted disabled:opacity-30"
+              title="上一个文件"
+            >
+              <ChevronLeft className="size-3.5" />
+            </button>
+            <select
+              value={current}
+              onChange={e => goTo(Number(e.target.value))}
+              className="min-w-0 flex-1 bg-transparent font-mono truncate focus:outline-none"
+            >
+              {files.map((file, i) => {
+                const s = diffStats([file])
+                return (
+                  <option key={i} value={i}>
+                    {file.path || '（未知文件）'}  +{s.added} -{s.removed}
+                  </option>
+                )
+              })}
+            </select>
+            <button
+              type="button"
+              onClick={() => goTo(current + 1)}
+              disabled={current === files.length - 1}
+              className="p-0.5 rounded hover:bg-muted disabled:opacity-30"
+              title="下一个文件"
+            >
+              <ChevronRight className="size-3.5" />
+            </button>
+            <span className="shrink-0 text-muted-foreground">{current + 1}/{files.length}</span>
+          </>
+        ) : (
+          <span className="flex-1" />
+        )}
+        <span className="shrink-0 text-green-500">+{stats.added}</span>
+        <span className="shrink-0 text-red-500">-{stats.removed}</span>
+        <div className="flex items-center rounded-md bg-background/60 p-0.5">
+          <button
+            type="button"
+            onClick={() => changeMode('unified')}
+            className={cn('p-0.5 rounded', mode === 'unified' ? 'bg-muted text-foreground' : 'text-muted-foreground hover:text-foreground')}
+            title="统一视图"
+          >
+            <Rows2 className="size-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => changeMode('split')}
+            className={cn('p-0.5 rounded', mode === 'split' ? 'bg-muted text-foreground' : 'text-muted-foreground hover:text-foreground')}
+            title="并排视图"
+          >
+            <Columns2 className="size-3.5" />
+          </button>
+        </div>
+      </div>
+      <div ref={scrollRef} className="relative flex-1 min-h-0 overflow-y-auto">
+        {files.map((file, i) => (
+          <FileSection
+            key={`${file.path}-${i}`}
+            file={file}
+            index={i}
+            mode={mode}
+            showHeader={showHeaders}
+            sectionRef={el => {
+              sectionRefs.current[i] = el
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
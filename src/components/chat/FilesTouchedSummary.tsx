@@ -0,0 +1,54 @@
+import { useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, FilePen } from 'lucide-react'
+import DiffViewer from './DiffViewer'
+import { collectFileChanges } from './fileChanges'
+import { diffStats } from './lineDiff'
+import type { ContentSegment } from './types'
+
+// assistant 消息末尾：本条消息修改的所有文件，点击文件打开 diff
+export default function FilesTouchedSummary({ segments }: { segments: ContentSegment[] }) {
+  const files = useMemo(() => collectFileChanges(segments), [segments])
+  const stats = useMemo(() => diffStats(files), [files])
+  const [openPath, setOpenPath] = useState<string | null>(null)
+
+  if (files.length === 0) return null
+
+  return (
+    <div className="mt-3 rounded-lg border border-border/50 bg-muted/20 text-xs">
+      <button
+        type="button"
+        onClick={() => setOpenPath(openPath === null ? files[0].path : null)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-muted-foreground hover:bg-muted/40 transition-colors"
+      >
+        {openPath === null ? <ChevronRight className="size-3" /> : <ChevronDown className="size-3" />}
+        <FilePen className="size-3.5" />
+        <span className="flex-1 text-left">修改了 {files.length} 个文件</span>
+        <span className="text-green-500">+{stats.added}</span>
+        <span className="text-red-500">-{stats.removed}</span>
+      </button>
+      <div className="flex flex-wrap gap-1.5 px-3 pb-2">
+        {files.map(file => {
+          const s = diffStats([file])
+          return (
+            <button
+              key={file.path}
+              type="button"
+              onClick={() => setOpenPath(file.path)}
+              className="flex items-center gap-1 max-w-full px-1.5 py-0.5 rounded-md bg-background/60 border border-border/40 font-mono hover:bg-muted transition-colors"
+            >
+              <span className="truncate">{file.path || '（未知文件）'}</span>
+              <span className="text-green-500">+{s.added}</span>
+              <span className="text-red-500">-{s.removed}</span>
+            </button>
+          )
+        })}
+      </div>
+      {openPath !== null && (
+        // 切换文件时重新挂载，定位到选中的文件
+        <div className="px-3 pb-3">
+          <DiffViewer key={openPath} files={files} initialPath={openPath} className="max-h-[32rem]" />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,411 @@
+import { useMemo, useRef, useState } from 'react'
+import { ArrowLeft, Download, Globe, Pencil, Pin, Plus, Search, Server as ServerIcon, Trash2, Upload, X } from 'lucide-react'
+import { cn } from '../../utils/cn'
+import type { PromptTemplate } from '../../types'
+import {
+  addPromptTemplate,
+  exportPromptTemplates,
+  extractTemplateVariables,
+  fillTemplate,
+  getAvailablePromptTemplates,
+  importPromptTemplates,
+  removePromptTemplate,
+  updatePromptTemplate,
+} from '../../api/prompts'
+import { downloadText } from './exportMarkdown'
+
+type Scope = 'global' | 'server' | 'service'
+
+function scopeOf(template: PromptTemplate): Scope {
+  if (!template.serverId) return 'global'
+  return template.serviceId ? 'service' : 'server'
+}
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  global: '全局',
+  server: '当前服务器',
+  service: '固定到当前服务',
+}
+
+type View =
+  | { type: 'list' }
+  | { type: 'edit'; template?: PromptTemplate }
+  | { type: 'fill'; template: PromptTemplate; variables: string[] }
+
+// 提示词模板库：按服务器/全局范围管理模板，带 {{变量}} 的模板先填写表单再插入或发送；
+// 固定到其他服务的模板先切换到该服务（新建会话）再插入或发送
+export default function PromptLibrary({
+  serverId,
+  serviceId,
+  serviceName,
+  canSend,
+  onInsert,
+  onSend,
+  onRunOnService,
+  onClose,
+}: {
+  serverId: string
+  serviceId: string
+  serviceName: string
+  canSend: boolean
+  onInsert: (text: string) => void
+  onSend: (text: string) => void
+  /** 在固定的服务中插入（send 为 false）或发送 */
+  onRunOnService: (serviceId: string, text: string, send: boolean) => void
+  onClose: () => void
+}) {
+  const importInputRef = useRef<HTMLInputElement | null>(null)
+  const [templates, setTemplates] = useState(() => getAvailablePromptTemplates(serverId))
+  const [query, setQuery] = useState('')
+  const [view, setView] = useState<View>({ type: 'list' })
+  const [name, setName] = useState('')
+  const [content, setContent] = useState('')
+  const [scope, setScope] = useState<Scope>('global')
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase()
+    const list = q
+      ? templates.filter(t => t.name.toLowerCase().includes(q) || t.content.toLowerCase().includes(q))
+      : templates
+    // 固定到当前服务的模板排在前面
+    return [...list].sort((a, b) => Number(b.serviceId === serviceId) - Number(a.serviceId === serviceId))
+  }, [templates, query, serviceId])
+
+  function reload() {
+    setTemplates(getAvailablePromptTemplates(serverId))
+  }
+
+  // 固定到其他服务的模板的目标服务
+  function pinnedElsewhere(template: PromptTemplate): string | undefined {
+    return template.serviceId && template.serviceId !== serviceId ? template.serviceId : undefined
+  }
+
+  function insert(template: PromptTemplate, text: string) {
+    const target = pinnedElsewhere(template)
+    if (target) onRunOnService(target, text, false)
+    else onInsert(text)
+  }
+
+  function send(template: PromptTemplate, text: string) {
+    const target = pinnedElsewhere(template)
+    if (target) onRunOnService(target, text, true)
+    else onSend(text)
+  }
+
+  function openEditor(template?: PromptTemplate) {
+    setName(template?.name || '')
+    setContent(template?.content || '')
+    setScope(template ? scopeOf(template) : 'global')
+    setView({ type: 'edit', template })
+  }
+
+  function handleSave() {
+    if (!name.trim() || !content.trim() || view.type !== 'edit') return
+    const data = {
+      name: name.trim(),
+      content,
+      serverId: scope === 'global' ? undefined : serverId,
+      // 编辑固定到其他服务的模板时保留原来的目标服务
+      serviceId: scope === 'service' ? pinTarget.id : undefined,
+      serviceName: scope === 'service' ? pinTarget.name : undefined,
+    }
+    if (view.template) {
+      updatePromptTemplate(view.template.id, data)
+    } else {
+      addPromptTemplate(data)
+    }
+    reload()
+    setView({ type: 'list' })
+  }
+
+  function handleDelete(template: PromptTemplate) {
+    if (!confirm(`确定删除模板「${template.name}」？`)) return
+    removePromptTemplate(template.id)
+    reload()
+  }
+
+  function handlePick(template: PromptTemplate) {
+    const variables = extractTemplateVariables(template.content)
+    if (variables.length === 0) {
+      insert(template, template.content)
+      return
+    }
+    setValues(Object.fromEntries(variables.map(v => [v, ''])))
+    setView({ type: 'fill', template, variables })
+  }
+
+  async function handleImport(file: File) {
+    try {
+      const count = importPromptTemplates(await file.text())
+      reload()
+      alert(`已导入 ${count} 个模板`)
+    } catch (err) {
+      alert(`导入失败: ${(err as Error).message}`)
+    }
+  }
+
+  function handleExport() {
+    downloadText('prompts.json', exportPromptTemplates(templates), 'application/json')
+  }
+
+  const filled = view.type === 'fill' ? fillTemplate(view.template.content, values) : ''
+  const missing = view.type === 'fill' && view.variables.some(v => !values[v]?.trim())
+  // 填写中的模板固定到其他服务时的服务名
+  const fillTarget = view.type === 'fill' && pinnedElsewhere(view.template) ? view.template.serviceName || '固定的服务' : null
+  // 编辑器中“固定”的目标：已固定的模板保留原服务，否则为当前服务
+  const editing = view.type === 'edit' ? view.template : undefined
+  const pinTarget = editing?.serviceId
+    ? { id: editing.serviceId, name: editing.serviceName }
+    : { id: serviceId, name: serviceName }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-popover border border-border rounded-xl p-4 w-[32rem] max-w-[calc(100vw-2rem)] max-h-[80vh] flex flex-col shadow-xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 mb-3">
+          {view.type !== 'list' && (
+            <button
+              onClick={() => setView({ type: 'list' })}
+              className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+              title="返回"
+            >
+              <ArrowLeft className="size-4" />
+            </button>
+          )}
+          <h3 className="font-semibold flex-1 truncate">
+            {view.type === 'list' && '提示词模板'}
+            {view.type === 'edit' && (view.template ? '编辑模板' : '新建模板')}
+            {view.type === 'fill' && view.template.name}
+          </h3>
+          {view.type === 'list' && (
+            <>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+                title="导入 JSON"
+              >
+                <Upload className="size-4" />
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={templates.length === 0}
+                className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors disabled:opacity-40"
+                title="导出 JSON"
+              >
+                <Download className="size-4" />
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) void handleImport(file)
+                  e.target.value = ''
+                }}
+              />
+            </>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+            title="关闭"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+
+        {view.type === 'list' && (
+          <>
+            <div className="flex items-center gap-2 mb-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 size-3.5 text-muted-foreground" />
+                <input
+                  type="text"
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  placeholder="搜索模板"
+                  className="w-full pl-8 pr-3 py-2 bg-muted rounded-lg text-sm border-none focus:ring-1 focus:ring-primary"
+                  autoFocus
+                />
+              </div>
+              <button
+                onClick={() => openEditor()}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+              >
+                <Plus className="size-4" />
+                新建
+              </button>
+            </div>
+            <div className="flex-1 min-h-0 overflow-y-auto -mx-1">
+              {filtered.length === 0 ? (
+                <div className="px-3 py-6 text-center text-sm text-muted-foreground">
+                  {templates.length === 0 ? '还没有模板，使用 {{变量}} 创建可复用的提示词' : '没有匹配的模板'}
+                </div>
+              ) : (
+                filtered.map(template => {
+                  const templateScope = scopeOf(template)
+                  const variables = extractTemplateVariables(template.content)
+                  return (
+                    <div
+                      key={template.id}
+                      className="group flex items-start gap-2 px-3 py-2 mx-1 rounded-lg hover:bg-muted cursor-pointer"
+                      onClick={() => handlePick(template)}
+                    >
+                      {templateScope === 'global' && <Globe className="size-3.5 mt-0.5 shrink-0 text-muted-foreground" />}
+                      {templateScope === 'server' && <ServerIcon className="size-3.5 mt-0.5 shrink-0 text-muted-foreground" />}
+                      {templateScope === 'service' && <Pin className="size-3.5 mt-0.5 shrink-0 text-primary" />}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-1.5">
+                          <span className="text-sm truncate">{template.name}</span>
+                          {pinnedElsewhere(template) && (
+                            <span className="shrink-0 text-[10px] text-primary">→ {template.serviceName || '其他服务'}</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">{template.content}</div>
+                        {variables.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {variables.map(v => (
+                              <span key={v} className="px-1.5 py-0.5 rounded bg-background/60 text-[10px] font-mono text-muted-foreground">
+                                {v}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            openEditor(template)
+                          }}
+                          className="p-1 text-muted-foreground hover:text-foreground rounded"
+                          title="编辑"
+                        >
+                          <Pencil className="size-3.5" />
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleDelete(template)
+                          }}
+                          className="p-1 text-muted-foreground hover:text-destructive rounded"
+                          title="删除"
+                        >
+                          <Trash2 className="size-3.5" />
+                        </button>
+                      </div>
+                    </div>
+                  )
+                })
+              )}
+            </div>
+          </>
+        )}
+
+        {view.type === 'edit' && (
+          <div className="space-y-3 overflow-y-auto">
+            <div>
+              <label className="text-xs text-muted-foreground">名称</label>
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="代码审查"
+                className="w-full mt-1 px-3 py-2 bg-muted rounded-lg text-sm border-none focus:ring-1 focus:ring-primary"
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground">内容（使用 {'{{变量}}'} 作为占位符）</label>
+              <textarea
+                value={content}
+                onChange={e => setContent(e.target.value)}
+                placeholder={'审查 {{文件}} 中的改动，重点关注 {{关注点}}'}
+                rows={6}
+                className="w-full mt-1 px-3 py-2 bg-muted rounded-lg text-sm border-none focus:ring-1 focus:ring-primary resize-y font-mono"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground">适用范围</label>
+              <div className="flex gap-2 mt-1">
+                {(Object.keys(SCOPE_LABELS) as Scope[]).map(s => (
+                  <button
+                    key={s}
+                    onClick={() => setScope(s)}
+                    className={cn(
+                      'flex-1 px-2 py-2 rounded-lg text-xs transition-colors',
+                      scope === s ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'
+                    )}
+                  >
+                    {s === 'service' && pinTarget.id !== serviceId ? `固定到 ${pinTarget.name || '其他服务'}` : SCOPE_LABELS[s]}
+                  </button>
+                ))}
+              </div>
+              {scope === 'service' && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  在本服务器的其他服务中选用时，先切换到 {pinTarget.name || '固定的服务'}（新建会话）再插入或发送
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={() => setView({ type: 'list' })}
+                className="flex-1 px-3 py-2 rounded-lg text-sm bg-muted hover:bg-muted/80 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!name.trim() || !content.trim()}
+                className="flex-1 px-3 py-2 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        )}
+
+        {view.type === 'fill' && (
+          <div className="space-y-3 overflow-y-auto">
+            {view.variables.map((variable, i) => (
+              <div key={variable}>
+                <label className="text-xs text-muted-foreground">{variable}</label>
+                <textarea
+                  value={values[variable] || ''}
+                  onChange={e => setValues(prev => ({ ...prev, [variable]: e.target.value }))}
+                  rows={1}
+                  className="w-full mt-1 px-3 py-2 bg-muted rounded-lg text-sm border-none focus:ring-1 focus:ring-primary resize-y"
+                  autoFocus={i === 0}
+                />
+              </div>
+            ))}
+            <div>
+              <label className="text-xs text-muted-foreground">预览</label>
+              <pre className="mt-1 max-h-40 overflow-auto px-3 py-2 bg-muted/50 rounded-lg text-xs whitespace-pre-wrap">{filled}</pre>
+            </div>
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={() => insert(view.template, filled)}
+                className="flex-1 px-3 py-2 rounded-lg text-sm bg-muted hover:bg-muted/80 transition-colors"
+              >
+                {fillTarget ? `在 ${fillTarget} 中插入` : '插入输入框'}
+              </button>
+              <button
+                onClick={() => send(view.template, filled)}
+                disabled={missing || (!fillTarget && !canSend)}
+                className="flex-1 px-3 py-2 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {fillTarget ? `在 ${fillTarget} 中发送` : '发送'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
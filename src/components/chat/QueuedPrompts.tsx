@@ -0,0 +1,178 @@
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Clock, Paperclip, Pause, Pencil, Play, Trash2, X } from 'lucide-react'
+import type { QueuedPrompt } from './types'
+
+// 排队中的单条 prompt：以待发送的用户气泡展示，可编辑、调整顺序或移除
+function QueuedPromptBubble({
+  prompt,
+  index,
+  total,
+  onUpdate,
+  onRemove,
+  onMove,
+}: {
+  prompt: QueuedPrompt
+  index: number
+  total: number
+  onUpdate: (text: string) => void
+  onRemove: () => void
+  onMove: (offset: number) => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+
+  function submitEdit() {
+    if (!draft.trim() && prompt.attachments.length === 0) return
+    setEditing(false)
+    onUpdate(draft)
+  }
+
+  return (
+    <div className="group flex gap-4 max-w-3xl mx-auto justify-end">
+      <div className="flex flex-col items-end gap-1 max-w-[85%] min-w-0">
+        {editing ? (
+          <div className="w-full min-w-80 rounded-2xl border border-border bg-muted/40 p-2">
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                  e.preventDefault()
+                  submitEdit()
+                } else if (e.key === 'Escape') {
+                  setEditing(false)
+                }
+              }}
+              rows={3}
+              autoFocus
+              className="w-full bg-transparent border-none text-sm resize-y focus:ring-0 focus:outline-none"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setEditing(false)}
+                className="px-3 py-1 rounded-lg text-xs bg-muted hover:bg-muted/80 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                onClick={submitEdit}
+                className="px-3 py-1 rounded-lg text-xs bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="px-4 py-2.5 rounded-2xl border border-dashed border-border bg-muted/30 text-sm text-foreground/70">
+            <div className="whitespace-pre-wrap wrap-break-word">{prompt.text}</div>
+            {(prompt.attachments.length > 0 || prompt.references.length > 0) && (
+              <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+                <Paperclip className="size-3" />
+                {[...prompt.attachments.map(a => a.name), ...prompt.references.map(r => `@${r.path}`)].join('、')}
+              </div>
+            )}
+          </div>
+        )}
+        {!editing && (
+          <div className="flex items-center gap-1 text-[11px] text-muted-foreground">
+            <Clock className="size-3" />
+            <span>排队中 #{index + 1}</span>
+            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => onMove(-1)}
+                disabled={index === 0}
+                className="p-1 hover:text-foreground rounded disabled:opacity-30"
+                title="上移"
+              >
+                <ArrowUp className="size-3" />
+              </button>
+              <button
+                onClick={() => onMove(1)}
+                disabled={index === total - 1}
+                className="p-1 hover:text-foreground rounded disabled:opacity-30"
+                title="下移"
+              >
+                <ArrowDown className="size-3" />
+              </button>
+              <button
+                onClick={() => {
+                  setDraft(prompt.text)
+                  setEditing(true)
+                }}
+                className="p-1 hover:text-foreground rounded"
+                title="编辑"
+              >
+                <Pencil className="size-3" />
+              </button>
+              <button onClick={onRemove} className="p-1 hover:text-destructive rounded" title="移除">
+                <Trash2 className="size-3" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// 会话的待发送队列：任务完成后依次发送，失败/取消时暂停
+export default function QueuedPrompts({
+  queue,
+  paused,
+  sending,
+  onUpdate,
+  onRemove,
+  onMove,
+  onResume,
+  onClear,
+}: {
+  queue: QueuedPrompt[]
+  paused: boolean
+  sending: boolean
+  onUpdate: (id: string, text: string) => void
+  onRemove: (id: string) => void
+  onMove: (id: string, offset: number) => void
+  onResume: () => void
+  onClear: () => void
+}) {
+  if (queue.length === 0) return null
+
+  // 没有任务运行但队列未发送（暂停，或任务未正常结束）时可手动继续
+  const stalled = paused || !sending
+
+  return (
+    <div className="space-y-3">
+      {stalled && (
+        <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+          <Pause className="size-3" />
+          <span>{paused ? '上一个任务未完成，队列已暂停' : '队列等待发送'}</span>
+          <button
+            onClick={onResume}
+            className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-muted hover:bg-muted/80 text-foreground transition-colors"
+          >
+            <Play className="size-3" />
+            {sending ? '当前任务完成后继续' : '继续发送'}
+          </button>
+          <button
+            onClick={onClear}
+            className="flex items-center gap-1 px-2 py-0.5 rounded-md hover:bg-muted transition-colors"
+          >
+            <X className="size-3" />
+            清空队列
+          </button>
+        </div>
+      )}
+      {queue.map((prompt, index) => (
+        <QueuedPromptBubble
+          key={prompt.id}
+          prompt={prompt}
+          index={index}
+          total={queue.length}
+          onUpdate={text => onUpdate(prompt.id, text)}
+          onRemove={() => onRemove(prompt.id)}
+          onMove={offset => onMove(prompt.id, offset)}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import { Bug, Trash2, X } from 'lucide-react'
+import type { UnknownEventRecord } from './types'
+
+// 调试视图：展示无法识别的流事件（后端升级后事件名/字段变化时可及时发现）
+export default function StreamDebugPanel({
+  events,
+  onClear,
+  onClose,
+}: {
+  events: UnknownEventRecord[]
+  onClear: () => void
+  onClose: () => void
+}) {
+  return (
+    <div className="flex-none border-b border-border/40 bg-muted/20">
+      <div className="max-w-3xl mx-auto px-4 py-2">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Bug className="size-3.5" />
+          <span className="flex-1">未识别的流事件（{events.length}）</span>
+          <button
+            type="button"
+            onClick={onClear}
+            className="p-1 rounded hover:bg-muted transition-colors"
+            title="清空"
+          >
+            <Trash2 className="size-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 rounded hover:bg-muted transition-colors"
+            title="关闭"
+          >
+            <X className="size-3.5" />
+          </button>
+        </div>
+        <div className="mt-2 max-h-48 overflow-y-auto space-y-1 text-xs font-mono">
+          {events.length === 0 ? (
+            <div className="text-muted-foreground/60">暂无</div>
+          ) : (
+            events.map(ev => (
+              <div key={ev.id} className="p-1.5 rounded bg-background/60 border border-border/30">
+                <div className="flex items-center gap-2">
+                  <span className="text-foreground">{ev.event}</span>
+                  <span className="text-[10px] text-muted-foreground/60">
+                    {new Date(ev.receivedAt).toLocaleTimeString()}
+                  </span>
+                </div>
+                <pre className="whitespace-pre-wrap wrap-break-word text-muted-foreground">{JSON.stringify(ev.data, null, 2)}</pre>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,124 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { ChevronDown, ChevronRight, RefreshCw, Wrench } from 'lucide-react'
+import { Check, ChevronDown, ChevronRight, Pencil, RefreshCw, ShieldAlert, ShieldCheck, ShieldX, Wrench, X } from 'lucide-react'
+import type { ToolApprovalDecision } from '../../types'
 import type { ToolCall } from './types'
+import { getToolRenderer } from './tools'
 
-// MCP 工具调用块组件（可折叠，支持实时日志 / 最终输出）
-export default function ToolCallBlock({ tool }: { tool: ToolCall }) {
+type ApprovalHandler = (decision: ToolApprovalDecision, alwaysAllow?: boolean) => Promise<void>
+
+// 审批控制：批准 / 拒绝 / 修改参数后批准 / 始终允许该工具
+function ApprovalControls({ tool, onApproval }: { tool: ToolCall; onApproval: ApprovalHandler }) {
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const submitting = Boolean(tool.approval?.submitting)
+
+  async function decide(decision: ToolApprovalDecision, alwaysAllow = false) {
+    setError(null)
+    try {
+      await onApproval(decision, alwaysAllow)
+      setEditing(false)
+    } catch (err) {
+      setError(`提交失败: ${(err as Error).message}`)
+    }
+  }
+
+  function approveEdited() {
+    let args: unknown
+    try {
+      args = JSON.parse(draft)
+    } catch {
+      setError('参数不是有效的 JSON')
+      return
+    }
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      setError('参数必须是 JSON 对象')
+      return
+    }
+    void decide({ decision: 'approved', arguments: args as Record<string, unknown> })
+  }
+
+  return (
+    <div className="px-3 py-2 border-t border-border/30 bg-warning/5 space-y-2">
+      {editing && (
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          rows={Math.min(12, Math.max(3, draft.split('\n').length))}
+          className="w-full px-2 py-1.5 bg-background rounded-md text-xs font-mono border border-border/50 focus:ring-1 focus:ring-primary focus:outline-none resize-y"
+          autoFocus
+        />
+      )}
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        {editing ? (
+          <>
+            <button
+              onClick={approveEdited}
+              disabled={submitting}
+              className="flex items-center gap-1 px-2 py-1 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              <Check className="size-3" />
+              以新参数批准
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              disabled={submitting}
+              className="px-2 py-1 rounded-md bg-muted hover:bg-muted/80 transition-colors disabled:opacity-50"
+            >
+              取消
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => void decide({ decision: 'approved' })}
+              disabled={submitting}
+              className="flex items-center gap-1 px-2 py-1 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              <Check className="size-3" />
+              批准
+            </button>
+            <button
+              onClick={() => void decide({ decision: 'denied', reason: '用户拒绝了该工具调用' })}
+              disabled={submitting}
+              className="flex items-center gap-1 px-2 py-1 rounded-md bg-destructive/10 text-destructive hover:bg-destructive/20 transition-colors disabled:opacity-50"
+            >
+              <X className="size-3" />
+              拒绝
+            </button>
+            <button
+              onClick={() => {
+                setDraft(JSON.stringify(tool.arguments ?? {}, null, 2))
+                setError(null)
+                setEditing(true)
+              }}
+              disabled={submitting}
+              className="flex items-center gap-1 px-2 py-1 rounded-md bg-muted hover:bg-muted/80 transition-colors disabled:opacity-50"
+            >
+              <Pencil className="size-3" />
+              修改参数
+            </button>
+            <button
+              onClick={() => void decide({ decision: 'approved' }, true)}
+              disabled={submitting}
+              className="px-2 py-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors disabled:opacity-50"
+              title="批准，并在此服务中自动批准之后的同名工具调用"
+            >
+              始终允许 {tool.name}
+            </button>
+          </>
+        )}
+        {submitting && <RefreshCw className="size-3 animate-spin text-muted-foreground" />}
+      </div>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+    </div>
+  )
+}
+
+// MCP 工具调用块组件（可折叠，支持实时日志 / 最终输出 / 审批）
+export default function ToolCallBlock({ tool, onApproval }: { tool: ToolCall; onApproval?: ApprovalHandler }) {
   const [expanded, setExpanded] = useState(tool.status === 'running')
+  const awaitingApproval = tool.approval?.status === 'pending'
   const logsEndRef = useRef<HTMLDivElement>(null)
   const scrollAreaRef = useRef<HTMLDivElement>(null)
 
@@ -58,17 +172,25 @@ export default function ToolCallBlock({ tool }: { tool: ToolCall }) {
     maybeLoadMore()
   }, [expanded, maybeLoadMore])
 
+  // 按工具名查找专用渲染器，未注册的工具使用通用视图
+  const renderer = getToolRenderer(tool.name)
+  const RendererComponent = renderer?.component
+  const summary = renderer?.summary?.(tool)
+  const rendererOutput = tool.output ?? (tool.logs || []).join('\n')
+
   const hasArgs = Boolean(tool.arguments && Object.keys(tool.arguments).length > 0)
   const hasContent = (tool.logs && tool.logs.length > 0) || tool.output || hasArgs
   const showProgress = tool.status === 'running' && tool.progress !== undefined && tool.total !== undefined
 
   return (
-    <div className="my-2 bg-muted/30 rounded-lg border border-border/50 overflow-hidden">
+    <div data-tool-id={tool.id} className="my-2 bg-muted/30 rounded-lg border border-border/50 overflow-hidden">
       <button
         onClick={() => setExpanded(!expanded)}
         className="w-full flex items-center gap-2 px-3 py-2 text-xs font-medium text-muted-foreground hover:bg-muted/50 transition-colors"
       >
-        {tool.status === 'running' ? (
+        {awaitingApproval ? (
+          <ShieldAlert className="size-3 text-warning" />
+        ) : tool.status === 'running' ? (
           <RefreshCw className="size-3 animate-spin text-primary" />
         ) : expanded ? (
           <ChevronDown className="size-3" />
@@ -76,9 +198,23 @@ export default function ToolCallBlock({ tool }: { tool: ToolCall }) {
           <ChevronRight className="size-3" />
         )}
         <Wrench className="size-3" />
-        <span className="flex-1 text-left">
-          {tool.status === 'running' ? '正在调用' : '已调用'}: <span className="text-foreground">{tool.name}</span>
+        <span className="flex-1 min-w-0 text-left truncate">
+          {awaitingApproval ? '等待审批' : tool.status === 'running' ? '正在调用' : '已调用'}: <span className="text-foreground">{tool.name}</span>
+          {summary && <span className="ml-2 font-mono text-muted-foreground/70">{summary}</span>}
         </span>
+        {tool.approval?.status === 'approved' && (
+          <span className="flex items-center gap-0.5 text-[10px] text-muted-foreground/70">
+            <ShieldCheck className="size-3" />
+            {tool.approval.auto ? '自动批准' : '已批准'}
+          </span>
+        )}
+        {tool.approval?.status === 'denied' && (
+          <span className="flex items-center gap-0.5 text-[10px] text-destructive/80">
+            <ShieldX className="size-3" />
+            已拒绝
+          </span>
+        )}
+        {tool.truncated && <span className="text-[10px] text-warning">已截断</span>}
         {showProgress && (
           <span className="text-[10px] text-primary">{Math.round((tool.progress! / tool.total!) * 100)}%</span>
         )}
@@ -99,8 +235,23 @@ export default function ToolCallBlock({ tool }: { tool: ToolCall }) {
         </div>
       )}
 
+      {/* 审批：待审批时显示参数（可修改）与决定按钮 */}
+      {awaitingApproval && !expanded && hasArgs && (
+        <pre className="px-3 py-2 text-xs font-mono bg-background/50 border-t border-border/30 max-h-48 overflow-y-auto whitespace-pre-wrap wrap-break-word text-muted-foreground">
+          {JSON.stringify(tool.arguments, null, 2)}
+        </pre>
+      )}
+      {awaitingApproval && onApproval && <ApprovalControls tool={tool} onApproval={onApproval} />}
+
+      {/* 专用渲染器 */}
+      {expanded && hasContent && RendererComponent && (
+        <div className="px-3 py-2 bg-background/50 border-t border-border/30">
+          <RendererComponent tool={tool} args={tool.arguments ?? {}} output={rendererOutput} />
+        </div>
+      )}
+
       {/* 实时日志 / 参数 / 最终输出 */}
-      {expanded && hasContent && (
+      {expanded && hasContent && !RendererComponent && (
         <div
           ref={scrollAreaRef}
           onScroll={onScrollArea}
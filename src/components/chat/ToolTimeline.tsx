@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useState } from 'react'
+import { ChartGantt, ChevronDown, ChevronRight } from 'lucide-react'
+import { cn } from '../../utils/cn'
+import { buildTaskTimeline, formatDuration, type TimelineBar } from './taskTimeline'
+import type { Message } from './types'
+
+// 滚动到对应的工具调用块并短暂高亮
+function scrollToToolBlock(toolId: string) {
+  const el = document.querySelector<HTMLElement>(`[data-tool-id="${CSS.escape(toolId)}"]`)
+  if (!el) return
+  el.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  el.classList.add('ring-2', 'ring-primary/50')
+  window.setTimeout(() => el.classList.remove('ring-2', 'ring-primary/50'), 1500)
+}
+
+function barColor(bar: TimelineBar): string {
+  if (bar.running) return 'bg-primary/60 animate-pulse'
+  if (bar.tool.approval?.status === 'denied') return 'bg-muted-foreground/30'
+  if (bar.tool.success === false) return 'bg-destructive/70'
+  return 'bg-primary/70 hover:bg-primary'
+}
+
+// 任务时间线：工具调用的开始、耗时、状态与并行情况，以及其间的模型思考间隙
+export default function ToolTimeline({ msg }: { msg: Message }) {
+  const [open, setOpen] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+  const streaming = msg.status === 'streaming'
+
+  // 任务运行中展开时，每秒刷新运行中的工具
+  useEffect(() => {
+    if (!open || !streaming) return
+    const timer = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(timer)
+  }, [open, streaming])
+
+  const timeline = useMemo(() => buildTaskTimeline(msg, streaming ? now : 0), [msg, now, streaming])
+  if (!timeline) return null
+
+  const span = Math.max(1, timeline.end - timeline.start)
+  const position = (start: number, end: number) => ({
+    left: `${((start - timeline.start) / span) * 100}%`,
+    width: `max(3px, ${((end - start) / span) * 100}%)`,
+  })
+  const thinking = timeline.gaps.reduce((sum, gap) => sum + gap.end - gap.start, 0)
+  const total = msg.durationMs ?? span
+
+  return (
+    <div className="mt-3 rounded-lg border border-border/50 bg-muted/20 text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-muted-foreground hover:bg-muted/40 transition-colors"
+      >
+        {open ? <ChevronDown className="size-3" /> : <ChevronRight className="size-3" />}
+        <ChartGantt className="size-3.5" />
+        <span className="flex-1 text-left">
+          时间线 · {timeline.bars.length} 次工具调用
+          {msg.turns !== undefined && ` · ${msg.turns} 轮`}
+          {timeline.lanes > 1 && ` · 最多 ${timeline.lanes} 个并行`}
+        </span>
+        <span className="tabular-nums">{formatDuration(total)}</span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-1">
+          {/* 刻度 */}
+          <div className="relative h-4 ml-12 text-[10px] text-muted-foreground/70 tabular-nums">
+            {[0, 0.25, 0.5, 0.75, 1].map(f => (
+              <span
+                key={f}
+                className={cn('absolute', f === 1 ? '-translate-x-full' : f > 0 && '-translate-x-1/2')}
+                style={{ left: `${f * 100}%` }}
+              >
+                {formatDuration(span * f)}
+              </span>
+            ))}
+          </div>
+
+          {/* 模型思考间隙 */}
+          <div className="flex items-center gap-2">
+            <span className="w-10 shrink-0 text-right text-muted-foreground">思考</span>
+            <div className="relative flex-1 h-4 rounded bg-muted/40">
+              {timeline.gaps.map((gap, i) => (
+                <div
+                  key={i}
+                  className="absolute inset-y-0.5 rounded-sm bg-muted-foreground/25"
+                  style={position(gap.start, gap.end)}
+                  title={`模型思考 ${formatDuration(gap.end - gap.start)}`}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* 工具调用：每个并行行一条轨道 */}
+          {Array.from({ length: timeline.lanes }, (_, lane) => (
+            <div key={lane} className="flex items-center gap-2">
+              <span className="w-10 shrink-0 text-right text-muted-foreground">{lane === 0 ? '工具' : ''}</span>
+              <div className="relative flex-1 h-5 rounded bg-muted/40">
+                {timeline.bars.filter(bar => bar.lane === lane).map(bar => (
+                  <button
+                    key={bar.tool.id}
+                    type="button"
+                    onClick={() => scrollToToolBlock(bar.tool.id)}
+                    className={cn(
+                      'absolute inset-y-0.5 rounded-sm overflow-hidden px-1 text-left text-[10px] leading-4 text-primary-foreground transition-colors',
+                      barColor(bar)
+                    )}
+                    style={position(bar.start, bar.end)}
+                    title={[
+                      bar.tool.name,
+                      `开始 +${formatDuration(bar.start - timeline.start)}`,
+                      `耗时 ${formatDuration(bar.tool.durationMs ?? bar.end - bar.start)}${bar.running ? '（运行中）' : ''}`,
+                      bar.tool.approval?.status === 'denied' ? '已拒绝' : bar.tool.success === false ? '失败' : '',
+                    ].filter(Boolean).join('\n')}
+                  >
+                    <span className="block truncate font-mono">{bar.tool.name}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="pt-1 text-muted-foreground/70">
+            工具 {formatDuration(span - thinking)} · 思考 {formatDuration(thinking)}
+            {streaming && ' · 运行中'}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import type { FileReference, UploadedFile } from '../../types'
+import type { MessageAttachment, PendingAttachment } from './types'
+
+// 文本文件超过该大小时不再内联，改为上传
+const MAX_INLINE_TEXT_BYTES = 200 * 1024
+
+const TEXT_MIME_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/typescript',
+  'application/x-sh',
+  'application/x-yaml',
+  'application/toml',
+  'application/sql',
+]
+
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'ini', 'cfg', 'conf', 'env', 'csv', 'tsv', 'log',
+  'xml', 'html', 'htm', 'css', 'scss', 'less', 'svg',
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'vue', 'svelte',
+  'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cc', 'cpp', 'hpp', 'cs', 'php', 'lua', 'sql',
+  'sh', 'bash', 'zsh', 'fish', 'ps1', 'dockerfile', 'makefile', 'gitignore', 'diff', 'patch',
+]
+
+// 附件标记行：[附件: 名称] 或 [附件: 名称 → 路径]
+const ATTACHMENT_LINE = /^\[附件: (.+?)(?: → (.+))?\]$/
+// @ 引用标记行：[引用: 路径]，目录以 "/" 结尾
+const REFERENCE_LINE = /^\[引用: (.+?)\]$/
+
+function extensionOf(name: string): string {
+  const base = name.toLowerCase()
+  const dot = base.lastIndexOf('.')
+  return dot === -1 ? base : base.slice(dot + 1)
+}
+
+function isTextFile(file: File): boolean {
+  if (file.type.startsWith('text/') || TEXT_MIME_TYPES.includes(file.type)) return true
+  return TEXT_EXTENSIONS.includes(extensionOf(file.name))
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/**
+ * 读取本地文件为待发送附件：小文本文件读入内容，图片生成预览
+ */
+export async function readAttachment(file: File): Promise<PendingAttachment> {
+  const base = {
+    id: crypto.randomUUID(),
+    file,
+    name: file.name,
+    size: file.size,
+    mimeType: file.type || 'application/octet-stream',
+  }
+
+  if (file.type.startsWith('image/')) {
+    return { ...base, kind: 'image', previewUrl: URL.createObjectURL(file) }
+  }
+  if (isTextFile(file) && file.size <= MAX_INLINE_TEXT_BYTES) {
+    return { ...base, kind: 'text', text: await file.text() }
+  }
+  return { ...base, kind: 'binary' }
+}
+
+// 选择不会与内容冲突的代码块围栏
+function fenceFor(content: string): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) || []).map(m => m.length))
+  return '`'.repeat(Math.max(3, longest + 1))
+}
+
+/**
+ * 将文本附件以代码块形式内联到 prompt 末尾
+ */
+export function inlineTextAttachments(prompt: string, attachments: PendingAttachment[]): string {
+  const blocks = attachments
+    .filter(a => a.kind === 'text')
+    .map(a => {
+      const content = (a.text || '').replace(/\n$/, '')
+      const fence = fenceFor(content)
+      return `[附件: ${a.name}]\n${fence}${extensionOf(a.name)}\n${content}\n${fence}`
+    })
+  return [prompt.trim(), ...blocks].filter(Boolean).join('\n\n')
+}
+
+/**
+ * 在 prompt 末尾列出已上传（或上传中，无路径）的文件
+ */
+export function appendUploadedAttachments(prompt: string, files: Array<Pick<UploadedFile, 'name'> & { path?: string }>): string {
+  const lines = files.map(f => (f.path ? `[附件: ${f.name} → ${f.path}]` : `[附件: ${f.name}]`))
+  return [prompt, ...lines].filter(Boolean).join('\n\n')
+}
+
+/**
+ * 从用户消息内容中拆出附件与 @ 引用（历史消息与本次发送的消息共用）
+ */
+export function splitMessageAttachments(content: string): {
+  text: string
+  attachments: MessageAttachment[]
+  references: FileReference[]
+} {
+  const lines = content.split('\n')
+  const textLines: string[] = []
+  const attachments: MessageAttachment[] = []
+  const references: FileReference[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const ref = lines[i].match(REFERENCE_LINE)
+    if (ref) {
+      const isDir = ref[1].endsWith('/')
+      references.push({ path: isDir ? ref[1].slice(0, -1) : ref[1], type: isDir ? 'dir' : 'file' })
+      continue
+    }
+
+    const m = lines[i].match(ATTACHMENT_LINE)
+    if (!m) {
+      textLines.push(lines[i])
+      continue
+    }
+
+    const name = m[1]
+    const path = m[2]
+    const fence = !path ? lines[i + 1]?.match(/^(`{3,})(\S*)$/) : null
+    if (fence) {
+      // 内联文本：读到相同长度的结束围栏
+      const end = lines.findIndex((line, j) => j > i + 1 && line === fence[1])
+      if (end !== -1) {
+        attachments.push({ name, kind: 'text', language: fence[2] || undefined, content: lines.slice(i + 2, end).join('\n') })
+        i = end
+        continue
+      }
+    }
+    attachments.push({ name, kind: 'file', path })
+  }
+
+  return { text: textLines.join('\n').trim(), attachments, references }
+}
@@ -0,0 +1,58 @@
+import type { Message } from './types'
+import { filterToolCallTags } from './messageParsing'
+
+const ROLE_TITLES: Record<Message['role'], string> = {
+  user: '用户',
+  assistant: '助手',
+  system: '系统',
+}
+
+function fenced(content: string, language = ''): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) || []).map(m => m.length))
+  const fence = '`'.repeat(Math.max(3, longest + 1))
+  return `${fence}${language}\n${content}\n${fence}`
+}
+
+/**
+ * 将对话导出为 Markdown（工具调用包含参数与输出）
+ */
+export function messagesToMarkdown(messages: Message[], title: string): string {
+  const parts = [`# ${title}`, `导出时间：${new Date().toLocaleString()}`]
+
+  for (const msg of messages) {
+    parts.push(`## ${ROLE_TITLES[msg.role]}`)
+
+    if (msg.role !== 'assistant') {
+      parts.push(msg.content)
+      continue
+    }
+
+    for (const segment of msg.segments) {
+      if (segment.type === 'text') {
+        const text = filterToolCallTags(segment.content || '').trim()
+        if (text) parts.push(text)
+      } else if (segment.tool) {
+        const { tool } = segment
+        parts.push(`**工具调用：${tool.name}**`)
+        if (tool.arguments && Object.keys(tool.arguments).length > 0) {
+          parts.push(fenced(JSON.stringify(tool.arguments, null, 2), 'json'))
+        }
+        if (tool.output) parts.push(fenced(tool.output))
+      }
+    }
+  }
+
+  return parts.join('\n\n') + '\n'
+}
+
+/**
+ * 以文件形式下载文本
+ */
+export function downloadText(filename: string, text: string, type = 'text/markdown') {
+  const url = URL.createObjectURL(new Blob([text], { type: `${type};charset=utf-8` }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { collectSessionChanges, cumulativeFileDiff, toolFileChanges } from './fileChanges'
+import type { Message, ToolCall } from './types'
+
+function editTool(id: string, args: Record<string, unknown>, extra: Partial<ToolCall> = {}): ToolCall {
+  return { id, name: 'edit', status: 'done', arguments: args, ...extra }
+}
+
+function assistant(id: string, tools: ToolCall[]): Message {
+  return {
+    id,
+    role: 'assistant',
+    content: '',
+    timestamp: 0,
+    segments: tools.map(tool => ({ type: 'tool', tool })),
+    pendingToolCalls: new Map(),
+  }
+}
+
+describe('toolFileChanges', () => {
+  it('reuses the diff when the tool call is shallow-copied during streaming', () => {
+    const tool = editTool('t1', { path: 'a.ts', old_string: 'a\nb', new_string: 'a\nc' })
+    const first = toolFileChanges(tool)
+    expect(toolFileChanges({ ...tool })).toBe(first)
+    expect(first[0].hunks[0].lines.map(l => l.type)).toEqual(['context', 'remove', 'add'])
+  })
+
+  it('recomputes when the output or arguments change', () => {
+    const args = { path: 'a.ts', old_string: 'x', new_string: 'y' }
+    const tool = editTool('t2', args)
+    const first = toolFileChanges(tool)
+    expect(toolFileChanges({ ...tool, output: 'ok' })).not.toBe(first)
+    expect(toolFileChanges({ ...tool, arguments: { ...args } })).not.toBe(first)
+  })
+
+  it('ignores denied edits', () => {
+    const tool = editTool('t3', { path: 'a.ts', content: 'x' }, { approval: { id: 'ap', status: 'denied' } })
+    expect(toolFileChanges(tool)).toEqual([])
+  })
+})
+
+describe('collectSessionChanges', () => {
+  it('groups edits by file in order', () => {
+    const messages = [
+      assistant('m1', [editTool('t1', { path: 'a.ts', content: 'one' }), editTool('t2', { path: 'b.ts', content: 'two' })]),
+      assistant('m2', [editTool('t3', { path: 'a.ts', old_string: 'one', new_string: 'uno' })]),
+    ]
+    const files = collectSessionChanges(messages)
+    expect(files.map(f => f.path)).toEqual(['a.ts', 'b.ts'])
+    expect(files[0].changes.map(c => [c.messageId, c.toolId])).toEqual([['m1', 't1'], ['m2', 't3']])
+  })
+})
+
+describe('cumulativeFileDiff', () => {
+  const linesOf = (messages: Message[]) => {
+    const diff = cumulativeFileDiff(collectSessionChanges(messages)[0])
+    return diff && diff.hunks.flatMap(h => h.lines.map(l => `${l.type[0]} ${l.content}`))
+  }
+
+  it('replays edits from a full write', () => {
+    const messages = [
+      assistant('m1', [editTool('t1', { path: 'a.ts', content: 'one\ntwo\nthree\n' })]),
+      assistant('m2', [
+        editTool('t2', { path: 'a.ts', old_string: 'two', new_string: 'TWO' }),
+        editTool('t3', { path: 'a.ts', old_string: 'TWO\nthree', new_string: 'TWO\n3' }),
+      ]),
+    ]
+    expect(linesOf(messages)).toEqual(['a one', 'a TWO', 'a 3'])
+  })
+
+  it('diffs the first known text against the final one when starting from a replacement', () => {
+    const messages = [
+      assistant('m1', [
+        editTool('t1', { path: 'a.ts', old_string: 'a\nb\nc', new_string: 'a\nB\nc' }),
+        editTool('t2', { path: 'a.ts', old_string: 'B', new_string: 'b2' }),
+        editTool('t3', { path: 'a.ts', edits: [{ old_string: 'c', new_string: 'C', replace_all: true }] }),
+      ]),
+    ]
+    expect(linesOf(messages)).toEqual(['c a', 'r b', 'r c', 'a b2', 'a C'])
+  })
+
+  it('gives up when an edit touches text outside what is known', () => {
+    const messages = [
+      assistant('m1', [
+        editTool('t1', { path: 'a.ts', old_string: 'x', new_string: 'y' }),
+        editTool('t2', { path: 'a.ts', old_string: 'elsewhere', new_string: 'z' }),
+      ]),
+    ]
+    expect(linesOf(messages)).toBeNull()
+  })
+
+  it('gives up on patches', () => {
+    const patch = '--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-x\n+y\n'
+    expect(linesOf([assistant('m1', [editTool('t1', { path: 'a.ts', patch })])])).toBeNull()
+  })
+})
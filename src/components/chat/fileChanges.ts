@@ -0,0 +1,223 @@
+import type { ContentSegment, Message, ToolCall } from './types'
+import { stringArg } from './tools/registry'
+import { diffLines, parseUnifiedDiff, type DiffHunk, type FileDiff } from './lineDiff'
+
+// 修改文件的工具（常见 Agent 的命名）
+export const FILE_EDIT_TOOLS = [
+  'edit', 'edit_file', 'multi_edit', 'multiedit', 'str_replace', 'str_replace_editor', 'apply_patch',
+  'write', 'write_file', 'create_file',
+]
+
+/**
+ * 是否为修改文件的工具（支持带命名空间的名称，如 mcp__fs__write_file）
+ */
+export function isFileEditTool(name: string): boolean {
+  const key = name.toLowerCase()
+  return FILE_EDIT_TOOLS.includes(key) || FILE_EDIT_TOOLS.includes(key.split(/__|[./:]/).pop() || '')
+}
+
+export function editToolPath(args: Record<string, unknown>): string | undefined {
+  return stringArg(args, 'file_path', 'path', 'filename', 'file')
+}
+
+// 计算出的改动没有真实行号（不知道在文件中的位置），只保留内容
+function computedHunk(oldText: string, newText: string): DiffHunk {
+  return { lines: diffLines(oldText, newText).map(({ type, content }) => ({ type, content })) }
+}
+
+// 编辑类工具对文件的一次操作：整文件写入或字符串替换（all 为替换所有出现处）
+export type FileEdit =
+  | { type: 'write'; content: string }
+  | { type: 'replace'; oldText: string; newText: string; all: boolean }
+
+/**
+ * 编辑类工具参数中的文件操作：单次替换、多处替换（edits 数组）或整文件写入；
+ * patch 形式（统一 diff）或无法识别时返回 null
+ */
+export function editToolEdits(args: Record<string, unknown>): FileEdit[] | null {
+  if (stringArg(args, 'patch', 'diff') !== undefined) return null
+  const edits = Array.isArray(args.edits) ? (args.edits as Record<string, unknown>[]) : [args]
+  const result: FileEdit[] = []
+  for (const edit of edits) {
+    if (!edit || typeof edit !== 'object') continue
+    const oldText = stringArg(edit, 'old_string', 'old_str', 'old_text', 'oldText', 'search')
+    const newText = stringArg(edit, 'new_string', 'new_str', 'new_text', 'newText', 'replace')
+    if (oldText !== undefined || newText !== undefined) {
+      result.push({ type: 'replace', oldText: oldText ?? '', newText: newText ?? '', all: edit.replace_all === true })
+      continue
+    }
+    const content = stringArg(edit, 'content', 'file_text', 'text')
+    if (content !== undefined) result.push({ type: 'write', content })
+  }
+  return result.length > 0 ? result : null
+}
+
+/**
+ * 从编辑类工具的参数/输出中取出改动：
+ * 输出或 patch 参数为统一 diff 时直接解析；否则按参数中的各次操作计算
+ */
+export function editToolDiff(args: Record<string, unknown>, output = ''): FileDiff[] | null {
+  const path = editToolPath(args) || ''
+
+  const parsed = (output && parseUnifiedDiff(output)) || parseUnifiedDiff(stringArg(args, 'patch', 'diff') || '')
+  if (parsed && parsed.length > 0) {
+    return parsed.map(file => ({ ...file, path: file.path || path }))
+  }
+
+  const edits = editToolEdits(args)
+  if (!edits) return null
+  // 整文件写入：新文件的行号即为实际行号
+  const hunks: DiffHunk[] = edits.map(edit =>
+    edit.type === 'replace' ? computedHunk(edit.oldText, edit.newText) : { lines: diffLines('', edit.content) }
+  )
+  return [{ path, hunks }]
+}
+
+// 按参数对象缓存计算出的改动：流式更新时消息与工具调用会被浅拷贝，参数对象保持不变，
+// 避免每个增量都对会话中所有编辑重新计算 diff
+interface ToolChanges {
+  name: string
+  output?: string
+  diffs: FileDiff[]
+  edits: FileEdit[] | null
+}
+
+const toolChangesCache = new WeakMap<object, ToolChanges>()
+
+function cachedToolChanges(tool: ToolCall): ToolChanges {
+  const args = tool.arguments
+  if (!args) return { name: tool.name, output: tool.output, diffs: editToolDiff({}, tool.output) ?? [], edits: null }
+  const cached = toolChangesCache.get(args)
+  if (cached && cached.name === tool.name && cached.output === tool.output) return cached
+  const changes = { name: tool.name, output: tool.output, diffs: editToolDiff(args, tool.output) ?? [], edits: editToolEdits(args) }
+  toolChangesCache.set(args, changes)
+  return changes
+}
+
+/**
+ * 工具调用修改的文件（被拒绝的审批不计）
+ */
+export function toolFileChanges(tool: ToolCall): FileDiff[] {
+  if (!isFileEditTool(tool.name) || tool.approval?.status === 'denied') return []
+  return cachedToolChanges(tool).diffs
+}
+
+/**
+ * 合并同一文件的多次改动（按出现顺序拼接 hunk）
+ */
+export function mergeFileDiffs(files: FileDiff[]): FileDiff[] {
+  const byPath = new Map<string, FileDiff>()
+  for (const file of files) {
+    const existing = byPath.get(file.path)
+    if (existing) existing.hunks.push(...file.hunks)
+    else byPath.set(file.path, { path: file.path, hunks: [...file.hunks] })
+  }
+  return [...byPath.values()]
+}
+
+/**
+ * 一条消息中所有修改文件的工具调用，按文件合并
+ */
+export function collectFileChanges(segments: ContentSegment[]): FileDiff[] {
+  return mergeFileDiffs(segments.flatMap(seg => (seg.type === 'tool' && seg.tool ? toolFileChanges(seg.tool) : [])))
+}
+
+// 会话中对某个文件的一次改动
+export interface SessionFileChange {
+  messageId: string
+  toolId: string
+  toolName: string
+  timestamp: number
+  diff: FileDiff
+  // 可重放的操作（patch 形式或一次修改多个文件时为 null）
+  edits: FileEdit[] | null
+}
+
+// 会话中某个文件的全部改动（按时间顺序）
+export interface SessionFileChanges {
+  path: string
+  changes: SessionFileChange[]
+}
+
+/**
+ * 汇总会话中所有修改文件的工具调用（实时事件与历史记录解析出的消息都在 messages 中），按文件分组
+ */
+export function collectSessionChanges(messages: Message[]): SessionFileChanges[] {
+  const byPath = new Map<string, SessionFileChanges>()
+  for (const msg of messages) {
+    if (msg.role !== 'assistant') continue
+    for (const seg of msg.segments) {
+      if (seg.type !== 'tool' || !seg.tool) continue
+      const tool = seg.tool
+      const diffs = toolFileChanges(tool)
+      const edits = diffs.length === 1 ? cachedToolChanges(tool).edits : null
+      for (const diff of diffs) {
+        let entry = byPath.get(diff.path)
+        if (!entry) {
+          entry = { path: diff.path, changes: [] }
+          byPath.set(diff.path, entry)
+        }
+        entry.changes.push({ messageId: msg.id, toolId: tool.id, toolName: tool.name, timestamp: msg.timestamp, diff, edits })
+      }
+    }
+  }
+  return [...byPath.values()]
+}
+
+/**
+ * 按顺序重放对同一文件的改动，得到首尾两个状态：
+ * 从整文件写入（之前视为空文件）开始时为完整文件；从替换开始时只知道第一处替换的原文，
+ * 之后的替换须落在已知内容中。有无法重放的改动（patch、找不到原文）时返回 null
+ */
+export function replayFileEdits(changes: SessionFileChange[]): { before: string; after: string; whole: boolean } | null {
+  let before: string | null = null
+  let after = ''
+  let whole = false
+  for (const change of changes) {
+    if (!change.edits) return null
+    for (const edit of change.edits) {
+      if (edit.type === 'write') {
+        // 只知道片段时，整文件写入无法与之前的状态对齐
+        if (before !== null && !whole) return null
+        before ??= ''
+        after = edit.content
+        whole = true
+        continue
+      }
+      if (!edit.oldText) return null
+      if (before === null) before = after = edit.oldText
+      const index = after.indexOf(edit.oldText)
+      if (index === -1) return null
+      after = edit.all
+        ? after.split(edit.oldText).join(edit.newText)
+        : after.slice(0, index) + edit.newText + after.slice(index + edit.oldText.length)
+    }
+  }
+  return before === null ? null : { before, after, whole }
+}
+
+// 最近一次计算的累计 diff：流式更新时改动列表会重建，但各次改动的操作对象不变
+let lastCumulative: { path: string; edits: Array<FileEdit[] | null>; diff: FileDiff | null } | null = null
+
+/**
+ * 文件从第一次改动之前到最终状态的累计 diff；无法重放（缺少原文）时返回 null
+ */
+export function cumulativeFileDiff(file: SessionFileChanges): FileDiff | null {
+  const edits = file.changes.map(c => c.edits)
+  if (
+    lastCumulative?.path === file.path &&
+    lastCumulative.edits.length === edits.length &&
+    lastCumulative.edits.every((e, i) => e === edits[i])
+  ) {
+    return lastCumulative.diff
+  }
+
+  const replayed = replayFileEdits(file.changes)
+  // 从片段开始时没有真实行号
+  const diff = replayed && {
+    path: file.path,
+    hunks: [replayed.whole ? { lines: diffLines(replayed.before, replayed.after) } : computedHunk(replayed.before, replayed.after)],
+  }
+  lastCumulative = { path: file.path, edits, diff }
+  return diff
+}
@@ -0,0 +1,82 @@
+import type { FileEntry, FileReference } from '../../types'
+import { listFiles } from '../../api/services'
+
+// 工作目录文件列表缓存（每个服务一份，过期后重新加载）
+const CACHE_TTL_MS = 60_000
+const MAX_FILES = 5000
+
+const cache = new Map<string, { loadedAt: number; entries: Promise<FileEntry[]> }>()
+
+/**
+ * 加载 @ 引用候选文件（递归列出工作目录）
+ */
+export function loadMentionFiles(serviceUrl: string): Promise<FileEntry[]> {
+  const cached = cache.get(serviceUrl)
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.entries
+
+  const entries = listFiles(serviceUrl, { recursive: true, limit: MAX_FILES })
+    .then(r => r.entries)
+    .catch((err) => {
+      cache.delete(serviceUrl)
+      throw err
+    })
+  cache.set(serviceUrl, { loadedAt: Date.now(), entries })
+  return entries
+}
+
+/**
+ * 光标前正在输入的 @ 引用：返回 "@" 的位置与查询词
+ */
+export function findMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const m = text.slice(0, caret).match(/(^|\s)@([^\s@]*)$/)
+  if (!m) return null
+  return { start: caret - m[2].length - 1, query: m[2] }
+}
+
+// 子序列模糊匹配打分：连续匹配、路径段开头、文件名内匹配加分；不匹配返回 -1
+function fuzzyScore(path: string, query: string): number {
+  const p = path.toLowerCase()
+  const q = query.toLowerCase()
+  const baseStart = p.lastIndexOf('/') + 1
+  let score = 0
+  let pi = 0
+  let prev = -2
+
+  for (const ch of q) {
+    const idx = p.indexOf(ch, pi)
+    if (idx === -1) return -1
+    if (idx === prev + 1) score += 5
+    if (idx === 0 || '/._-'.includes(p[idx - 1])) score += 3
+    if (idx >= baseStart) score += 2
+    prev = idx
+    pi = idx + 1
+  }
+
+  // 短路径优先
+  return score - path.length * 0.01
+}
+
+/**
+ * 按查询词模糊匹配文件；查询为空时按路径层级浅的优先
+ */
+export function fuzzyMatchFiles(entries: FileEntry[], query: string, limit = 50): FileEntry[] {
+  if (!query) {
+    return [...entries]
+      .sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path))
+      .slice(0, limit)
+  }
+  return entries
+    .map(entry => ({ entry, score: fuzzyScore(entry.path, query) }))
+    .filter(r => r.score >= 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(r => r.entry)
+}
+
+/**
+ * 在 prompt 末尾列出引用的文件（后端通过 references 字段获取，这里作为路径提示）
+ */
+export function appendFileReferences(prompt: string, references: FileReference[]): string {
+  const lines = references.map(r => `[引用: ${r.type === 'dir' ? `${r.path}/` : r.path}]`)
+  return [prompt, ...lines].filter(Boolean).join('\n\n')
+}
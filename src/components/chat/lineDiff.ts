@@ -0,0 +1,231 @@
+// 行级 diff：编辑类工具调用（old → new）、统一 diff 文本的解析与计算
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove'
+  content: string
+  oldLine?: number // 旧文件行号（新增行为空）
+  newLine?: number // 新文件行号（删除行为空）
+}
+
+// 一段连续的改动（对应统一 diff 中的一个 @@ 块）
+export interface DiffHunk {
+  header?: string // @@ 行（计算出的 diff 没有）
+  lines: DiffLine[]
+}
+
+// 单个文件的改动
+export interface FileDiff {
+  path: string // 未知时为空字符串
+  hunks: DiffHunk[]
+}
+
+// 超过该规模（行数乘积）不再计算最长公共子序列，直接整体替换
+const MAX_LCS_CELLS = 4_000_000
+
+function splitLines(text: string): string[] {
+  if (!text) return []
+  const lines = text.split('\n')
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+/**
+ * 计算两段文本的逐行差异（最长公共子序列），startLine 为第一行的行号
+ */
+export function diffLines(oldText: string, newText: string, startLine = 1): DiffLine[] {
+  const a = splitLines(oldText)
+  const b = splitLines(newText)
+  const result: DiffLine[] = []
+
+  // 去掉公共前后缀，缩小计算范围
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++
+
+  const midA = a.slice(prefix, a.length - suffix)
+  const midB = b.slice(prefix, b.length - suffix)
+
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'context', content: a[i], oldLine: startLine + i, newLine: startLine + i })
+  }
+
+  let oldLine = startLine + prefix
+  let newLine = startLine + prefix
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    for (const line of midA) result.push({ type: 'remove', content: line, oldLine: oldLine++ })
+    for (const line of midB) result.push({ type: 'add', content: line, newLine: newLine++ })
+  } else {
+    // lcs[i][j]：midA[i..] 与 midB[j..] 的最长公共子序列长度
+    const n = midA.length
+    const m = midB.length
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        result.push({ type: 'context', content: midA[i], oldLine: oldLine++, newLine: newLine++ })
+        i++
+        j++
+      } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        // 同一位置先列删除行，再列新增行
+        result.push({ type: 'remove', content: midA[i], oldLine: oldLine++ })
+        i++
+      } else {
+        result.push({ type: 'add', content: midB[j], newLine: newLine++ })
+        j++
+      }
+    }
+  }
+
+  for (let k = a.length - suffix; k < a.length; k++) {
+    result.push({ type: 'context', content: a[k], oldLine: oldLine++, newLine: newLine++ })
+  }
+
+  return result
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+// 文件头中的路径：去掉 a/ b/ 前缀与时间戳
+function headerPath(raw: string): string {
+  const path = raw.split('\t')[0].trim()
+  return path === '/dev/null' ? '' : path.replace(/^[ab]\//, '')
+}
+
+/**
+ * 解析统一 diff 文本（git diff / diff -u 输出，可包含多个文件）；不是 diff 时返回 null
+ */
+export function parseUnifiedDiff(text: string): FileDiff[] | null {
+  const lines = text.split('\n')
+  if (!lines.some(line => HUNK_HEADER.test(line))) return null
+
+  const files: FileDiff[] = []
+  let file: FileDiff | null = null
+  let hunk: DiffHunk | null = null
+  let oldLine = 0
+  let newLine = 0
+  // 当前 hunk 剩余的旧/新行数；用完后到下一个 hunk 之前的行（文件头等）跳过
+  let oldLeft = 0
+  let newLeft = 0
+  // 上一个文件头给出的路径（--- 行，新建文件时 +++ 行才有路径）
+  let pendingOldPath = ''
+
+  const startFile = (path: string): FileDiff => {
+    const next = { path, hunks: [] }
+    files.push(next)
+    return next
+  }
+
+  for (const line of lines) {
+    const m = line.match(HUNK_HEADER)
+    if (m) {
+      if (!file) file = startFile(pendingOldPath)
+      hunk = { header: line, lines: [] }
+      file.hunks.push(hunk)
+      oldLine = Number(m[1])
+      newLine = Number(m[3])
+      oldLeft = m[2] === undefined ? 1 : Number(m[2])
+      newLeft = m[4] === undefined ? 1 : Number(m[4])
+      continue
+    }
+
+    if (oldLeft <= 0 && newLeft <= 0) {
+      const git = line.match(/^diff --git a\/(.+) b\/(.+)$/)
+      if (git) {
+        file = startFile(git[2])
+        pendingOldPath = git[1]
+      } else if (line.startsWith('--- ')) {
+        pendingOldPath = headerPath(line.slice(4))
+        // 没有 diff --git 行时，--- 开始一个新文件
+        if (!file || file.hunks.length > 0) file = null
+      } else if (line.startsWith('+++ ')) {
+        const path = headerPath(line.slice(4)) || pendingOldPath
+        if (file) file.path = path
+        else file = startFile(path)
+      }
+      continue
+    }
+
+    if (!hunk) continue
+    if (line.startsWith('+')) {
+      hunk.lines.push({ type: 'add', content: line.slice(1), newLine: newLine++ })
+      newLeft--
+    } else if (line.startsWith('-')) {
+      hunk.lines.push({ type: 'remove', content: line.slice(1), oldLine: oldLine++ })
+      oldLeft--
+    } else if (line.startsWith(' ') || line === '') {
+      hunk.lines.push({ type: 'context', content: line.slice(1), oldLine: oldLine++, newLine: newLine++ })
+      oldLeft--
+      newLeft--
+    }
+  }
+
+  return files.filter(f => f.hunks.length > 0)
+}
+
+/**
+ * 宽松解析：没有 @@ 行的 diff 片段（Markdown 中手写的 +/- 行），不带行号
+ */
+export function parseLooseDiff(text: string): FileDiff {
+  const lines: DiffLine[] = text.replace(/\n$/, '').split('\n').map(line => {
+    if (line.startsWith('+')) return { type: 'add', content: line.slice(1) }
+    if (line.startsWith('-')) return { type: 'remove', content: line.slice(1) }
+    return { type: 'context', content: line.startsWith(' ') ? line.slice(1) : line }
+  })
+  return { path: '', hunks: [{ lines }] }
+}
+
+/**
+ * 统计文件的新增/删除行数
+ */
+export function diffStats(files: FileDiff[]): { added: number; removed: number } {
+  let added = 0
+  let removed = 0
+  for (const file of files) {
+    for (const hunk of file.hunks) {
+      for (const line of hunk.lines) {
+        if (line.type === 'add') added++
+        else if (line.type === 'remove') removed++
+      }
+    }
+  }
+  return { added, removed }
+}
+
+/**
+ * 拆出 Markdown 中的 ```diff / ```patch 代码块（未闭合的代码块保留在 Markdown 中，流式输出时等待闭合）
+ */
+export function splitDiffBlocks(markdown: string): Array<{ type: 'markdown' | 'diff'; content: string }> {
+  const lines = markdown.split('\n')
+  const parts: Array<{ type: 'markdown' | 'diff'; content: string }> = []
+  let buffer: string[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(/^ {0,3}(`{3,}|~{3,})\s*(?:diff|patch)\s*$/)
+    if (!open) {
+      buffer.push(lines[i])
+      continue
+    }
+    const fence = open[1]
+    const close = lines.findIndex((line, j) => j > i && new RegExp(`^ {0,3}${fence[0]}{${fence.length},}\\s*$`).test(line))
+    if (close === -1) {
+      buffer.push(lines[i])
+      continue
+    }
+    if (buffer.length > 0) parts.push({ type: 'markdown', content: buffer.join('\n') })
+    parts.push({ type: 'diff', content: lines.slice(i + 1, close).join('\n') })
+    buffer = []
+    i = close
+  }
+
+  if (buffer.length > 0) parts.push({ type: 'markdown', content: buffer.join('\n') })
+  return parts
+}
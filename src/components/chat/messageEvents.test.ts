@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { applyAgentEvent } from './messageEvents'
+import type { Message } from './types'
+
+function message(role: Message['role'], content: string, status: Message['status'] = 'completed'): Message {
+  return {
+    id: `${role}-${content}`,
+    role,
+    content,
+    timestamp: 0,
+    status,
+    segments: content ? [{ type: 'text', content }] : [],
+    pendingToolCalls: new Map(),
+  }
+}
+
+describe('applyAgentEvent user_message', () => {
+  it('inserts a replayed prompt missing from history before the reply', () => {
+    const messages = [message('user', 'first'), message('assistant', 'done'), message('assistant', '', 'streaming')]
+    const result = applyAgentEvent(messages, { type: 'user_message', content: 'second' }, 5)
+    expect(result.map(m => [m.role, m.content])).toEqual([
+      ['user', 'first'],
+      ['assistant', 'done'],
+      ['user', 'second'],
+      ['assistant', ''],
+    ])
+    expect(result[2]).toMatchObject({ status: 'completed', timestamp: 5, segments: [{ type: 'text', content: 'second' }] })
+  })
+
+  it('ignores a prompt that is already the last user message', () => {
+    const messages = [message('user', 'hello'), message('assistant', '', 'streaming')]
+    expect(applyAgentEvent(messages, { type: 'user_message', content: 'hello' })).toBe(messages)
+  })
+
+  it('ignores prompts once the reply has content', () => {
+    const messages = [message('user', 'hello'), message('assistant', 'partial', 'streaming')]
+    expect(applyAgentEvent(messages, { type: 'user_message', content: 'other' })).toBe(messages)
+  })
+})
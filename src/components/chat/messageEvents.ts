@@ -0,0 +1,240 @@
+import type { AgentEvent } from '../../types'
+import type { ContentSegment, Message, ToolCall } from './types'
+
+// 回显的用户消息：重新接入运行中的任务并从头回放时，后端可能还没有保存这条提问，
+// 此时补在（尚无内容的）回复之前；已在最近一条用户消息中时忽略
+function insertEchoedPrompt(messages: Message[], content: string | undefined, now: number): Message[] {
+  const reply = messages[messages.length - 1]
+  if (!content || reply.segments.length > 0 || reply.content) return messages
+  let index = messages.length - 2
+  while (index >= 0 && messages[index].role !== 'user') index--
+  if (index >= 0 && messages[index].content === content) return messages
+  const prompt: Message = {
+    id: `echo-${now}`,
+    role: 'user',
+    content,
+    timestamp: now,
+    status: 'completed',
+    segments: [{ type: 'text', content }],
+    pendingToolCalls: new Map(),
+  }
+  return [...messages.slice(0, -1), prompt, reply]
+}
+
+// 将规范事件应用到消息列表（只更新最后一条 assistant 消息），返回新列表；now 为事件到达时间
+export function applyAgentEvent(messages: Message[], event: AgentEvent, now = Date.now()): Message[] {
+  const lastMsg = messages[messages.length - 1]
+  if (!lastMsg || lastMsg.role !== 'assistant') return messages
+  if (event.type === 'user_message') return insertEchoedPrompt(messages, event.content, now)
+
+  // 深拷贝 segments，避免直接修改原始状态
+  const updatedMsg: Message = {
+    ...lastMsg,
+    segments: lastMsg.segments.map((seg): ContentSegment => ({
+      type: seg.type,
+      content: seg.content,
+      tool: seg.tool ? { ...seg.tool } : undefined,
+    })),
+    pendingToolCalls: new Map(lastMsg.pendingToolCalls),
+  }
+
+  switch (event.type) {
+    case 'text_delta': {
+      const delta = event.text
+      updatedMsg.content += delta
+
+      // 更新最后一个文本片段，或添加新的文本片段
+      const lastIndex = updatedMsg.segments.length - 1
+      const lastSegment = lastIndex >= 0 ? updatedMsg.segments[lastIndex] : null
+      if (lastSegment && lastSegment.type === 'text') {
+        updatedMsg.segments[lastIndex] = {
+          ...lastSegment,
+          content: (lastSegment.content || '') + delta,
+        }
+      } else {
+        updatedMsg.segments.push({ type: 'text', content: delta })
+      }
+      break
+    }
+
+    case 'task_completed':
+    case 'message_completed':
+      if (event.content) updatedMsg.content = event.content
+      updatedMsg.status = 'completed'
+      updatedMsg.completedAt = now
+      if (event.type === 'task_completed') {
+        updatedMsg.turns = event.turns
+        updatedMsg.durationMs = event.duration_ms
+      }
+      break
+
+    case 'task_failed':
+    case 'task_aborted': {
+      const reason = (event.type === 'task_failed' ? event.error : event.reason) || '任务失败'
+      updatedMsg.status = 'error'
+      updatedMsg.completedAt = now
+      updatedMsg.content += `\n\n[${reason}]`
+      // 添加错误信息到最后一个文本片段
+      const lastIdx = updatedMsg.segments.length - 1
+      const lastSeg = lastIdx >= 0 ? updatedMsg.segments[lastIdx] : null
+      if (lastSeg && lastSeg.type === 'text') {
+        updatedMsg.segments[lastIdx] = {
+          ...lastSeg,
+          content: (lastSeg.content || '') + `\n\n[${reason}]`,
+        }
+      } else {
+        updatedMsg.segments.push({
+          type: 'text',
+          content: `\n\n[${reason}]`,
+        })
+      }
+      break
+    }
+
+    case 'tool_started': {
+      // 续传重放时可能再次收到同一个工具调用
+      if (updatedMsg.segments.some(seg => seg.type === 'tool' && seg.tool?.id === event.call_id)) return messages
+
+      const toolCall: ToolCall = {
+        id: event.call_id,
+        name: event.name,
+        status: 'running',
+        arguments: event.arguments,
+        startedAt: now,
+      }
+      updatedMsg.segments.push({ type: 'tool', tool: toolCall })
+      updatedMsg.pendingToolCalls.set(event.call_id, toolCall)
+      break
+    }
+
+    case 'tool_completed': {
+      const tool = updatedMsg.pendingToolCalls.get(event.call_id)
+      if (!tool) return messages
+      const completedTool = {
+        ...tool,
+        status: 'done' as const,
+        output: event.output,
+        completedAt: now,
+        durationMs: event.duration_ms,
+        success: event.success,
+      }
+      updatedMsg.segments = updatedMsg.segments.map(segment => {
+        if (segment.type === 'tool' && segment.tool?.id === event.call_id) {
+          return { ...segment, tool: completedTool }
+        }
+        return segment
+      })
+      updatedMsg.pendingToolCalls.delete(event.call_id)
+      break
+    }
+
+    case 'tool_progress': {
+      // 处理工具调用的实时进度/日志
+      const tool = updatedMsg.pendingToolCalls.get(event.call_id)
+      if (!tool) return messages
+      const updatedTool = { ...tool }
+
+      if (event.kind === 'log' || event.kind === 'output') {
+        if (event.message) {
+          updatedTool.logs = [...(tool.logs || []), event.message]
+        }
+      } else if (event.kind === 'progress') {
+        updatedTool.progress = event.progress
+        updatedTool.total = event.total
+      }
+
+      updatedMsg.pendingToolCalls.set(event.call_id, updatedTool)
+
+      updatedMsg.segments = updatedMsg.segments.map(segment => {
+        if (segment.type === 'tool' && segment.tool?.id === event.call_id) {
+          return { ...segment, tool: updatedTool }
+        }
+        return segment
+      })
+      break
+    }
+
+    case 'tool_approval_requested': {
+      const existing = updatedMsg.segments.find(seg => seg.type === 'tool' && seg.tool?.id === event.call_id)?.tool
+      // 续传重放时，已处理的审批保持原状态
+      if (existing?.approval?.id === event.approval_id) return messages
+
+      const tool: ToolCall = existing
+        ? { ...existing, arguments: event.arguments ?? existing.arguments, approval: { id: event.approval_id, status: 'pending' } }
+        : {
+          id: event.call_id,
+          name: event.name,
+          status: 'running',
+          arguments: event.arguments,
+          approval: { id: event.approval_id, status: 'pending' },
+          startedAt: now,
+        }
+      if (existing) {
+        updatedMsg.segments = updatedMsg.segments.map(segment =>
+          segment.type === 'tool' && segment.tool?.id === event.call_id ? { ...segment, tool } : segment
+        )
+      } else {
+        updatedMsg.segments.push({ type: 'tool', tool })
+      }
+      updatedMsg.pendingToolCalls.set(event.call_id, tool)
+      break
+    }
+
+    case 'tool_approval_resolved': {
+      let changed = false
+      updatedMsg.segments = updatedMsg.segments.map(segment => {
+        const tool = segment.tool
+        if (segment.type !== 'tool' || !tool || tool.id !== event.call_id || tool.approval?.id !== event.approval_id) {
+          return segment
+        }
+        if (tool.approval.status === event.decision && !tool.approval.submitting) return segment
+        changed = true
+        const resolved = { ...tool, approval: { ...tool.approval, status: event.decision, submitting: false } }
+        if (updatedMsg.pendingToolCalls.has(tool.id)) updatedMsg.pendingToolCalls.set(tool.id, resolved)
+        return { ...segment, tool: resolved }
+      })
+      if (!changed) return messages
+      break
+    }
+
+    default:
+      return messages
+  }
+
+  const newMessages = [...messages]
+  newMessages[newMessages.length - 1] = updatedMsg
+  return newMessages
+}
+
+// 将最后一条仍在输出的 assistant 消息标记为失败（可附加说明文字）
+export function markLastAssistantError(messages: Message[], note?: string): Message[] {
+  const last = messages[messages.length - 1]
+  if (!last || last.role !== 'assistant') return messages
+  const newMessages = [...messages]
+  newMessages[newMessages.length - 1] = {
+    ...last,
+    status: 'error',
+    content: note ? last.content + note : last.content,
+  }
+  return newMessages
+}
+
+// 更新指定工具调用（从最后一条消息向前查找），未找到时返回原列表
+export function updateToolCall(messages: Message[], callId: string, updater: (tool: ToolCall) => ToolCall): Message[] {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i]
+    const index = msg.segments.findIndex(seg => seg.type === 'tool' && seg.tool?.id === callId)
+    if (index === -1) continue
+
+    const tool = updater(msg.segments[index].tool!)
+    const segments = [...msg.segments]
+    segments[index] = { ...segments[index], tool }
+    const pendingToolCalls = new Map(msg.pendingToolCalls)
+    if (pendingToolCalls.has(callId)) pendingToolCalls.set(callId, tool)
+
+    const newMessages = [...messages]
+    newMessages[i] = { ...msg, segments, pendingToolCalls }
+    return newMessages
+  }
+  return messages
+}
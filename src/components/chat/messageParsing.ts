@@ -1,4 +1,5 @@
 import type { ContentSegment, Message, ToolCall } from './types'
+import { parseXmlToolCall } from './toolCallXml'
 
 export function parseToolMemoryMessage(content: string): { name: string; output: string } {
   const trimmed = (content ?? '').trim()
@@ -58,26 +59,19 @@ function parseToolCallPayload(payload: string): { name?: string; arguments?: Rec
   const trimmed = payload.trim()
 
   // JSON 格式：{"name":"bash","arguments":{...}}
-  if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+  if (trimmed.startsWith('{')) {
     try {
       const json = JSON.parse(trimmed) as { name?: string; arguments?: Record<string, unknown> }
       return { name: json.name, arguments: json.arguments }
     } catch {
-      return {}
+      // 截断的 JSON：至少保留工具名
+      const name = trimmed.match(/"name"\s*:\s*"((?:[^"\\]|\\.)*)"/)?.[1]
+      return { name }
     }
   }
 
   // XML 格式：<name>bash</name><arguments>...</arguments>
-  const nameMatch = trimmed.match(/<name>\s*([^<]+?)\s*<\/name>/i)
-  const argsMatch = trimmed.match(/<arguments>([\s\S]*?)<\/arguments>/i)
-  const name = nameMatch?.[1]?.trim()
-  if (!argsMatch) {
-    return { name }
-  }
-
-  // 不做复杂 XML->Object 解析，保留原始 XML 片段，避免误解析造成“乱”
-  const argsXml = argsMatch[1].trim()
-  return { name, arguments: argsXml ? ({ _xml: argsXml } as Record<string, unknown>) : undefined }
+  return parseXmlToolCall(trimmed)
 }
 
 // 过滤掉 <tool_call> 标签的原始文本（因为工具调用已通过 tool_start 事件单独渲染）
@@ -93,11 +87,13 @@ export function filterToolCallTags(content: string): string {
 }
 
 // 解析消息内容（历史消息）：仅识别明确的 MCP 标签 <tool_call>/<tool_result>
-export function parseMessageContent(content: string): ContentSegment[] {
+// streaming 为 true 时内容仍在输出，末尾未闭合的调用保持运行中
+export function parseMessageContent(content: string, streaming = false): ContentSegment[] {
   const segments: ContentSegment[] = []
   const pendingByName = new Map<string, ToolCall[]>()
 
-  const tagRegex = /<tool_call>[\s\S]*?<\/tool_call>|<tool_result\s+name="[^"]+"\s*>[\s\S]*?<\/tool_result>/g
+  // 末尾未闭合的 <tool_call>（输出被截断）同样解析
+  const tagRegex = /<tool_call>[\s\S]*?(?:<\/tool_call>|$)|<tool_result\s+name="[^"]+"\s*>[\s\S]*?<\/tool_result>/g
   let lastIndex = 0
 
   const pushText = (text: string) => {
@@ -125,13 +121,16 @@ export function parseMessageContent(content: string): ContentSegment[] {
     }
 
     if (full.startsWith('<tool_call>')) {
+      const closed = full.endsWith('</tool_call>')
       const inner = full.replace(/^<tool_call>/, '').replace(/<\/tool_call>$/, '')
       const parsed = parseToolCallPayload(inner)
       const tool: ToolCall = {
         id: `hist-tool-${segments.length}`,
         name: parsed.name || 'tool',
-        status: 'done',
+        // 未闭合的调用：仍在输出时保持运行中，否则为被截断的调用
+        status: closed || !streaming ? 'done' : 'running',
         arguments: parsed.arguments,
+        truncated: closed || streaming ? undefined : true,
       }
 
       const key = tool.name
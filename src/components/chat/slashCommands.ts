@@ -0,0 +1,63 @@
+import type { ServiceCommand } from '../../types'
+
+// 斜杠命令：内置命令由 ChatPanel 执行，服务命令插入模板或交给服务端执行
+export interface SlashCommand {
+  name: string // 不含 "/"
+  description: string
+  argsHint?: string
+  source: 'builtin' | 'service'
+  template?: string
+  action?: boolean
+}
+
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+  { name: 'new', description: '新建会话', source: 'builtin' },
+  { name: 'cancel', description: '取消正在运行的任务', source: 'builtin' },
+  { name: 'clear', description: '清空当前会话（旧对话保留为分支）', source: 'builtin' },
+  { name: 'rename', description: '重命名当前会话', argsHint: '<标题>', source: 'builtin' },
+  { name: 'export', description: '导出对话为 Markdown', source: 'builtin' },
+  { name: 'terminal', description: '打开/关闭终端面板', source: 'builtin' },
+  { name: 'changes', description: '打开/关闭本会话的文件改动面板', source: 'builtin' },
+  { name: 'recordings', description: '查看终端录制', source: 'builtin' },
+  { name: 'model', description: '查看或切换模型', argsHint: '[模型名]', source: 'builtin' },
+]
+
+/**
+ * 合并内置命令与服务命令（同名时内置命令优先）
+ */
+export function mergeSlashCommands(serviceCommands: ServiceCommand[]): SlashCommand[] {
+  const builtin = new Set(BUILTIN_COMMANDS.map(c => c.name))
+  return [
+    ...BUILTIN_COMMANDS,
+    ...serviceCommands
+      .filter(c => c.name && !builtin.has(c.name))
+      .map((c): SlashCommand => ({
+        name: c.name,
+        description: c.description || '',
+        argsHint: c.argsHint,
+        source: 'service',
+        template: c.template,
+        action: c.action,
+      })),
+  ]
+}
+
+/**
+ * 解析输入框中的命令：只有以 "/" 开头的单行输入才视为命令
+ * typingName 为 true 表示仍在输入命令名（尚未输入空格）
+ */
+export function parseSlashInput(input: string): { name: string; args: string; typingName: boolean } | null {
+  const m = input.match(/^\/([\w-]*)(?:(\s)([^\n]*))?$/)
+  if (!m) return null
+  return { name: m[1], args: (m[3] || '').trim(), typingName: m[2] === undefined }
+}
+
+/**
+ * 按命令名匹配：前缀匹配优先，其次为包含
+ */
+export function matchSlashCommands(commands: SlashCommand[], query: string): SlashCommand[] {
+  const q = query.toLowerCase()
+  const prefix = commands.filter(c => c.name.toLowerCase().startsWith(q))
+  const contains = commands.filter(c => !c.name.toLowerCase().startsWith(q) && c.name.toLowerCase().includes(q))
+  return [...prefix, ...contains]
+}
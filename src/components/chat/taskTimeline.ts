@@ -0,0 +1,86 @@
+import type { Message, ToolCall } from './types'
+
+// 时间线上的一次工具调用（时间为毫秒时间戳）
+export interface TimelineBar {
+  tool: ToolCall
+  start: number
+  end: number
+  lane: number // 并行时分到不同的行
+  running: boolean
+}
+
+// 没有工具在运行的区间：模型思考/输出
+export interface TimelineGap {
+  start: number
+  end: number
+}
+
+export interface TaskTimeline {
+  start: number
+  end: number
+  bars: TimelineBar[]
+  gaps: TimelineGap[]
+  lanes: number // 最大并行数
+}
+
+/**
+ * 由一条 assistant 消息中的工具调用时间计算任务时间线；没有时间信息（历史记录）时返回 null
+ */
+export function buildTaskTimeline(msg: Message, now: number): TaskTimeline | null {
+  const tools = msg.segments
+    .map(seg => (seg.type === 'tool' ? seg.tool : undefined))
+    .filter((tool): tool is ToolCall => !!tool && tool.startedAt !== undefined)
+  if (tools.length === 0) return null
+
+  const start = msg.timestamp
+  const running = msg.status === 'streaming'
+
+  const bars: TimelineBar[] = tools
+    .map(tool => {
+      const end = tool.completedAt ?? (tool.status === 'running' && running ? now : tool.startedAt!)
+      // 续传重放时事件几乎同时到达，以服务端统计的耗时为准
+      const measuredStart = tool.completedAt !== undefined && tool.durationMs !== undefined
+        ? tool.completedAt - tool.durationMs
+        : tool.startedAt!
+      return {
+        tool,
+        start: Math.max(start, Math.min(tool.startedAt!, measuredStart)),
+        end,
+        lane: 0,
+        running: tool.status === 'running' && running,
+      }
+    })
+    .sort((a, b) => a.start - b.start)
+
+  // 贪心分配行：放到第一个已空闲的行
+  const laneEnds: number[] = []
+  for (const bar of bars) {
+    const lane = laneEnds.findIndex(end => end <= bar.start)
+    bar.lane = lane === -1 ? laneEnds.length : lane
+    laneEnds[bar.lane] = bar.end
+  }
+
+  const lastEnd = Math.max(...bars.map(bar => bar.end))
+  const end = Math.max(lastEnd, msg.completedAt ?? (running ? now : lastEnd))
+
+  // 工具运行区间的并集之外即为思考间隙
+  const gaps: TimelineGap[] = []
+  let cursor = start
+  for (const bar of bars) {
+    if (bar.start > cursor) gaps.push({ start: cursor, end: bar.start })
+    cursor = Math.max(cursor, bar.end)
+  }
+  if (end > cursor) gaps.push({ start: cursor, end })
+
+  return { start, end, bars, gaps, lanes: laneEnds.length }
+}
+
+/**
+ * 格式化耗时：850ms / 1.2s / 2m05s
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+  const seconds = Math.round(ms / 1000)
+  return `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s`
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import { parseXmlToolCall } from './toolCallXml'
+import { parseMessageContent } from './messageParsing'
+
+describe('parseXmlToolCall', () => {
+  it('parses name and argument tags', () => {
+    expect(parseXmlToolCall('<name>bash</name><arguments><command>ls -la</command><timeout>30</timeout></arguments>')).toEqual({
+      name: 'bash',
+      arguments: { command: 'ls -la', timeout: 30 },
+    })
+  })
+
+  it('parses invoke/parameter form', () => {
+    expect(parseXmlToolCall('<invoke name="read"><parameter name="path">a.ts</parameter><parameter name="limit">10</parameter></invoke>')).toEqual({
+      name: 'read',
+      arguments: { path: 'a.ts', limit: 10 },
+    })
+  })
+
+  it('accepts JSON inside <arguments>', () => {
+    expect(parseXmlToolCall('<name>grep</name><arguments>{"pattern": "foo", "path": "src"}</arguments>')).toEqual({
+      name: 'grep',
+      arguments: { pattern: 'foo', path: 'src' },
+    })
+  })
+
+  describe('malformed and streamed input', () => {
+    it('auto-closes unclosed tags at the end', () => {
+      expect(parseXmlToolCall('<name>bash</name><arguments><command>npm test')).toEqual({
+        name: 'bash',
+        arguments: { command: 'npm test' },
+      })
+    })
+
+    it('drops a closing tag cut off mid-way', () => {
+      expect(parseXmlToolCall('<name>bash</name><arguments><command>ls</comm')).toEqual({
+        name: 'bash',
+        arguments: { command: 'ls' },
+      })
+    })
+
+    it('drops a tag whose attribute is truncated', () => {
+      expect(parseXmlToolCall('<invoke name="write"><parameter name="path">a.txt</parameter><parameter name="con')).toEqual({
+        name: 'write',
+        arguments: { path: 'a.txt' },
+      })
+    })
+
+    it('keeps only the name when nothing else has arrived', () => {
+      expect(parseXmlToolCall('<name>bash</name><argu')).toEqual({ name: 'bash' })
+    })
+
+    it('treats stray closing tags as text', () => {
+      expect(parseXmlToolCall('<name>edit</name><arguments><path>x</path></oops></arguments>')).toEqual({
+        name: 'edit',
+        arguments: { path: 'x' },
+      })
+    })
+
+    it('falls back to the raw text when arguments are not structured', () => {
+      expect(parseXmlToolCall('<name>bash</name><arguments>just some text</arguments>')).toEqual({
+        name: 'bash',
+        arguments: { _raw: 'just some text' },
+      })
+    })
+  })
+
+  describe('text arguments', () => {
+    it('keeps markup inside text keys as a raw string', () => {
+      expect(parseXmlToolCall('<name>write</name><arguments><path>a.html</path><content><div>hello</div></content></arguments>')).toEqual({
+        name: 'write',
+        arguments: { path: 'a.html', content: '<div>hello</div>' },
+      })
+    })
+
+    it('keeps nested JSX inside text keys', () => {
+      const content = '<App>\n  <Header title="x" />\n</App>'
+      expect(parseXmlToolCall(`<invoke name="write"><parameter name="content">${content}</parameter></invoke>`).arguments).toEqual({
+        content,
+      })
+    })
+
+    it('keeps unclosed markup inside a streamed text key', () => {
+      expect(parseXmlToolCall('<name>write</name><arguments><content><ul><li>one').arguments).toEqual({
+        content: '<ul><li>one',
+      })
+    })
+
+    it('does not coerce text keys to numbers or JSON', () => {
+      expect(parseXmlToolCall('<name>bash</name><arguments><command>42</command><text>{"a":1}</text></arguments>').arguments).toEqual({
+        command: '42',
+        text: '{"a":1}',
+      })
+    })
+  })
+
+  describe('entities and CDATA', () => {
+    it('decodes named and numeric entities', () => {
+      expect(parseXmlToolCall('<name>bash</name><arguments><command>echo &lt;a&gt; &amp;&amp; echo &quot;b&quot; &#39;c&#x27;</command></arguments>').arguments).toEqual({
+        command: `echo <a> && echo "b" 'c'`,
+      })
+    })
+
+    it('decodes entities in attributes', () => {
+      expect(parseXmlToolCall('<invoke name="a&amp;b"><parameter name="x">1</parameter></invoke>').name).toBe('a&b')
+    })
+
+    it('leaves unknown entities untouched', () => {
+      expect(parseXmlToolCall('<name>bash</name><arguments><command>a &nbsp; b</command></arguments>').arguments).toEqual({
+        command: 'a &nbsp; b',
+      })
+    })
+
+    it('keeps CDATA content verbatim', () => {
+      expect(parseXmlToolCall('<name>write</name><arguments><content><![CDATA[if (a < b && c) {}]]></content></arguments>').arguments).toEqual({
+        content: 'if (a < b && c) {}',
+      })
+    })
+
+    it('mixes CDATA and markup in text keys without keeping CDATA markers', () => {
+      expect(parseXmlToolCall('<name>write</name><arguments><content><p>&amp;</p><![CDATA[<&>]]></content></arguments>').arguments).toEqual({
+        content: '<p>&</p><&>',
+      })
+    })
+  })
+})
+
+describe('parseMessageContent tool calls', () => {
+  it('marks closed tool calls as done', () => {
+    const [segment] = parseMessageContent('<tool_call><name>bash</name><arguments><command>ls</command></arguments></tool_call>')
+    expect(segment.tool).toMatchObject({ name: 'bash', status: 'done', arguments: { command: 'ls' } })
+  })
+
+  it('keeps an unclosed tool call running while the message is streaming', () => {
+    const segments = parseMessageContent('Running it now.<tool_call><name>bash</name><arguments><command>npm te', true)
+    expect(segments[0]).toEqual({ type: 'text', content: 'Running it now.' })
+    expect(segments[1].tool).toMatchObject({ name: 'bash', status: 'running', arguments: { command: 'npm te' } })
+    expect(segments[1].tool?.truncated).toBeUndefined()
+  })
+
+  it('marks an unclosed tool call in a finished message as truncated', () => {
+    const [segment] = parseMessageContent('<tool_call><name>bash</name><arguments><command>npm te')
+    expect(segment.tool).toMatchObject({ name: 'bash', status: 'done', truncated: true })
+  })
+
+  it('keeps the tool name from truncated JSON', () => {
+    const [segment] = parseMessageContent('<tool_call>{"name": "read", "arguments": {"path": "a.', true)
+    expect(segment.tool).toMatchObject({ name: 'read', status: 'running' })
+  })
+})
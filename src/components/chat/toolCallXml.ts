@@ -0,0 +1,181 @@
+// 历史消息中 XML 格式的工具调用：<tool_call><name>…</name><arguments>…</arguments></tool_call>
+// 宽松解析：未闭合的标签在末尾自动闭合（截断/流式输出），无法配对的结束标签按文本处理
+
+interface XmlElement {
+  tag: string
+  attrs: Record<string, string>
+  children: XmlElement[]
+  text: string // 直接包含的文本（实体已解码）
+  raw: string // 原始内部内容
+}
+
+const TOKEN = /<!\[CDATA\[([\s\S]*?)(?:\]\]>|$)|<\/([A-Za-z_][\w:.-]*)\s*>|<([A-Za-z_][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+const ATTR = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+// 以 name 属性为参数名的标签：<parameter name="command">ls</parameter>
+const PARAM_TAGS = new Set(['parameter', 'param', 'arg', 'argument'])
+const NAME_TAGS = ['name', 'tool_name', 'tool']
+const ARGUMENT_TAGS = ['arguments', 'args', 'parameters', 'params', 'input']
+// 这些参数总是按原文保留为字符串（文件内容、命令等）
+const TEXT_KEYS = new Set([
+  'content', 'file_text', 'text', 'old_string', 'new_string', 'old_str', 'new_str', 'old_text', 'new_text',
+  'patch', 'diff', 'command', 'cmd', 'code', 'script', 'query', 'pattern',
+])
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[\da-f]+);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'lt': return '<'
+      case 'gt': return '>'
+      case 'amp': return '&'
+      case 'quot': return '"'
+      case 'apos': return "'"
+    }
+    const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+    return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity
+  })
+}
+
+// 原始内容转为文本：CDATA 原样保留，其余部分解码实体
+function rawText(raw: string): string {
+  let text = ''
+  let last = 0
+  for (const m of raw.matchAll(/<!\[CDATA\[([\s\S]*?)(?:\]\]>|$)/g)) {
+    const index = m.index ?? 0
+    text += decodeEntities(raw.slice(last, index)) + m[1]
+    last = index + m[0].length
+  }
+  return text + decodeEntities(raw.slice(last))
+}
+
+function parseXml(xml: string): XmlElement {
+  // 去掉末尾不完整的标签（如流式输出中的 "</comm"）
+  const source = xml.replace(/<[^>]*$/, '')
+  const root: XmlElement = { tag: '', attrs: {}, children: [], text: '', raw: source }
+  const stack: Array<{ el: XmlElement; innerStart: number }> = [{ el: root, innerStart: 0 }]
+  let last = 0
+
+  for (const m of source.matchAll(TOKEN)) {
+    const index = m.index ?? 0
+    const current = stack[stack.length - 1].el
+    current.text += decodeEntities(source.slice(last, index))
+    last = index + m[0].length
+
+    if (m[1] !== undefined) {
+      current.text += m[1]
+    } else if (m[2] !== undefined) {
+      let depth = stack.length - 1
+      while (depth > 0 && stack[depth].el.tag !== m[2]) depth--
+      if (depth === 0) {
+        current.text += m[0]
+        continue
+      }
+      // 一并闭合其中未闭合的子元素
+      for (const frame of stack.splice(depth)) frame.el.raw = source.slice(frame.innerStart, index)
+    } else {
+      const attrs: Record<string, string> = {}
+      for (const a of (m[4] || '').matchAll(ATTR)) attrs[a[1]] = decodeEntities(a[2] ?? a[3] ?? '')
+      const el: XmlElement = { tag: m[3], attrs, children: [], text: '', raw: '' }
+      current.children.push(el)
+      if (!m[5]) stack.push({ el, innerStart: last })
+    }
+  }
+
+  stack[stack.length - 1].el.text += decodeEntities(source.slice(last))
+  for (const frame of stack.slice(1)) frame.el.raw = source.slice(frame.innerStart)
+  return root
+}
+
+function childKey(el: XmlElement): string {
+  return PARAM_TAGS.has(el.tag.toLowerCase()) && el.attrs.name ? el.attrs.name : el.tag
+}
+
+function tryParseJson(text: string): unknown {
+  const t = text.trim()
+  if (!(t.startsWith('{') && t.endsWith('}')) && !(t.startsWith('[') && t.endsWith(']'))) return undefined
+  try {
+    return JSON.parse(t)
+  } catch {
+    return undefined
+  }
+}
+
+// 叶子值：去掉标签两侧的换行；除原文参数外，识别数字、布尔、null 与 JSON
+function leafValue(text: string, key?: string): unknown {
+  const value = text.replace(/^\r?\n/, '').replace(/\r?\n$/, '')
+  if (key && TEXT_KEYS.has(key)) return value
+  const t = value.trim()
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(t)) return Number(t)
+  if (t === 'true' || t === 'false') return t === 'true'
+  if (t === 'null') return null
+  return tryParseJson(t) ?? value
+}
+
+// 除无法配对的结束标签外是否还有文本
+function hasText(el: XmlElement): boolean {
+  return el.text.replace(/<\/[A-Za-z_][\w:.-]*\s*>/g, '').trim() !== ''
+}
+
+function elementValue(el: XmlElement, key?: string): unknown {
+  if (el.children.length === 0) return leafValue(el.text, key)
+  // 原文参数中的标签（HTML、JSX 等）是内容的一部分，不解析为子元素
+  if (key && TEXT_KEYS.has(key)) return leafValue(rawText(el.raw), key)
+  // 文本与标签混排（如代码中的 List<String>）：按原文处理
+  if (hasText(el)) return leafValue(rawText(el.raw), key)
+  return childrenValue(el, false)
+}
+
+// 子元素转为对象；同名子元素为数组（<edits><edit/><edit/></edits> → edits: [...]）
+function childrenValue(el: XmlElement, forceObject: boolean): unknown {
+  const keys = el.children.map(childKey)
+  const same = keys.every(k => k === keys[0])
+  if (!forceObject && same && (keys.length > 1 || keys[0] === 'item' || el.tag === `${keys[0]}s`)) {
+    return el.children.map((child, i) => elementValue(child, keys[i]))
+  }
+
+  const result: Record<string, unknown> = {}
+  const repeated = new Set<string>()
+  el.children.forEach((child, i) => {
+    const key = keys[i]
+    const value = elementValue(child, key)
+    if (!(key in result)) {
+      result[key] = value
+    } else if (repeated.has(key)) {
+      (result[key] as unknown[]).push(value)
+    } else {
+      result[key] = [result[key], value]
+      repeated.add(key)
+    }
+  })
+  return result
+}
+
+// <arguments> 的内容：JSON 对象或参数标签；都不是时保留原文
+function argumentsValue(el: XmlElement): Record<string, unknown> | undefined {
+  const json = tryParseJson(rawText(el.raw))
+  if (json && typeof json === 'object' && !Array.isArray(json)) return json as Record<string, unknown>
+  if (el.children.length > 0 && !hasText(el)) return childrenValue(el, true) as Record<string, unknown>
+  const raw = (el.children.length > 0 ? el.raw : el.text).trim()
+  return raw ? { _raw: raw } : undefined
+}
+
+/**
+ * 解析 <tool_call> 内部的 XML：工具名与参数
+ * 支持 <name>/<arguments> 子标签、直接列出的参数标签，以及 <invoke name="…"><parameter name="…"> 形式
+ */
+export function parseXmlToolCall(payload: string): { name?: string; arguments?: Record<string, unknown> } {
+  let root = parseXml(payload.trim())
+  const invoke = root.children.find(c => (c.tag === 'invoke' || c.tag === 'function') && c.attrs.name)
+  if (invoke) root = invoke
+
+  const nameEl = root.children.find(c => NAME_TAGS.includes(c.tag))
+  const name = (invoke?.attrs.name ?? nameEl?.text)?.trim() || undefined
+
+  const argsEl = root.children.find(c => ARGUMENT_TAGS.includes(c.tag))
+  if (argsEl) return { name, arguments: argumentsValue(argsEl) }
+
+  // 没有 <arguments> 包裹时，其余子标签即为参数
+  const params = root.children.filter(c => c !== nameEl)
+  if (params.length === 0) return { name }
+  return { name, arguments: childrenValue({ ...root, children: params, text: '' }, true) as Record<string, unknown> }
+}
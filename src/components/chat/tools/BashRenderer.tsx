@@ -0,0 +1,38 @@
+import { useMemo } from 'react'
+import { parseAnsi } from './ansi'
+import { stringArg, type ToolRendererProps } from './registry'
+
+// 输出最多渲染的字符数（超出部分截断，避免巨量日志拖慢页面）
+const MAX_OUTPUT_CHARS = 100_000
+
+// bash：命令行 + 带 ANSI 颜色的输出
+export default function BashRenderer({ args, output }: ToolRendererProps) {
+  const command = stringArg(args, 'command', 'cmd', 'script')
+  const cwd = stringArg(args, 'cwd', 'workdir', 'working_dir')
+  const truncated = output.length > MAX_OUTPUT_CHARS
+  const spans = useMemo(() => parseAnsi(truncated ? output.slice(-MAX_OUTPUT_CHARS) : output), [output, truncated])
+
+  return (
+    <div className="font-mono text-xs bg-zinc-950 text-zinc-200 rounded-md overflow-hidden">
+      {command && (
+        <div className="px-3 py-2 border-b border-white/10 whitespace-pre-wrap wrap-break-word">
+          {cwd && <span className="text-zinc-500">{cwd} </span>}
+          <span className="text-green-400 select-none">$ </span>
+          {command}
+        </div>
+      )}
+      {output && (
+        <pre className="px-3 py-2 max-h-80 overflow-auto whitespace-pre-wrap wrap-break-word">
+          {truncated && <div className="text-zinc-500 mb-1">…（仅显示最后 {MAX_OUTPUT_CHARS} 个字符）</div>}
+          {spans.map((span, i) => (
+            <span key={i} style={span.style}>{span.text}</span>
+          ))}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+export function bashSummary(args: Record<string, unknown>): string | undefined {
+  return stringArg(args, 'command', 'cmd', 'script')?.split('\n')[0]
+}
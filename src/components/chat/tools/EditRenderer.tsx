@@ -0,0 +1,24 @@
+import { useMemo } from 'react'
+import DiffViewer from '../DiffViewer'
+import { parseUnifiedDiff } from '../lineDiff'
+import { editToolDiff } from '../fileChanges'
+import type { ToolRendererProps } from './registry'
+
+// edit / write：diff 查看器
+export default function EditRenderer({ args, output }: ToolRendererProps) {
+  const files = useMemo(() => editToolDiff(args, output), [args, output])
+  const outputIsDiff = useMemo(() => Boolean(output && parseUnifiedDiff(output)), [output])
+
+  return (
+    <div className="space-y-2">
+      {files ? (
+        <DiffViewer files={files} className="max-h-96" />
+      ) : (
+        <pre className="px-3 py-2 text-xs font-mono whitespace-pre-wrap">{JSON.stringify(args, null, 2)}</pre>
+      )}
+      {output && !outputIsDiff && (
+        <pre className="px-1 text-xs font-mono text-muted-foreground whitespace-pre-wrap wrap-break-word max-h-24 overflow-y-auto">{output}</pre>
+      )}
+    </div>
+  )
+}
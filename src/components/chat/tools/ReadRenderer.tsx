@@ -0,0 +1,63 @@
+import { useMemo, useState } from 'react'
+import { highlightLines, languageForPath } from '../../MarkdownRenderer'
+import { stringArg, type ToolRendererProps } from './registry'
+
+// 默认显示的行数，超出部分点击展开
+const INITIAL_LINES = 400
+
+// 带行号的输出（cat -n 风格）：行号后跟制表符、→、| 或冒号
+const NUMBERED_LINE = /^\s*(\d+)(?:\t|→|\s*\|\s?|:\s)(.*)$/
+
+// 拆出输出自带的行号；多数行不带行号时从 start 开始编号
+function splitNumberedLines(output: string, start: number): { numbers: number[]; code: string } {
+  const lines = output.replace(/\n$/, '').split('\n')
+  const matches = lines.map(line => line.match(NUMBERED_LINE))
+  const numbered = matches.filter(Boolean).length
+  if (lines.length > 0 && numbered >= lines.length * 0.8) {
+    let prev = start - 1
+    const numbers = matches.map(m => (prev = m ? Number(m[1]) : prev + 1))
+    return { numbers, code: lines.map((line, i) => (matches[i] ? matches[i]![2] : line)).join('\n') }
+  }
+  return { numbers: lines.map((_, i) => start + i), code: lines.join('\n') }
+}
+
+// read：语法高亮的文件内容 + 行号
+export default function ReadRenderer({ args, output }: ToolRendererProps) {
+  const path = stringArg(args, 'file_path', 'path', 'filename', 'file')
+  const offset = Number(args.offset ?? args.start_line ?? args.line ?? 1) || 1
+  const [showAll, setShowAll] = useState(false)
+
+  const { numbers, html } = useMemo(() => {
+    const { numbers, code } = splitNumberedLines(output, offset)
+    return { numbers, html: highlightLines(code, path ? languageForPath(path) : undefined) }
+  }, [output, offset, path])
+
+  const visible = showAll ? html : html.slice(0, INITIAL_LINES)
+
+  return (
+    <div className="rounded-md overflow-hidden border border-border/40">
+      {path && <div className="px-3 py-1.5 text-xs font-mono text-muted-foreground bg-muted/40 truncate">{path}</div>}
+      <div className="hljs max-h-96 overflow-auto text-xs font-mono">
+        <table className="border-collapse">
+          <tbody>
+            {visible.map((line, i) => (
+              <tr key={i}>
+                <td className="px-2 text-right select-none text-muted-foreground/50 align-top">{numbers[i]}</td>
+                <td className="pr-3 whitespace-pre" dangerouslySetInnerHTML={{ __html: line || ' ' }} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!showAll && html.length > INITIAL_LINES && (
+          <button onClick={() => setShowAll(true)} className="w-full py-1.5 text-xs text-muted-foreground hover:text-foreground">
+            显示全部 {html.length} 行
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function readSummary(args: Record<string, unknown>): string | undefined {
+  return stringArg(args, 'file_path', 'path', 'filename', 'file')
+}
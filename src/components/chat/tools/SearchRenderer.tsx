@@ -0,0 +1,93 @@
+import { useContext, useMemo } from 'react'
+import { FileText } from 'lucide-react'
+import { stringArg, ToolRenderContext, type ToolRendererProps } from './registry'
+
+interface SearchMatch {
+  line?: number
+  text?: string
+}
+
+// 最多显示的文件数
+const MAX_FILES = 100
+
+// grep / rg 输出：path:line:text（或 path-line-text 上下文行）；只有路径时为文件列表
+function parseMatches(output: string): Array<{ path: string; matches: SearchMatch[] }> | null {
+  const groups = new Map<string, SearchMatch[]>()
+  let parsed = 0
+  const lines = output.split('\n').filter(line => line.trim() && line !== '--')
+
+  for (const line of lines) {
+    const m = line.match(/^(.+?)[:-](\d+)[:-](.*)$/)
+    if (m) {
+      const list = groups.get(m[1]) ?? []
+      list.push({ line: Number(m[2]), text: m[3] })
+      groups.set(m[1], list)
+      parsed++
+    } else if (!/\s{2,}|^\s/.test(line) && !line.includes(': ')) {
+      // 单独的路径（files_with_matches / glob）
+      if (!groups.has(line)) groups.set(line, [])
+      parsed++
+    }
+  }
+
+  if (lines.length === 0 || parsed < lines.length * 0.8) return null
+  return [...groups.entries()].map(([path, matches]) => ({ path, matches }))
+}
+
+// search / grep：按文件分组的匹配列表，点击引用到输入框
+export default function SearchRenderer({ args, output }: ToolRendererProps) {
+  const { onOpenFile } = useContext(ToolRenderContext)
+  const pattern = stringArg(args, 'pattern', 'query', 'regex', 'glob')
+  const groups = useMemo(() => parseMatches(output), [output])
+
+  if (!groups) {
+    return <pre className="text-xs font-mono whitespace-pre-wrap wrap-break-word text-muted-foreground">{output}</pre>
+  }
+
+  const matchCount = groups.reduce((n, g) => n + Math.max(1, g.matches.length), 0)
+
+  return (
+    <div className="text-xs">
+      <div className="mb-1 text-muted-foreground">
+        {pattern && <span className="font-mono text-foreground">{pattern}</span>} · {groups.length} 个文件，{matchCount} 处匹配
+      </div>
+      <div className="space-y-1.5">
+        {groups.slice(0, MAX_FILES).map(group => (
+          <div key={group.path}>
+            <button
+              type="button"
+              onClick={() => onOpenFile?.(group.path)}
+              disabled={!onOpenFile}
+              className="flex items-center gap-1 max-w-full font-mono text-primary hover:underline disabled:no-underline disabled:text-foreground"
+              title={onOpenFile ? '引用到输入框' : undefined}
+            >
+              <FileText className="size-3 shrink-0" />
+              <span className="truncate">{group.path}</span>
+            </button>
+            {group.matches.map((match, i) => (
+              <button
+                key={i}
+                type="button"
+                onClick={() => onOpenFile?.(group.path, match.line)}
+                disabled={!onOpenFile}
+                className="flex w-full gap-2 pl-4 py-0.5 font-mono text-left rounded hover:bg-muted/50 disabled:hover:bg-transparent"
+              >
+                <span className="w-10 shrink-0 text-right text-muted-foreground/60">{match.line}</span>
+                <span className="truncate text-muted-foreground">{match.text}</span>
+              </button>
+            ))}
+          </div>
+        ))}
+        {groups.length > MAX_FILES && (
+          <div className="text-muted-foreground/70">还有 {groups.length - MAX_FILES} 个文件未显示</div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function searchSummary(args: Record<string, unknown>): string | undefined {
+  const pattern = stringArg(args, 'pattern', 'query', 'regex', 'glob')
+  const path = stringArg(args, 'path', 'dir', 'directory')
+  return pattern && path ? `${pattern} · ${path}` : pattern
+}
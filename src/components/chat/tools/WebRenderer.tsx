@@ -0,0 +1,113 @@
+import { useMemo } from 'react'
+import { ExternalLink, Globe } from 'lucide-react'
+import { stringArg, type ToolRendererProps } from './registry'
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'()[\]]+/g
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return url
+  }
+}
+
+// 只链接 http/https 地址：工具参数来自 agent，javascript:/data: 等会在应用的源中执行
+function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// 从抓取结果中取标题：HTML <title>、Markdown 一级标题或第一行
+function extractTitle(output: string): string | undefined {
+  const title = output.match(/<title[^>]*>([^<]+)<\/title>/i)?.[1] || output.match(/^#\s+(.+)$/m)?.[1]
+  return (title || output.split('\n').find(line => line.trim()))?.trim().slice(0, 120)
+}
+
+function snippetOf(output: string): string {
+  return output
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/^#+\s+.*$/m, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 300)
+}
+
+function LinkCard({ url, title, snippet }: { url: string; title?: string; snippet?: string }) {
+  const linkable = isWebUrl(url)
+  const body = (
+    <>
+      <Globe className="size-4 mt-0.5 shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-1 text-xs">
+          <span className="truncate text-foreground font-medium">{title || hostnameOf(url)}</span>
+          {linkable && <ExternalLink className="size-3 shrink-0 text-muted-foreground" />}
+        </div>
+        <div className="text-[11px] text-muted-foreground truncate">{url}</div>
+        {snippet && <div className="mt-1 text-[11px] text-muted-foreground/80 line-clamp-3">{snippet}</div>}
+      </div>
+    </>
+  )
+
+  // 其他协议的地址只显示为文本
+  if (!linkable) {
+    return <div className="flex gap-2 p-2 rounded-md border border-border/40 bg-background/60">{body}</div>
+  }
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex gap-2 p-2 rounded-md border border-border/40 bg-background/60 hover:bg-muted/50 transition-colors"
+    >
+      {body}
+    </a>
+  )
+}
+
+// web / fetch：抓取的页面显示为链接卡片；搜索结果显示其中的链接列表
+export default function WebRenderer({ args, output }: ToolRendererProps) {
+  const url = stringArg(args, 'url', 'uri', 'href')
+  const query = stringArg(args, 'query', 'q')
+
+  const links = useMemo(() => {
+    if (url) return []
+    // 搜索结果：每个链接取同一行（或上一行）的文字作为标题
+    const lines = output.split('\n')
+    const seen = new Set<string>()
+    const result: Array<{ url: string; title?: string }> = []
+    lines.forEach((line, i) => {
+      for (const m of line.matchAll(URL_PATTERN)) {
+        const link = m[0].replace(/[.,;:]+$/, '')
+        if (seen.has(link)) continue
+        seen.add(link)
+        const text = line.replace(URL_PATTERN, '').replace(/[[\]()*:-]+/g, ' ').trim() || lines[i - 1]?.trim()
+        result.push({ url: link, title: text?.slice(0, 120) })
+      }
+    })
+    return result.slice(0, 20)
+  }, [output, url])
+
+  if (url) {
+    return <LinkCard url={url} title={output ? extractTitle(output) : undefined} snippet={output ? snippetOf(output) : undefined} />
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {query && <div className="text-xs text-muted-foreground">搜索：<span className="text-foreground">{query}</span></div>}
+      {links.length > 0 ? (
+        links.map(link => <LinkCard key={link.url} url={link.url} title={link.title} />)
+      ) : (
+        <pre className="text-xs font-mono whitespace-pre-wrap wrap-break-word text-muted-foreground max-h-64 overflow-y-auto">{output}</pre>
+      )}
+    </div>
+  )
+}
+
+export function webSummary(args: Record<string, unknown>): string | undefined {
+  return stringArg(args, 'url', 'uri', 'href', 'query', 'q')
+}
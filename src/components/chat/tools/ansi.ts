@@ -0,0 +1,118 @@
+import type { CSSProperties } from 'react'
+
+// ANSI 转义序列解析：只处理 SGR（颜色、粗体等），其他控制序列直接去掉
+
+export interface AnsiSpan {
+  text: string
+  style: CSSProperties
+}
+
+// 标准 16 色（与常见深色终端主题接近）
+const COLORS = [
+  '#3f3f46', '#f87171', '#4ade80', '#facc15', '#60a5fa', '#c084fc', '#22d3ee', '#e4e4e7',
+  '#71717a', '#fca5a5', '#86efac', '#fde047', '#93c5fd', '#d8b4fe', '#67e8f9', '#fafafa',
+]
+
+// 256 色表中 16 之后的颜色
+function color256(n: number): string | undefined {
+  if (n < 16) return COLORS[n]
+  if (n < 232) {
+    const v = n - 16
+    const c = (x: number) => (x === 0 ? 0 : 55 + x * 40)
+    return `rgb(${c(Math.floor(v / 36))}, ${c(Math.floor(v / 6) % 6)}, ${c(v % 6)})`
+  }
+  if (n < 256) {
+    const g = 8 + (n - 232) * 10
+    return `rgb(${g}, ${g}, ${g})`
+  }
+  return undefined
+}
+
+interface SgrState {
+  fg?: string
+  bg?: string
+  bold?: boolean
+  dim?: boolean
+  italic?: boolean
+  underline?: boolean
+}
+
+function applySgr(state: SgrState, codes: number[]): SgrState {
+  const next = { ...state }
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i]
+    if (code === 0) Object.keys(next).forEach(k => delete next[k as keyof SgrState])
+    else if (code === 1) next.bold = true
+    else if (code === 2) next.dim = true
+    else if (code === 3) next.italic = true
+    else if (code === 4) next.underline = true
+    else if (code === 22) next.bold = next.dim = false
+    else if (code === 23) next.italic = false
+    else if (code === 24) next.underline = false
+    else if (code >= 30 && code <= 37) next.fg = COLORS[code - 30]
+    else if (code >= 90 && code <= 97) next.fg = COLORS[code - 90 + 8]
+    else if (code === 39) next.fg = undefined
+    else if (code >= 40 && code <= 47) next.bg = COLORS[code - 40]
+    else if (code >= 100 && code <= 107) next.bg = COLORS[code - 100 + 8]
+    else if (code === 49) next.bg = undefined
+    else if ((code === 38 || code === 48) && codes[i + 1] === 5) {
+      const color = color256(codes[i + 2])
+      if (code === 38) next.fg = color
+      else next.bg = color
+      i += 2
+    } else if ((code === 38 || code === 48) && codes[i + 1] === 2) {
+      const color = `rgb(${codes[i + 2] ?? 0}, ${codes[i + 3] ?? 0}, ${codes[i + 4] ?? 0})`
+      if (code === 38) next.fg = color
+      else next.bg = color
+      i += 4
+    }
+  }
+  return next
+}
+
+function toStyle(state: SgrState): CSSProperties {
+  return {
+    color: state.fg,
+    backgroundColor: state.bg,
+    fontWeight: state.bold ? 600 : undefined,
+    opacity: state.dim ? 0.7 : undefined,
+    fontStyle: state.italic ? 'italic' : undefined,
+    textDecoration: state.underline ? 'underline' : undefined,
+  }
+}
+
+const ESCAPE_PATTERN = /\x1b\[([0-9;?]*)([A-Za-z])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][A-Za-z0-9]|\r(?!\n)/g
+
+/**
+ * 将含 ANSI 转义序列的文本拆分为带样式的片段
+ */
+export function parseAnsi(text: string): AnsiSpan[] {
+  const spans: AnsiSpan[] = []
+  let state: SgrState = {}
+  let last = 0
+
+  const push = (chunk: string) => {
+    if (!chunk) return
+    const prev = spans[spans.length - 1]
+    const style = toStyle(state)
+    if (prev && JSON.stringify(prev.style) === JSON.stringify(style)) prev.text += chunk
+    else spans.push({ text: chunk, style })
+  }
+
+  for (const m of text.matchAll(ESCAPE_PATTERN)) {
+    push(text.slice(last, m.index))
+    last = (m.index ?? 0) + m[0].length
+    if (m[2] === 'm') {
+      state = applySgr(state, (m[1] || '0').split(';').map(n => Number(n) || 0))
+    }
+  }
+  push(text.slice(last))
+  return spans
+}
+
+/**
+ * 是否包含 ANSI 转义序列
+ */
+export function hasAnsi(text: string): boolean {
+  return text.includes('\x1b[')
+}
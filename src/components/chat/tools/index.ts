@@ -0,0 +1,36 @@
+import BashRenderer, { bashSummary } from './BashRenderer'
+import EditRenderer from './EditRenderer'
+import ReadRenderer, { readSummary } from './ReadRenderer'
+import SearchRenderer, { searchSummary } from './SearchRenderer'
+import WebRenderer, { webSummary } from './WebRenderer'
+import { registerToolRenderer } from './registry'
+import { editToolPath, FILE_EDIT_TOOLS } from '../fileChanges'
+
+export { getToolRenderer, registerToolRenderer, ToolRenderContext } from './registry'
+export type { ToolRenderActions, ToolRenderer, ToolRendererProps } from './registry'
+
+// 内置渲染器（常见 Agent 的工具命名）
+registerToolRenderer(['bash', 'shell', 'run_command', 'execute_command', 'exec'], {
+  summary: tool => bashSummary(tool.arguments ?? {}),
+  component: BashRenderer,
+})
+
+registerToolRenderer(['read', 'read_file', 'view', 'cat'], {
+  summary: tool => readSummary(tool.arguments ?? {}),
+  component: ReadRenderer,
+})
+
+registerToolRenderer(FILE_EDIT_TOOLS, {
+  summary: tool => editToolPath(tool.arguments ?? {}),
+  component: EditRenderer,
+})
+
+registerToolRenderer(['grep', 'search', 'rg', 'ripgrep', 'glob', 'find', 'search_files', 'find_files'], {
+  summary: tool => searchSummary(tool.arguments ?? {}),
+  component: SearchRenderer,
+})
+
+registerToolRenderer(['web', 'fetch', 'web_fetch', 'webfetch', 'http_get', 'web_search', 'websearch', 'browse'], {
+  summary: tool => webSummary(tool.arguments ?? {}),
+  component: WebRenderer,
+})
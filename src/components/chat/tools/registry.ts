@@ -0,0 +1,73 @@
+import { createContext, type ComponentType } from 'react'
+import type { ToolCall } from '../types'
+
+/**
+ * 工具渲染器注册表 - 按工具名为 ToolCallBlock 提供专用的参数/输出视图
+ *
+ * 未注册的工具使用通用视图（参数 JSON + 输出文本）。
+ * 第三方可以调用 registerToolRenderer 注册自己的渲染器，后注册的覆盖先注册的。
+ */
+
+/** 渲染器组件的 props */
+export interface ToolRendererProps {
+  tool: ToolCall
+  /** 工具参数（缺失时为空对象） */
+  args: Record<string, unknown>
+  /** 完整输出（运行中为已收到的日志） */
+  output: string
+}
+
+export interface ToolRenderer {
+  /** 标题栏中工具名后的简短说明（如命令、文件路径） */
+  summary?: (tool: ToolCall) => string | undefined
+  component: ComponentType<ToolRendererProps>
+}
+
+const renderers = new Map<string, ToolRenderer>()
+
+function normalizeName(name: string): string {
+  return name.toLowerCase()
+}
+
+/**
+ * 注册工具渲染器，返回取消注册函数
+ */
+export function registerToolRenderer(names: string | string[], renderer: ToolRenderer): () => void {
+  const keys = (Array.isArray(names) ? names : [names]).map(normalizeName)
+  keys.forEach(key => renderers.set(key, renderer))
+  return () => {
+    keys.forEach(key => {
+      if (renderers.get(key) === renderer) renderers.delete(key)
+    })
+  }
+}
+
+/**
+ * 查找工具的渲染器：先按完整名称，再按去掉命名空间后的名称（如 mcp__fs__read_file → read_file）
+ */
+export function getToolRenderer(name: string): ToolRenderer | undefined {
+  const key = normalizeName(name)
+  const exact = renderers.get(key)
+  if (exact) return exact
+  const base = key.split(/__|[./:]/).pop()
+  return base ? renderers.get(base) : undefined
+}
+
+/**
+ * 按候选字段名读取字符串参数（各 Agent 的参数命名不同）
+ */
+export function stringArg(args: Record<string, unknown>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = args[key]
+    if (typeof value === 'string') return value
+  }
+  return undefined
+}
+
+/** 渲染器可用的交互（由聊天面板提供） */
+export interface ToolRenderActions {
+  /** 打开/引用工作目录中的文件（搜索结果点击） */
+  onOpenFile?: (path: string, line?: number) => void
+}
+
+export const ToolRenderContext = createContext<ToolRenderActions>({})
@@ -1,3 +1,5 @@
+import type { ExecuteRequest, FileReference } from '../../types'
+
 export interface ToolCall {
   id: string
   name: string
@@ -7,6 +9,21 @@ export interface ToolCall {
   progress?: number
   total?: number
   arguments?: Record<string, unknown> // 工具参数
+  approval?: ToolApproval // 审批模式下的审批状态
+  // 实时事件的时间信息（历史记录中没有）
+  startedAt?: number
+  completedAt?: number
+  durationMs?: number // 服务端统计的执行耗时
+  success?: boolean
+  truncated?: boolean // 调用内容被截断（已结束的消息中没有结束标签）
+}
+
+// 工具调用的审批状态
+export interface ToolApproval {
+  id: string
+  status: 'pending' | 'approved' | 'denied'
+  submitting?: boolean // 决定提交中
+  auto?: boolean // 按“始终允许”自动批准
 }
 
 // 内容片段：可以是文本或工具调用
@@ -22,6 +39,76 @@ export interface Message {
   content: string // 保留用于兼容
   timestamp: number
   status?: 'streaming' | 'completed' | 'error'
+  taskId?: string // 产生该消息的任务（历史记录中由后端提供）
   segments: ContentSegment[] // 按顺序的内容片段
   pendingToolCalls: Map<string, ToolCall> // 正在等待的工具调用
+  variants?: MessageVariant[] // 重新生成前的旧版本（按时间顺序，不含当前）
+  attachmentPreviews?: Record<string, string> // 附件名 → 本地图片预览 URL（仅本次发送的消息）
+  request?: Pick<ExecuteRequest, 'references' | 'attachments'> // 随 prompt 提交的 @ 引用与已上传附件（仅本次发送的消息，重新生成时一并提交）
+  // 任务结束信息（实时事件）
+  completedAt?: number
+  turns?: number
+  durationMs?: number
+}
+
+// assistant 回复的一个生成版本
+export interface MessageVariant {
+  content: string
+  segments: ContentSegment[]
+  status?: Message['status']
+  timestamp: number
+}
+
+// 输入框中待发送的附件
+export interface PendingAttachment {
+  id: string
+  file: File
+  name: string
+  size: number
+  mimeType: string
+  // text：内联为代码块；image/binary：上传到工作目录
+  kind: 'text' | 'image' | 'binary'
+  text?: string
+  previewUrl?: string // 图片的本地预览 URL
+}
+
+// 任务运行中排队等待发送的 prompt
+export interface QueuedPrompt {
+  id: string
+  text: string
+  attachments: PendingAttachment[]
+  references: FileReference[]
+  createdAt: number
+}
+
+// 切换会话后放入输入框（send 为 false）或直接发送的 prompt，例如固定到其他服务的模板
+export interface PendingPrompt {
+  sessionId: string
+  text: string
+  send: boolean
+}
+
+// 从消息内容中解析出的附件
+export interface MessageAttachment {
+  name: string
+  kind: 'text' | 'file'
+  content?: string // 内联文本
+  language?: string
+  path?: string // 已上传文件在工作目录中的路径（上传中时为空）
+}
+
+// 用户消息的分支导航（第 index + 1 个版本，共 total 个）
+export interface BranchNav {
+  index: number
+  total: number
+  prevBranchId?: string
+  nextBranchId?: string
+}
+
+// 无法识别的流事件记录（调试视图）
+export interface UnknownEventRecord {
+  id: string
+  receivedAt: number
+  event: string // 原始事件名
+  data: unknown
 }
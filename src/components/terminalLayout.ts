@@ -0,0 +1,169 @@
+// 终端工作区布局的纯函数操作：标签页与二分分屏树（每个 PTY 在布局中最多出现一次）
+
+import type { TerminalLayout, TerminalPaneNode, TerminalTab } from '../types'
+
+// 拖放到面板的哪一侧
+export type DropEdge = 'left' | 'right' | 'top' | 'bottom'
+
+export const MIN_SPLIT_RATIO = 0.1
+
+/**
+ * 分屏树中的所有 PTY（按显示顺序）
+ */
+export function paneIds(node: TerminalPaneNode): string[] {
+  return node.type === 'terminal' ? [node.ptyId] : [...paneIds(node.first), ...paneIds(node.second)]
+}
+
+/**
+ * 布局中的所有 PTY
+ */
+export function layoutPtyIds(layout: TerminalLayout): string[] {
+  return layout.tabs.flatMap(tab => paneIds(tab.root))
+}
+
+/**
+ * 包含指定 PTY 的标签页
+ */
+export function findTabOf(layout: TerminalLayout, ptyId: string): TerminalTab | undefined {
+  return layout.tabs.find(tab => paneIds(tab.root).includes(ptyId))
+}
+
+// 移除节点；分屏的一侧被移除时由另一侧取代
+function removeFromNode(node: TerminalPaneNode, remove: (ptyId: string) => boolean): TerminalPaneNode | null {
+  if (node.type === 'terminal') return remove(node.ptyId) ? null : node
+  const first = removeFromNode(node.first, remove)
+  const second = removeFromNode(node.second, remove)
+  if (!first) return second
+  if (!second) return first
+  return first === node.first && second === node.second ? node : { ...node, first, second }
+}
+
+// 移除满足条件的 PTY，空标签页一并移除
+function removeWhere(layout: TerminalLayout, remove: (ptyId: string) => boolean): TerminalLayout {
+  let changed = false
+  const tabs: TerminalTab[] = []
+  for (const tab of layout.tabs) {
+    const root = removeFromNode(tab.root, remove)
+    if (root !== tab.root) changed = true
+    if (root) tabs.push(root === tab.root ? tab : { ...tab, root })
+  }
+  if (!changed) return layout
+
+  let activeTabId = layout.activeTabId
+  if (!tabs.some(tab => tab.id === activeTabId)) {
+    // 当前标签页被移除时切换到相邻的标签页
+    const index = layout.tabs.findIndex(tab => tab.id === activeTabId)
+    activeTabId = tabs[Math.min(Math.max(index, 0), tabs.length - 1)]?.id ?? null
+  }
+  return { tabs, activeTabId }
+}
+
+/**
+ * 从布局中移除 PTY（PTY 本身仍在运行）
+ */
+export function removePane(layout: TerminalLayout, ptyId: string): TerminalLayout {
+  return removeWhere(layout, id => id === ptyId)
+}
+
+/**
+ * 移除已不存在的 PTY
+ */
+export function pruneLayout(layout: TerminalLayout, living: Set<string>): TerminalLayout {
+  return removeWhere(layout, id => !living.has(id))
+}
+
+function insertAt(node: TerminalPaneNode, targetId: string, ptyId: string, edge: DropEdge): TerminalPaneNode {
+  if (node.type === 'terminal') {
+    if (node.ptyId !== targetId) return node
+    const leaf: TerminalPaneNode = { type: 'terminal', ptyId }
+    const before = edge === 'left' || edge === 'top'
+    return {
+      type: 'split',
+      id: crypto.randomUUID(),
+      direction: edge === 'left' || edge === 'right' ? 'row' : 'column',
+      ratio: 0.5,
+      first: before ? leaf : node,
+      second: before ? node : leaf,
+    }
+  }
+  const first = insertAt(node.first, targetId, ptyId, edge)
+  const second = insertAt(node.second, targetId, ptyId, edge)
+  return first === node.first && second === node.second ? node : { ...node, first, second }
+}
+
+/**
+ * 把 PTY 放到目标面板的一侧（已在布局中时为移动）
+ */
+export function splitPane(layout: TerminalLayout, targetId: string, ptyId: string, edge: DropEdge): TerminalLayout {
+  if (targetId === ptyId) return layout
+  const base = removePane(layout, ptyId)
+  const tab = findTabOf(base, targetId)
+  if (!tab) return layout
+  return {
+    tabs: base.tabs.map(t => (t === tab ? { ...t, root: insertAt(t.root, targetId, ptyId, edge) } : t)),
+    activeTabId: tab.id,
+  }
+}
+
+/**
+ * 在新标签页中打开 PTY（已在布局中时为移动）
+ */
+export function openInNewTab(layout: TerminalLayout, ptyId: string, title: string): TerminalLayout {
+  const base = removePane(layout, ptyId)
+  const tab: TerminalTab = { id: crypto.randomUUID(), title, root: { type: 'terminal', ptyId } }
+  return { tabs: [...base.tabs, tab], activeTabId: tab.id }
+}
+
+/**
+ * 把 PTY 移到另一个标签页（放在最右侧）
+ */
+export function moveToTab(layout: TerminalLayout, ptyId: string, tabId: string): TerminalLayout {
+  if (findTabOf(layout, ptyId)?.id === tabId) return { ...layout, activeTabId: tabId }
+  const base = removePane(layout, ptyId)
+  const tab = base.tabs.find(t => t.id === tabId)
+  if (!tab) return layout
+  const ids = paneIds(tab.root)
+  return splitPane({ ...base, activeTabId: tabId }, ids[ids.length - 1], ptyId, 'right')
+}
+
+/**
+ * 调整标签页顺序：移到 beforeTabId 之前（为 null 时移到最后）
+ */
+export function moveTab(layout: TerminalLayout, tabId: string, beforeTabId: string | null): TerminalLayout {
+  const tab = layout.tabs.find(t => t.id === tabId)
+  if (!tab || tabId === beforeTabId) return layout
+  const rest = layout.tabs.filter(t => t.id !== tabId)
+  const index = beforeTabId ? rest.findIndex(t => t.id === beforeTabId) : -1
+  rest.splice(index === -1 ? rest.length : index, 0, tab)
+  return { ...layout, tabs: rest }
+}
+
+/**
+ * 关闭标签页（其中的 PTY 仍在运行）
+ */
+export function closeTab(layout: TerminalLayout, tabId: string): TerminalLayout {
+  const tab = layout.tabs.find(t => t.id === tabId)
+  if (!tab) return layout
+  const ids = new Set(paneIds(tab.root))
+  return removeWhere(layout, id => ids.has(id))
+}
+
+export function renameTab(layout: TerminalLayout, tabId: string, title: string): TerminalLayout {
+  return { ...layout, tabs: layout.tabs.map(t => (t.id === tabId ? { ...t, title } : t)) }
+}
+
+function setRatio(node: TerminalPaneNode, splitId: string, ratio: number): TerminalPaneNode {
+  if (node.type === 'terminal') return node
+  if (node.id === splitId) return { ...node, ratio }
+  const first = setRatio(node.first, splitId, ratio)
+  const second = setRatio(node.second, splitId, ratio)
+  return first === node.first && second === node.second ? node : { ...node, first, second }
+}
+
+/**
+ * 调整分屏比例（限制在 MIN_SPLIT_RATIO 与 1 - MIN_SPLIT_RATIO 之间）
+ */
+export function setSplitRatio(layout: TerminalLayout, splitId: string, ratio: number): TerminalLayout {
+  const clamped = Math.min(1 - MIN_SPLIT_RATIO, Math.max(MIN_SPLIT_RATIO, ratio))
+  return { ...layout, tabs: layout.tabs.map(t => ({ ...t, root: setRatio(t.root, splitId, clamped) })) }
+}
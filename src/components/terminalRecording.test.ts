@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { createCastRecorder, parseCast } from './terminalRecording'
+
+function record(input?: boolean) {
+  const recorder = createCastRecorder({ width: 80, height: 24, input })
+  recorder.output('$ ')
+  recorder.input('secret\r')
+  recorder.resize(100, 30)
+  return parseCast(recorder.finish().cast)
+}
+
+describe('createCastRecorder', () => {
+  it('records output and resizes but not keyboard input by default', () => {
+    expect(record().events.map(([, type, data]) => [type, data])).toEqual([
+      ['o', '$ '],
+      ['r', '100x30'],
+    ])
+  })
+
+  it('records keyboard input when enabled', () => {
+    expect(record(true).events.map(([, type]) => type)).toEqual(['o', 'i', 'r'])
+  })
+})
@@ -0,0 +1,149 @@
+// 终端录制：asciicast v2 格式（https://docs.asciinema.org/manual/asciicast/v2/）
+// 第一行为 JSON 头，其后每行一个事件 [秒, 类型, 数据]：o 输出、i 输入、r 调整大小（"列x行"）
+
+export type CastEventType = 'o' | 'i' | 'r'
+export type CastEvent = [time: number, type: CastEventType, data: string]
+
+export interface CastHeader {
+  version: 2
+  width: number
+  height: number
+  timestamp?: number
+  duration?: number
+  title?: string
+  env?: Record<string, string>
+}
+
+export interface Cast {
+  header: CastHeader
+  events: CastEvent[]
+  /** 最后一个事件的时间（秒） */
+  duration: number
+}
+
+export interface CastRecorder {
+  output: (data: string) => void
+  /** 键盘输入（未开启输入录制时忽略） */
+  input: (data: string) => void
+  resize: (cols: number, rows: number) => void
+  /** 已记录的输出事件数 */
+  outputCount: () => number
+  /** 结束录制，返回 asciicast 文本与时长 */
+  finish: () => { cast: string; duration: number }
+}
+
+/**
+ * 开始录制：事件时间相对于创建时刻
+ * 默认只录制输出；input 为 true 时同时录制键盘输入（与 asciinema --stdin 一致，可能包含输入的密码）
+ */
+export function createCastRecorder(options: { width: number; height: number; title?: string; input?: boolean }): CastRecorder {
+  const startedAt = performance.now()
+  const timestamp = Math.floor(Date.now() / 1000)
+  const lines: string[] = []
+  let outputs = 0
+  let last = 0
+
+  const push = (type: CastEventType, data: string) => {
+    last = Math.round(performance.now() - startedAt) / 1000
+    lines.push(JSON.stringify([last, type, data]))
+  }
+
+  return {
+    output: data => {
+      outputs++
+      push('o', data)
+    },
+    input: data => {
+      if (options.input) push('i', data)
+    },
+    resize: (cols, rows) => push('r', `${cols}x${rows}`),
+    outputCount: () => outputs,
+    finish: () => {
+      const header: CastHeader = {
+        version: 2,
+        width: options.width,
+        height: options.height,
+        timestamp,
+        duration: last,
+        title: options.title,
+        env: { TERM: 'xterm-256color' },
+      }
+      return { cast: [JSON.stringify(header), ...lines].join('\n') + '\n', duration: last }
+    },
+  }
+}
+
+/**
+ * 解析 asciicast v2 文本；无法解析的事件行被忽略
+ */
+export function parseCast(text: string): Cast {
+  const [first, ...rest] = text.split('\n')
+  let header: CastHeader
+  try {
+    header = JSON.parse(first)
+  } catch {
+    throw new Error('无效的录制文件')
+  }
+  if (header?.version !== 2) throw new Error(`不支持的录制格式版本: ${header?.version}`)
+
+  const events: CastEvent[] = []
+  for (const line of rest) {
+    if (!line.trim()) continue
+    try {
+      const event = JSON.parse(line)
+      if (Array.isArray(event) && typeof event[0] === 'number' && typeof event[2] === 'string') {
+        events.push([event[0], event[1], event[2]])
+      }
+    } catch {
+      // 忽略损坏的行（如录制中断时的最后一行）
+    }
+  }
+  return { header, events, duration: events.length > 0 ? events[events.length - 1][0] : 0 }
+}
+
+/**
+ * 第一个时间大于 time 的事件下标
+ */
+export function eventIndexAt(events: CastEvent[], time: number): number {
+  let lo = 0
+  let hi = events.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (events[mid][0] <= time) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+/**
+ * 解析调整大小事件的 "列x行"
+ */
+export function parseCastSize(data: string): { cols: number; rows: number } | null {
+  const m = data.match(/^(\d+)x(\d+)$/)
+  return m ? { cols: Number(m[1]), rows: Number(m[2]) } : null
+}
+
+/**
+ * 录制在聊天中的链接（ChatPanel 拦截点击并打开播放器）
+ */
+export const RECORDING_LINK_PREFIX = '#recording='
+
+export function recordingLink(id: string, title: string): string {
+  return `[终端录制：${title.replace(/[[\]]/g, '')}](${RECORDING_LINK_PREFIX}${id})`
+}
+
+/**
+ * 拆分文本中的录制链接（用户消息按纯文本显示，链接单独渲染）
+ */
+export function splitRecordingLinks(text: string): Array<string | { id: string; title: string }> {
+  const parts: Array<string | { id: string; title: string }> = []
+  let last = 0
+  for (const m of text.matchAll(/\[([^\]\n]*)\]\(#recording=([\w-]+)\)/g)) {
+    const index = m.index ?? 0
+    if (index > last) parts.push(text.slice(last, index))
+    parts.push({ title: m[1], id: m[2] })
+    last = index + m[0].length
+  }
+  if (last < text.length) parts.push(text.slice(last))
+  return parts
+}
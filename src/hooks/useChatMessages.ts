@@ -1,9 +1,26 @@
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo } from 'react'
 
-import type { Session, SSEEvent } from '../types'
-import { cancelTask, executeStream, getSessionDetail } from '../api/services'
-
-import type { Message, ToolCall, ContentSegment } from '../components/chat/types'
+import type { ExecuteRequest, FileReference, MessageInfo, Server, Service, Session, SessionBranch, ToolApprovalDecision } from '../types'
+import {
+  cancelTask,
+  checkoutSessionBranch,
+  executeStream,
+  followTaskStream,
+  forkSession,
+  getServiceStatus,
+  getSessionDetail,
+  listSessionBranches,
+  openTaskEventStream,
+  subscribeToStream,
+  truncateSession,
+  uploadFile,
+} from '../api/services'
+import { isTerminalEvent } from '../api/events'
+import { getApprovalPolicy, setToolAlwaysAllowed } from '../api/approvals'
+
+import type { BranchNav, Message, PendingAttachment, QueuedPrompt, ToolCall } from '../components/chat/types'
+import { appendUploadedAttachments, inlineTextAttachments, splitMessageAttachments } from '../components/chat/attachments'
+import { appendFileReferences } from '../components/chat/fileMentions'
 import {
   appendToolResultAsSegment,
   attachToolOutputToAssistantMsg,
@@ -11,311 +28,505 @@ import {
   parseMessageContent,
   parseToolMemoryMessage,
 } from '../components/chat/messageParsing'
+import { markLastAssistantError } from '../components/chat/messageEvents'
+import {
+  abortSessionTask,
+  clearSessionQueue,
+  decideToolApproval,
+  enqueuePrompt,
+  getSessionStream,
+  handleSessionEvent,
+  moveQueuedPrompt,
+  pauseSessionQueue,
+  reconnectHandlers,
+  removeQueuedPrompt,
+  resumeSessionQueue,
+  runSessionTask,
+  sessionKey,
+  setQueueDispatcher,
+  setSessionMessages,
+  updateQueuedPrompt,
+  updateSessionStream,
+  useSessionStream,
+} from './useSessionStreams'
+
+// 去掉历史中属于正在运行任务的消息（由回放重建）；后端未记录任务 ID 的消息保留，
+// 回放的 user_message 在提问尚未保存时补上（见 applyAgentEvent）
+function dropTaskMessages(messages: Message[], taskId: string): Message[] {
+  return messages.filter(m => m.taskId !== taskId)
+}
+
+// 重新提交用户消息时随 prompt 带上的 @ 引用与已上传附件：以 prompt 中仍保留的标记行为准；
+// 附件的类型与大小取自发送时保存的请求（历史消息没有，只以 [附件: 名称 → 路径] 行提示）
+function resendRequest(prompt: string, source: Message): Pick<ExecuteRequest, 'references' | 'attachments'> {
+  const { attachments, references } = splitMessageAttachments(prompt)
+  const paths = new Set(attachments.map(a => a.path).filter(Boolean))
+  const uploaded = source.request?.attachments?.filter(a => paths.has(a.path)) ?? []
+  return {
+    references: references.length > 0 ? references : undefined,
+    attachments: uploaded.length > 0 ? uploaded : undefined,
+  }
+}
+
+// 第 index 条消息之前的用户消息数（即后端的用户消息序号 turn）
+function userTurnAt(messages: Message[], index: number): number {
+  return messages.slice(0, index).filter(m => m.role === 'user').length
+}
+
+// 加载历史消息与分支（后端不支持分支时忽略）
+async function fetchHistory(
+  serviceUrl: string,
+  sessionId: string,
+): Promise<{ messages: Message[]; branches: SessionBranch[] }> {
+  const [detail, branches] = await Promise.all([
+    getSessionDetail(serviceUrl, sessionId),
+    listSessionBranches(serviceUrl, sessionId).catch((e) => {
+      console.warn('Failed to load session branches:', e)
+      return []
+    }),
+  ])
+  return { messages: buildHistoryMessages(detail.messages), branches }
+}
+
+// 将后端 memory 消息转换为气泡（含“合并 assistant/tool/assistant...”）
+export function buildHistoryMessages(messages: MessageInfo[]): Message[] {
+  const historicalMessages: Message[] = []
+  const baseNow = Date.now()
+  let outIdx = 0
+
+  for (let i = 0; i < messages.length; i++) {
+    const m = messages[i]
+    const role = normalizeRole(m.role)
+
+    if (role === 'user' || role === 'system') {
+      historicalMessages.push({
+        id: `hist-${outIdx}`,
+        role,
+        content: m.content,
+        timestamp: m.timestamp || baseNow + outIdx,
+        status: 'completed' as const,
+        taskId: m.task_id,
+        segments: [{ type: 'text', content: m.content }],
+        pendingToolCalls: new Map(),
+      })
+      outIdx++
+      continue
+    }
+
+    // 极端：tool 出现在任何 assistant 前，兜底为一条 assistant。
+    if (role === 'tool') {
+      const { name, output } = parseToolMemoryMessage(m.content)
+      historicalMessages.push({
+        id: `hist-${outIdx}`,
+        role: 'assistant',
+        content: '',
+        timestamp: m.timestamp || baseNow + outIdx,
+        status: 'completed' as const,
+        taskId: m.task_id,
+        segments: [
+          {
+            type: 'tool',
+            tool: {
+              id: `hist-tool-${outIdx}-0`,
+              name,
+              status: 'done',
+              output,
+            },
+          },
+        ],
+        pendingToolCalls: new Map(),
+      })
+      outIdx++
+      continue
+    }
+
+    // assistant：创建一个气泡，并把后续连续的 tool/assistant 都合并进来
+    const merged: Message = {
+      id: `hist-${outIdx}`,
+      role: 'assistant',
+      content: m.content,
+      timestamp: m.timestamp || baseNow + outIdx,
+      status: 'completed' as const,
+      taskId: m.task_id,
+      segments: parseMessageContent(m.content),
+      pendingToolCalls: new Map(),
+    }
+
+    while (i + 1 < messages.length) {
+      const next = messages[i + 1]
+      const nextRole = normalizeRole(next.role)
+      if (nextRole === 'user' || nextRole === 'system') break
+
+      i++
+      if (nextRole === 'tool') {
+        const { name, output } = parseToolMemoryMessage(next.content)
+        const attached = attachToolOutputToAssistantMsg(merged, name, output)
+        if (!attached) {
+          appendToolResultAsSegment(merged, name, output, merged.id)
+        }
+      } else {
+        merged.content += `\n\n${next.content}`
+        const segs = parseMessageContent(next.content)
+        for (const s of segs) {
+          if (s.type === 'text') {
+            if (!s.content || s.content.trim().length === 0) continue
+            merged.segments.push({ type: 'text', content: s.content })
+          } else {
+            merged.segments.push(s)
+          }
+        }
+      }
+    }
+
+    historicalMessages.push(merged)
+    outIdx++
+  }
+
+
+  return historicalMessages
+}
 
 export function useChatMessages({
   serviceUrl,
+  server,
+  service,
   session,
   onSessionTitleRefresh,
 }: {
   serviceUrl: string
+  server?: Server | null
+  service?: Service | null
   session: Session | null
-  onSessionTitleRefresh?: (sessionId: string) => void
+  onSessionTitleRefresh?: (sessionId: string, serviceUrl: string) => void
 }) {
-  const [messages, setMessages] = useState<Message[]>([])
-  const [loading, setLoading] = useState(false)
-  const [sending, setSending] = useState(false)
-
-  const abortControllerRef = useRef<AbortController | null>(null)
-  const currentTaskIdRef = useRef<string | null>(null)
-
-  const refreshSessionTitle = useCallback(() => {
-    const sessionId = session?.id
-    if (!sessionId) return
-    onSessionTitleRefresh?.(sessionId)
-  }, [onSessionTitleRefresh, session?.id])
-
-  const handleSSEEvent = useCallback(
-    (event: SSEEvent) => {
-      // console.log('SSE event:', event)
-
-      setMessages(prev => {
-        const newMessages = [...prev]
-        const lastMsg = newMessages[newMessages.length - 1]
-
-        if (!lastMsg || lastMsg.role !== 'assistant') return prev
-
-        // 深拷贝 segments，避免直接修改原始状态
-        const updatedMsg: Message = {
-          ...lastMsg,
-          segments: lastMsg.segments.map((seg): ContentSegment => ({
-            type: seg.type,
-            content: seg.content,
-            tool: seg.tool ? { ...seg.tool } : undefined,
-          })),
-          pendingToolCalls: new Map(lastMsg.pendingToolCalls),
-        }
+  const sessionId = session?.id
+  const key = sessionId && serviceUrl ? sessionKey(serviceUrl, sessionId) : null
+  const { messages, loading, sending, reconnecting, unknownEvents, branches, queue, queuePaused } = useSessionStream(key)
+
+  // 记录会话归属，后台任务结束时用于通知与静音判断
+  const serverId = server?.id
+  const serviceId = service?.id
+  const serviceName = service?.name
+  const sessionName = session?.name
+  useEffect(() => {
+    if (!key) return
+    updateSessionStream(key, s => ({ ...s, meta: { serverId, serviceId, serviceName, sessionName } }))
+  }, [key, serverId, serviceId, serviceName, sessionName])
+
+  // 任务结束后延迟刷新会话列表，等待后端异步生成标题
+  const finishHandler = useCallback(
+    (targetSessionId: string) => () => {
+      setTimeout(() => onSessionTitleRefresh?.(targetSessionId, serviceUrl), 1500)
+    },
+    [onSessionTitleRefresh, serviceUrl]
+  )
 
-        switch (event.type) {
-          case 'delta':
-          case 'assistant_message_delta': {
-            const delta = event.content || event.delta || ''
-            updatedMsg.content += delta
-
-            // 更新最后一个文本片段，或添加新的文本片段
-            const lastIndex = updatedMsg.segments.length - 1
-            const lastSegment = lastIndex >= 0 ? updatedMsg.segments[lastIndex] : null
-            if (lastSegment && lastSegment.type === 'text') {
-              updatedMsg.segments[lastIndex] = {
-                ...lastSegment,
-                content: (lastSegment.content || '') + delta,
-              }
-            } else {
-              updatedMsg.segments.push({ type: 'text', content: delta })
-            }
-            break
-          }
+  // session 切换时加载历史消息；会话仍有任务流在后台运行时直接恢复其实时状态
+  useEffect(() => {
+    if (!key || !sessionId) return
+    if (getSessionStream(key)?.sending) return
 
-          case 'task_completed':
-          case 'assistant_message_completed':
-            if (event.content) updatedMsg.content = event.content
-            updatedMsg.status = 'completed'
-            setSending(false)
-            currentTaskIdRef.current = null
-            // 延迟刷新会话列表，等待后端异步生成标题
-            setTimeout(() => refreshSessionTitle(), 1500)
-            break
-
-          case 'task_failed':
-          case 'task_aborted': {
-            updatedMsg.status = 'error'
-            updatedMsg.content += `\n\n[${event.error || event.reason || '任务失败'}]`
-            // 添加错误信息到最后一个文本片段
-            const lastIdx = updatedMsg.segments.length - 1
-            const lastSeg = lastIdx >= 0 ? updatedMsg.segments[lastIdx] : null
-            if (lastSeg && lastSeg.type === 'text') {
-              updatedMsg.segments[lastIdx] = {
-                ...lastSeg,
-                content: (lastSeg.content || '') + `\n\n[${event.error || event.reason || '任务失败'}]`,
-              }
-            } else {
-              updatedMsg.segments.push({
-                type: 'text',
-                content: `\n\n[${event.error || event.reason || '任务失败'}]`,
-              })
-            }
-            setSending(false)
-            currentTaskIdRef.current = null
-            break
+    let cancelled = false
+
+    async function loadMessages() {
+      if (!key || !sessionId) return
+      updateSessionStream(key, s => ({ ...s, loading: true, unknownEvents: [] }))
+      try {
+        const history = await fetchHistory(serviceUrl, sessionId)
+        if (cancelled || getSessionStream(key)?.sending) return
+        updateSessionStream(key, s => ({ ...s, ...history }))
+      } catch (e) {
+        console.warn('Failed to load session messages:', e)
+        updateSessionStream(key, s => ({ ...s, messages: [], branches: [] }))
+      } finally {
+        updateSessionStream(key, s => ({ ...s, loading: false }))
+      }
+
+      if (!cancelled) {
+        await attachRunningTask(key, sessionId)
+      }
+    }
+
+    // 会话有正在运行的任务（其他标签页发起，或刷新前未结束）：订阅它的事件流
+    async function attachRunningTask(key: string, sessionId: string) {
+      let status
+      try {
+        status = await getServiceStatus(serviceUrl)
+      } catch (e) {
+        console.warn('Failed to fetch service status:', e)
+        return
+      }
+      if (cancelled || getSessionStream(key)?.sending) return
+      if (!status.isRunning || status.sessionId !== sessionId) return
+      const taskId = status.taskId
+
+      const streamingMsg = (): Message => ({
+        id: `live-${Date.now()}`,
+        role: 'assistant',
+        content: '',
+        timestamp: Date.now(),
+        status: 'streaming',
+        segments: [],
+        pendingToolCalls: new Map(),
+      })
+      const onEvent = (event: Parameters<typeof handleSessionEvent>[1]) =>
+        handleSessionEvent(key, event, finishHandler(sessionId))
+
+      await runSessionTask(
+        key,
+        async (signal) => {
+          const res = taskId ? await openTaskEventStream(serviceUrl, taskId, signal) : null
+          if (res && taskId) {
+            // 从头回放：历史中属于该任务的消息由回放重建
+            setSessionMessages(key, prev => [...dropTaskMessages(prev, taskId), streamingMsg()])
+            await followTaskStream(serviceUrl, res, taskId, onEvent, signal, reconnectHandlers(key))
+            return
           }
 
-          case 'tool_start':
-            if (event.call_id && event.tool) {
-              const args = event.arguments as Record<string, unknown> | undefined
-
-              const toolCall: ToolCall = {
-                id: event.call_id,
-                name: event.tool,
-                status: 'running',
-                arguments: args,
-              }
-              updatedMsg.segments.push({ type: 'tool', tool: toolCall })
-              updatedMsg.pendingToolCalls.set(event.call_id, toolCall)
-            }
-            break
-
-          case 'tool_complete':
-            if (event.call_id) {
-              const tool = updatedMsg.pendingToolCalls.get(event.call_id)
-              if (tool) {
-                const completedTool = {
-                  ...tool,
-                  status: 'done' as const,
-                  output: event.output,
-                }
-                updatedMsg.segments = updatedMsg.segments.map(segment => {
-                  if (segment.type === 'tool' && segment.tool?.id === event.call_id) {
-                    return { ...segment, tool: completedTool }
-                  }
-                  return segment
-                })
-                updatedMsg.pendingToolCalls.delete(event.call_id)
-              }
-            }
-            break
-
-          case 'tool_call_progress':
-            // 处理工具调用的实时进度/日志
-            if (event.call_id) {
-              const tool = updatedMsg.pendingToolCalls.get(event.call_id)
-              if (tool) {
-                const updatedTool = { ...tool }
-
-                if (event.progress_type === 'log' || event.progress_type === 'output') {
-                  if (event.message) {
-                    updatedTool.logs = [...(tool.logs || []), event.message]
-                  }
-                } else if (event.progress_type === 'progress') {
-                  updatedTool.progress = event.progress
-                  updatedTool.total = event.total
+          // 后端不支持回放：只能从全局事件流接收之后的输出
+          setSessionMessages(key, prev => [...prev, streamingMsg()])
+          await new Promise<void>((resolve, reject) => {
+            const unsubscribe = subscribeToStream(
+              serviceUrl,
+              sessionId,
+              (event) => {
+                onEvent(event)
+                if (isTerminalEvent(event)) {
+                  unsubscribe()
+                  resolve()
                 }
+              },
+              (err) => {
+                unsubscribe()
+                reject(err)
+              },
+              reconnectHandlers(key),
+            )
+            signal.addEventListener('abort', () => {
+              unsubscribe()
+              resolve()
+            })
+          })
+        },
+        (err) => {
+          console.error('Attach task error:', err)
+          setSessionMessages(key, prev => markLastAssistantError(prev))
+        },
+      )
+    }
 
-                updatedMsg.pendingToolCalls.set(event.call_id, updatedTool)
-
-                updatedMsg.segments = updatedMsg.segments.map(segment => {
-                  if (segment.type === 'tool' && segment.tool?.id === event.call_id) {
-                    return { ...segment, tool: updatedTool }
-                  }
-                  return segment
-                })
-              }
-            }
-            break
-
-          case 'warning':
-            console.warn('Server warning:', event.message)
-            break
-        }
+    loadMessages()
 
-        newMessages[newMessages.length - 1] = updatedMsg
-        return newMessages
-      })
+    return () => {
+      cancelled = true
+    }
+  }, [key])
+
+  const setMessages = useCallback(
+    (updater: Message[] | ((prev: Message[]) => Message[])) => {
+      if (key) setSessionMessages(key, updater)
     },
-    [refreshSessionTitle]
+    [key]
   )
 
-  // session 切换时加载历史消息（含“合并 assistant/tool/assistant...”）
-  useEffect(() => {
-    if (!session || !serviceUrl) {
-      setMessages([])
-      return
-    }
+  // 执行请求，输出写入最后一条 assistant 消息
+  // request 可以是函数：在任务内准备请求（例如先上传附件），失败同样显示在 assistant 消息中
+  const runPrompt = useCallback(
+    async (request: ExecuteRequest | ((signal: AbortSignal) => Promise<ExecuteRequest>)) => {
+      if (!key || !sessionId) return
+
+      // 审批模式：后端在工具执行前等待前端决定
+      const requireApproval = getApprovalPolicy(serverId, serviceId).enabled || undefined
+
+      await runSessionTask(
+        key,
+        async (signal) =>
+          executeStream(
+            serviceUrl,
+            { ...(typeof request === 'function' ? await request(signal) : request), require_approval: requireApproval },
+            (event) => handleSessionEvent(key, event, finishHandler(sessionId)),
+            signal,
+            reconnectHandlers(key),
+          ),
+        (err) => {
+          console.error('Execute error:', err)
+          pauseSessionQueue(key)
+          setSessionMessages(key, prev => {
+            const last = prev[prev.length - 1]
+            if (!last || last.role !== 'assistant') return prev
+            const newMessages = [...prev]
+            newMessages[newMessages.length - 1] = { ...last, status: 'error', content: `发送失败: ${err.message}` }
+            return newMessages
+          })
+        },
+      )
+    },
+    [finishHandler, key, serverId, serviceId, serviceUrl, sessionId]
+  )
 
-    const sessionId = session.id
+  // 发送 prompt（不检查是否有任务运行，队列发送时由新任务接管会话）
+  const submitPrompt = useCallback(
+    async (text: string, attachments: PendingAttachment[] = [], references: FileReference[] = []) => {
+      if ((!text.trim() && attachments.length === 0) || !key || !sessionId) return
 
-    async function loadMessages() {
-      setLoading(true)
-      try {
-        const detail = await getSessionDetail(serviceUrl, sessionId)
-
-        const historicalMessages: Message[] = []
-        const baseNow = Date.now()
-        let outIdx = 0
-
-        for (let i = 0; i < detail.messages.length; i++) {
-          const m = detail.messages[i]
-          const role = normalizeRole(m.role)
-
-          if (role === 'user' || role === 'system') {
-            historicalMessages.push({
-              id: `hist-${outIdx}`,
-              role,
-              content: m.content,
-              timestamp: m.timestamp || baseNow + outIdx,
-              status: 'completed' as const,
-              segments: [{ type: 'text', content: m.content }],
-              pendingToolCalls: new Map(),
-            })
-            outIdx++
-            continue
-          }
+      // 文本附件内联为代码块；图片与二进制文件在任务开始时上传；@ 引用附在末尾作为路径提示
+      const uploads = attachments.filter(a => a.kind !== 'text')
+      const prompt = appendFileReferences(inlineTextAttachments(text, attachments), references)
+      const refs = references.length > 0 ? references : undefined
+      const content = appendUploadedAttachments(prompt, uploads)
+      const previews = Object.fromEntries(uploads.filter(a => a.previewUrl).map(a => [a.name, a.previewUrl!]))
 
-          // 极端：tool 出现在任何 assistant 前，兜底为一条 assistant。
-          if (role === 'tool') {
-            const { name, output } = parseToolMemoryMessage(m.content)
-            historicalMessages.push({
-              id: `hist-${outIdx}`,
-              role: 'assistant',
-              content: '',
-              timestamp: m.timestamp || baseNow + outIdx,
-              status: 'completed' as const,
-              segments: [
-                {
-                  type: 'tool',
-                  tool: {
-                    id: `hist-tool-${outIdx}-0`,
-                    name,
-                    status: 'done',
-                    output,
-                  },
-                },
-              ],
-              pendingToolCalls: new Map(),
-            })
-            outIdx++
-            continue
-          }
-
-          // assistant：创建一个气泡，并把后续连续的 tool/assistant 都合并进来
-          const merged: Message = {
-            id: `hist-${outIdx}`,
-            role: 'assistant',
-            content: m.content,
-            timestamp: m.timestamp || baseNow + outIdx,
-            status: 'completed' as const,
-            segments: parseMessageContent(m.content),
-            pendingToolCalls: new Map(),
-          }
+      const userMsg: Message = {
+        id: Date.now().toString(),
+        role: 'user',
+        content,
+        timestamp: Date.now(),
+        segments: [{ type: 'text', content }],
+        pendingToolCalls: new Map(),
+        attachmentPreviews: uploads.length > 0 ? previews : undefined,
+        request: refs ? { references: refs } : undefined,
+      }
 
-          while (i + 1 < detail.messages.length) {
-            const next = detail.messages[i + 1]
-            const nextRole = normalizeRole(next.role)
-            if (nextRole === 'user' || nextRole === 'system') break
-
-            i++
-            if (nextRole === 'tool') {
-              const { name, output } = parseToolMemoryMessage(next.content)
-              const attached = attachToolOutputToAssistantMsg(merged, name, output)
-              if (!attached) {
-                appendToolResultAsSegment(merged, name, output, merged.id)
-              }
-            } else {
-              merged.content += `\n\n${next.content}`
-              const segs = parseMessageContent(next.content)
-              for (const s of segs) {
-                if (s.type === 'text') {
-                  if (!s.content || s.content.trim().length === 0) continue
-                  merged.segments.push({ type: 'text', content: s.content })
-                } else {
-                  merged.segments.push(s)
-                }
-              }
-            }
-          }
+      const assistantMsg: Message = {
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: '',
+        timestamp: Date.now(),
+        status: 'streaming',
+        segments: [],
+        pendingToolCalls: new Map(),
+      }
 
-          historicalMessages.push(merged)
-          outIdx++
-        }
+      setSessionMessages(key, prev => [...prev, userMsg, assistantMsg])
 
-        setMessages(historicalMessages)
-      } catch (e) {
-        console.warn('Failed to load session messages:', e)
-        setMessages([])
-      } finally {
-        setLoading(false)
+      if (uploads.length === 0) {
+        await runPrompt({ prompt, references: refs })
+        return
       }
-    }
 
-    loadMessages()
-  }, [session?.id, serviceUrl])
+      await runPrompt(async (signal) => {
+        const uploaded = await Promise.all(uploads.map(a => uploadFile(serviceUrl, a.file, undefined, signal)))
+        const finalPrompt = appendUploadedAttachments(prompt, uploaded)
+        const request = {
+          references: refs,
+          attachments: uploaded.map(f => ({ name: f.name, path: f.path, mime_type: f.mimeType, size: f.size })),
+        }
+        // 上传完成后用实际路径更新用户消息
+        setSessionMessages(key, prev => prev.map(m =>
+          m.id === userMsg.id ? { ...m, content: finalPrompt, segments: [{ type: 'text', content: finalPrompt }], request } : m
+        ))
+        return { prompt: finalPrompt, ...request }
+      })
+    },
+    [key, runPrompt, serviceUrl, sessionId]
+  )
+
+  const sendMessage = useCallback(
+    async (text: string, attachments: PendingAttachment[] = [], references: FileReference[] = []) => {
+      if (sending) return
+      await submitPrompt(text, attachments, references)
+    },
+    [sending, submitPrompt]
+  )
 
-  // 取消正在进行的请求（当 session 改变或组件卸载时）
+  // 任务运行中提交的 prompt 进入队列，当前任务完成后依次发送
   useEffect(() => {
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort()
-        abortControllerRef.current = null
+    if (!key) return
+    setQueueDispatcher(key, (prompt: QueuedPrompt) => {
+      void submitPrompt(prompt.text, prompt.attachments, prompt.references)
+    })
+  }, [key, submitPrompt])
+
+  const queuePrompt = useCallback(
+    (text: string, attachments: PendingAttachment[] = [], references: FileReference[] = []) => {
+      if ((!text.trim() && attachments.length === 0) || !key) return
+      enqueuePrompt(key, { id: crypto.randomUUID(), text, attachments, references, createdAt: Date.now() })
+    },
+    [key]
+  )
+
+  const queueActions = useMemo(() => ({
+    update: (id: string, text: string) => {
+      if (key) updateQueuedPrompt(key, id, text)
+    },
+    remove: (id: string) => {
+      if (key) removeQueuedPrompt(key, id)
+    },
+    move: (id: string, offset: number) => {
+      if (key) moveQueuedPrompt(key, id, offset)
+    },
+    resume: () => {
+      if (key) resumeSessionQueue(key)
+    },
+    clear: () => {
+      if (key) clearSessionQueue(key)
+    },
+  }), [key])
+
+  // 重新生成 assistant 回复：以同一 prompt 重新执行，旧回复保留为版本（后端同时保存为分支）
+  const regenerate = useCallback(
+    async (messageId: string) => {
+      if (!key || !sessionId || sending) return
+
+      const current = getSessionStream(key)?.messages ?? []
+      const index = current.findIndex(m => m.id === messageId)
+      if (index === -1 || current[index].role !== 'assistant') return
+      let userIndex = index - 1
+      while (userIndex >= 0 && current[userIndex].role !== 'user') userIndex--
+      if (userIndex < 0) return
+
+      const prompt = current[userIndex].content
+      const request = resendRequest(prompt, current[userIndex])
+      const turn = userTurnAt(current, userIndex)
+      const previous = current[index]
+
+      await truncateSession(serviceUrl, sessionId, turn)
+      const nextBranches = await listSessionBranches(serviceUrl, sessionId).catch(() => [])
+
+      const assistantMsg: Message = {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: '',
+        timestamp: Date.now(),
+        status: 'streaming',
+        segments: [],
+        pendingToolCalls: new Map(),
+        variants: [
+          ...(previous.variants || []),
+          {
+            content: previous.content,
+            segments: previous.segments,
+            status: previous.status,
+            timestamp: previous.timestamp,
+          },
+        ],
       }
-    }
-  }, [session?.id])
+      updateSessionStream(key, s => ({
+        ...s,
+        messages: [...s.messages.slice(0, userIndex + 1), assistantMsg],
+        branches: nextBranches,
+      }))
 
-  const sendMessage = useCallback(
-    async (prompt: string) => {
-      if (!prompt.trim() || !session || !serviceUrl || sending) return
+      await runPrompt({ prompt, ...request })
+    },
+    [key, runPrompt, sending, serviceUrl, sessionId]
+  )
 
-      setSending(true)
+  // 编辑用户消息并从该处重新运行：之后的对话由后端保存为分支
+  const editMessage = useCallback(
+    async (messageId: string, prompt: string) => {
+      if (!prompt.trim() || !key || !sessionId || sending) return
 
-      const abortController = new AbortController()
-      abortControllerRef.current = abortController
+      const current = getSessionStream(key)?.messages ?? []
+      const index = current.findIndex(m => m.id === messageId)
+      if (index === -1 || current[index].role !== 'user') return
+      const source = current[index]
+      const turn = userTurnAt(current, index)
+      // 编辑后的内容仍带着原消息的引用与附件标记行，一并重新提交
+      const request = resendRequest(prompt, source)
+
+      await truncateSession(serviceUrl, sessionId, turn)
+      const nextBranches = await listSessionBranches(serviceUrl, sessionId).catch(() => [])
 
       const userMsg: Message = {
         id: Date.now().toString(),
@@ -324,8 +535,9 @@ export function useChatMessages({
         timestamp: Date.now(),
         segments: [{ type: 'text', content: prompt }],
         pendingToolCalls: new Map(),
+        attachmentPreviews: source.attachmentPreviews,
+        request: request.references || request.attachments ? request : undefined,
       }
-
       const assistantMsg: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
@@ -335,40 +547,92 @@ export function useChatMessages({
         segments: [],
         pendingToolCalls: new Map(),
       }
+      updateSessionStream(key, s => ({
+        ...s,
+        messages: [...s.messages.slice(0, index), userMsg, assistantMsg],
+        branches: nextBranches,
+      }))
 
-      setMessages(prev => [...prev, userMsg, assistantMsg])
+      await runPrompt({ prompt, ...request })
+    },
+    [key, runPrompt, sending, serviceUrl, sessionId]
+  )
 
-      try {
-        await executeStream(serviceUrl, { prompt }, handleSSEEvent, abortController.signal)
-      } catch (err) {
-        if ((err as Error).name === 'AbortError') {
-          return
-        }
+  // 从某条消息分叉出新会话：assistant 消息包含其所在的整轮；
+  // 用户消息只包含之前的对话，并返回该 prompt 供新会话继续编辑
+  const forkAt = useCallback(
+    async (messageId: string): Promise<{ session: Session; prompt?: string } | null> => {
+      if (!key || !sessionId) return null
 
-        console.error('Execute error:', err)
-        setMessages(prev => {
-          const newMessages = [...prev]
-          const last = newMessages[newMessages.length - 1]
-          if (last && last.role === 'assistant') {
-            last.status = 'error'
-            last.content = `发送失败: ${(err as Error).message}`
-          }
-          return newMessages
+      const current = getSessionStream(key)?.messages ?? []
+      const index = current.findIndex(m => m.id === messageId)
+      if (index === -1) return null
+      const msg = current[index]
+
+      const turnCount = msg.role === 'user' ? userTurnAt(current, index) : userTurnAt(current, index + 1)
+      const forked = await forkSession(serviceUrl, sessionId, turnCount)
+      return { session: forked, prompt: msg.role === 'user' ? msg.content : undefined }
+    },
+    [key, serviceUrl, sessionId]
+  )
+
+  // 清空会话：从第一条用户消息截断后端 memory（旧对话保留为分支）
+  const clearSession = useCallback(async () => {
+    if (!key || !sessionId || sending) return
+    await truncateSession(serviceUrl, sessionId, 0)
+    const nextBranches = await listSessionBranches(serviceUrl, sessionId).catch(() => [])
+    updateSessionStream(key, s => ({ ...s, messages: [], branches: nextBranches }))
+  }, [key, sending, serviceUrl, sessionId])
+
+  // 切换到另一个分支，并重新加载历史
+  const switchBranch = useCallback(
+    async (branchId: string) => {
+      if (!key || !sessionId || sending) return
+      await checkoutSessionBranch(serviceUrl, sessionId, branchId)
+      const history = await fetchHistory(serviceUrl, sessionId)
+      updateSessionStream(key, s => ({ ...s, ...history }))
+    },
+    [key, sending, serviceUrl, sessionId]
+  )
+
+  // 每条用户消息的分支导航：同一位置的多个版本按时间排列
+  const branchNav = useMemo(() => {
+    const nav = new Map<string, BranchNav>()
+    let turn = 0
+    for (const msg of messages) {
+      if (msg.role !== 'user') continue
+      const variants = [
+        ...branches.filter(b => b.turn === turn).map(b => ({ id: b.id as string | null, timestamp: b.timestamp ?? 0 })),
+        { id: null, timestamp: msg.timestamp },
+      ].sort((a, b) => a.timestamp - b.timestamp)
+      if (variants.length > 1) {
+        const index = variants.findIndex(v => v.id === null)
+        nav.set(msg.id, {
+          index,
+          total: variants.length,
+          prevBranchId: variants[index - 1]?.id ?? undefined,
+          nextBranchId: variants[index + 1]?.id ?? undefined,
         })
-      } finally {
-        setSending(false)
-        abortControllerRef.current = null
-        currentTaskIdRef.current = null
       }
+      turn++
+    }
+    return nav
+  }, [branches, messages])
+
+  // 审批工具调用；alwaysAllow 时同时把该工具加入服务的始终允许列表
+  const decideApproval = useCallback(
+    async (tool: ToolCall, decision: ToolApprovalDecision, alwaysAllow = false) => {
+      if (!key) return
+      if (alwaysAllow && serverId && serviceId) setToolAlwaysAllowed(serverId, serviceId, tool.name, true)
+      await decideToolApproval(key, tool, decision)
     },
-    [handleSSEEvent, sending, serviceUrl, session]
+    [key, serverId, serviceId]
   )
 
   const cancel = useCallback(async () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort()
-      abortControllerRef.current = null
-    }
+    if (!key) return
+    abortSessionTask(key)
+    pauseSessionQueue(key)
 
     if (serviceUrl) {
       try {
@@ -378,24 +642,33 @@ export function useChatMessages({
       }
     }
 
-    setSending(false)
-    setMessages(prev => {
-      const newMessages = [...prev]
-      const last = newMessages[newMessages.length - 1]
-      if (last && last.role === 'assistant') {
-        last.status = 'error'
-        last.content += '\n\n[已取消]'
-      }
-      return newMessages
-    })
-  }, [serviceUrl])
+    setSessionMessages(key, prev => markLastAssistantError(prev, '\n\n[已取消]'))
+  }, [key, serviceUrl])
+
+  const clearUnknownEvents = useCallback(() => {
+    if (key) updateSessionStream(key, s => ({ ...s, unknownEvents: [] }))
+  }, [key])
 
   return {
     messages,
     setMessages,
     loading,
     sending,
+    reconnecting,
+    unknownEvents,
+    clearUnknownEvents,
     sendMessage,
+    queue,
+    queuePaused,
+    queuePrompt,
+    queueActions,
+    editMessage,
+    regenerate,
+    switchBranch,
+    forkAt,
+    clearSession,
+    branchNav,
+    decideApproval,
     cancel,
   }
 }
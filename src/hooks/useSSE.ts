@@ -1,36 +1,49 @@
 import { useEffect, useRef, useState } from 'react'
 
-export function useSSE(onEvent: (evt: any) => void, url = '/api/stream') {
-  const esRef = useRef<EventSource | null>(null)
+import type { StreamEvent } from '../types'
+import { readStreamEvents } from '../api/sse'
+
+export function useSSE(onEvent: (evt: StreamEvent) => void, url = '/api/stream') {
   const reconRef = useRef<number>(0)
   const timerRef = useRef<number | null>(null)
   const [connected, setConnected] = useState(false)
 
   useEffect(() => {
     let closed = false
+    const controller = new AbortController()
+    // 与 EventSource 一致：重连时携带 Last-Event-ID，并遵循服务端 retry:
+    let lastEventId = ''
+    let retryMs = 500
 
-    function connect() {
+    async function connect() {
       if (closed) return
-      const es = new EventSource(url)
-      esRef.current = es
-      es.onopen = () => {
+      try {
+        const res = await fetch(url, {
+          headers: lastEventId
+            ? { Accept: 'text/event-stream', 'Last-Event-ID': lastEventId }
+            : { Accept: 'text/event-stream' },
+          signal: controller.signal,
+        })
+        if (!res.ok) throw new Error(`SSE request failed: ${res.status}`)
         reconRef.current = 0
         setConnected(true)
+        await readStreamEvents(
+          res,
+          (evt, msg) => {
+            lastEventId = msg.id
+            onEvent(evt)
+          },
+          { lastEventId, onRetry: (ms) => { retryMs = ms } },
+        )
+      } catch (_) {
+        /* 连接失败或中断，下面统一重连 */
       }
-      es.onmessage = (e) => {
-        try { onEvent(JSON.parse(e.data)) } catch (err) { /* ignore */ }
-      }
-      es.onerror = () => {
-        setConnected(false)
-        // close and attempt reconnect
-        try { es.close() } catch (_) {}
-        esRef.current = null
-        if (closed) return
-        const attempt = ++reconRef.current
-        const delay = Math.min(30000, 500 * Math.pow(2, attempt))
-        if (timerRef.current) window.clearTimeout(timerRef.current)
-        timerRef.current = window.setTimeout(connect, delay)
-      }
+      setConnected(false)
+      if (closed) return
+      const attempt = ++reconRef.current
+      const delay = Math.min(30000, retryMs * Math.pow(2, attempt))
+      if (timerRef.current) window.clearTimeout(timerRef.current)
+      timerRef.current = window.setTimeout(connect, delay)
     }
 
     connect()
@@ -38,7 +51,7 @@ export function useSSE(onEvent: (evt: any) => void, url = '/api/stream') {
     return () => {
       closed = true
       if (timerRef.current) window.clearTimeout(timerRef.current)
-      if (esRef.current) try { esRef.current.close() } catch (_) {}
+      controller.abort()
     }
   }, [onEvent, url])
 
@@ -0,0 +1,381 @@
+import { useSyncExternalStore } from 'react'
+
+import type { SessionBranch, StreamEvent, ToolApprovalDecision } from '../types'
+import { isTerminalEvent, normalizeStreamEvent } from '../api/events'
+import { respondToolApproval, type ExecuteStreamOptions } from '../api/services'
+import { appendApprovalLog, isToolAlwaysAllowed } from '../api/approvals'
+import type { Message, QueuedPrompt, ToolCall, UnknownEventRecord } from '../components/chat/types'
+import { applyAgentEvent, updateToolCall } from '../components/chat/messageEvents'
+
+/**
+ * 会话流管理 - 按会话保存消息与任务流状态
+ *
+ * 任务流归属于会话而不是组件：切换会话不会中断后台任务，
+ * 切回时直接恢复实时状态（流式消息、运行中的工具调用）。
+ */
+
+/** 会话所属的服务器/服务（用于通知与静音判断） */
+export interface SessionStreamMeta {
+  serverId?: string
+  serviceId?: string
+  serviceName?: string
+  sessionName?: string
+}
+
+export interface SessionStreamState {
+  serviceUrl: string
+  sessionId: string
+  meta: SessionStreamMeta
+  messages: Message[]
+  loading: boolean
+  /** 有任务流进行中 */
+  sending: boolean
+  /** 任务流中断、正在续传 */
+  reconnecting: boolean
+  /** 无法识别的流事件（调试视图） */
+  unknownEvents: UnknownEventRecord[]
+  /** 当前对话路径上的分支（编辑历史消息后保留的旧对话） */
+  branches: SessionBranch[]
+  /** 排队等待发送的 prompt，当前任务完成后依次发送 */
+  queue: QueuedPrompt[]
+  /** 任务失败/取消后队列暂停，需手动继续 */
+  queuePaused: boolean
+}
+
+// 调试视图最多保留的未知事件数
+const MAX_UNKNOWN_EVENTS = 200
+
+const states = new Map<string, SessionStreamState>()
+const controllers = new Map<string, AbortController>()
+const listeners = new Set<() => void>()
+const taskFinishedListeners = new Set<(info: TaskFinishedInfo) => void>()
+const queueDispatchers = new Map<string, (prompt: QueuedPrompt) => void>()
+
+// 运行中会话 key（sessionKey）列表的快照（useSyncExternalStore 需要稳定引用）
+let runningSessionKeys: string[] = []
+
+export function sessionKey(serviceUrl: string, sessionId: string): string {
+  return `${serviceUrl}::${sessionId}`
+}
+
+function emptyState(key: string): SessionStreamState {
+  const sep = key.lastIndexOf('::')
+  return {
+    serviceUrl: key.slice(0, sep),
+    sessionId: key.slice(sep + 2),
+    meta: {},
+    messages: [],
+    loading: false,
+    sending: false,
+    reconnecting: false,
+    unknownEvents: [],
+    branches: [],
+    queue: [],
+    queuePaused: false,
+  }
+}
+
+const EMPTY_STATE = emptyState('::')
+
+function emit() {
+  const running = [...states.entries()].filter(([, s]) => s.sending).map(([key]) => key)
+  if (running.length !== runningSessionKeys.length || running.some((key, i) => key !== runningSessionKeys[i])) {
+    runningSessionKeys = running
+  }
+  listeners.forEach(l => l())
+}
+
+/** 任务结束通知 */
+export interface TaskFinishedInfo {
+  serviceUrl: string
+  sessionId: string
+  meta: SessionStreamMeta
+  /** 结束事件类型 */
+  type: 'task_completed' | 'task_failed' | 'task_aborted'
+  /** 失败/取消原因 */
+  reason?: string
+}
+
+/**
+ * 订阅任意会话的任务结束（task_completed / task_failed / task_aborted）
+ */
+export function subscribeTaskFinished(listener: (info: TaskFinishedInfo) => void): () => void {
+  taskFinishedListeners.add(listener)
+  return () => {
+    taskFinishedListeners.delete(listener)
+  }
+}
+
+export function subscribeSessionStreams(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getSessionStream(key: string): SessionStreamState | undefined {
+  return states.get(key)
+}
+
+export function updateSessionStream(key: string, updater: (state: SessionStreamState) => SessionStreamState) {
+  const prev = states.get(key) ?? emptyState(key)
+  const next = updater(prev)
+  if (next === prev) return
+  states.set(key, next)
+  emit()
+}
+
+export function setSessionMessages(key: string, updater: Message[] | ((prev: Message[]) => Message[])) {
+  updateSessionStream(key, s => {
+    const messages = typeof updater === 'function' ? updater(s.messages) : updater
+    return messages === s.messages ? s : { ...s, messages }
+  })
+}
+
+/**
+ * 处理某个会话的流事件：更新消息、记录未知事件，任务结束时回调 onFinished
+ */
+export function handleSessionEvent(key: string, raw: StreamEvent, onFinished?: (event: StreamEvent) => void) {
+  const event = normalizeStreamEvent(raw)
+
+  // 无法识别的事件：记录到调试视图，不影响消息渲染
+  if (event.type === 'unknown') {
+    updateSessionStream(key, s => ({
+      ...s,
+      unknownEvents: [
+        ...s.unknownEvents.slice(-(MAX_UNKNOWN_EVENTS - 1)),
+        { id: `${Date.now()}-${s.unknownEvents.length}`, receivedAt: Date.now(), event: event.event, data: event.data },
+      ],
+    }))
+    return
+  }
+
+  if (event.type === 'warning') console.warn('Server warning:', event.message)
+  if (event.type === 'stream_error') console.warn('Stream error:', event.error)
+
+  updateSessionStream(key, s => {
+    const messages = applyAgentEvent(s.messages, event)
+    // 收到完成/失败事件即可结束“发送中”，不必等待连接关闭
+    const done = isTerminalEvent(raw) || event.type === 'message_completed'
+    if (messages === s.messages && !done) return s
+    return { ...s, messages, sending: done ? false : s.sending }
+  })
+
+  if (isTerminalEvent(raw) || event.type === 'message_completed') onFinished?.(raw)
+
+  // 始终允许的工具：自动批准（续传重放的已处理审批不会回到待审批状态）
+  if (event.type === 'tool_approval_requested') {
+    const state = states.get(key)
+    const tool = findToolCall(state?.messages ?? [], event.call_id)
+    if (state && tool?.approval?.status === 'pending' && isToolAlwaysAllowed(state.meta.serverId, state.meta.serviceId, tool.name)) {
+      decideToolApproval(key, tool, { decision: 'approved' }, true).catch((err) => {
+        console.warn('Failed to auto-approve tool call:', err)
+      })
+    }
+  }
+
+  if (event.type === 'task_completed' || event.type === 'task_failed' || event.type === 'task_aborted') {
+    const state = states.get(key) ?? emptyState(key)
+    const info: TaskFinishedInfo = {
+      serviceUrl: state.serviceUrl,
+      sessionId: state.sessionId,
+      meta: state.meta,
+      type: event.type,
+      reason: event.type === 'task_failed' ? event.error : event.type === 'task_aborted' ? event.reason : undefined,
+    }
+    taskFinishedListeners.forEach(l => l(info))
+
+    if (event.type === 'task_completed') {
+      // 等当前事件处理完再发送下一条，新任务会接管会话的任务流
+      setTimeout(() => dispatchNextQueued(key), 0)
+    } else {
+      pauseSessionQueue(key)
+    }
+  }
+}
+
+/**
+ * 注册会话的队列发送函数（由打开该会话的组件提供）
+ * 切换会话后保留注册，后台会话的队列同样会继续发送
+ */
+export function setQueueDispatcher(key: string, dispatch: (prompt: QueuedPrompt) => void) {
+  queueDispatchers.set(key, dispatch)
+}
+
+/**
+ * 发送队列中的下一条 prompt（队列暂停、为空或仍有任务运行时不发送）
+ */
+export function dispatchNextQueued(key: string) {
+  const state = states.get(key)
+  const dispatch = queueDispatchers.get(key)
+  if (!state || !dispatch || state.queuePaused || state.sending || state.queue.length === 0) return
+  const [next, ...rest] = state.queue
+  updateSessionStream(key, s => ({ ...s, queue: rest }))
+  dispatch(next)
+}
+
+export function enqueuePrompt(key: string, prompt: QueuedPrompt) {
+  updateSessionStream(key, s => ({ ...s, queue: [...s.queue, prompt] }))
+}
+
+export function updateQueuedPrompt(key: string, id: string, text: string) {
+  updateSessionStream(key, s => ({ ...s, queue: s.queue.map(p => (p.id === id ? { ...p, text } : p)) }))
+}
+
+export function removeQueuedPrompt(key: string, id: string) {
+  updateSessionStream(key, s => {
+    const queue = s.queue.filter(p => p.id !== id)
+    return { ...s, queue, queuePaused: queue.length > 0 && s.queuePaused }
+  })
+}
+
+/**
+ * 调整排队 prompt 的顺序（offset 为 -1 上移，1 下移）
+ */
+export function moveQueuedPrompt(key: string, id: string, offset: number) {
+  updateSessionStream(key, s => {
+    const from = s.queue.findIndex(p => p.id === id)
+    const to = from + offset
+    if (from === -1 || to < 0 || to >= s.queue.length) return s
+    const queue = [...s.queue]
+    const [moved] = queue.splice(from, 1)
+    queue.splice(to, 0, moved)
+    return { ...s, queue }
+  })
+}
+
+export function clearSessionQueue(key: string) {
+  updateSessionStream(key, s => (s.queue.length === 0 && !s.queuePaused ? s : { ...s, queue: [], queuePaused: false }))
+}
+
+/**
+ * 暂停队列（只在有排队 prompt 时生效）
+ */
+export function pauseSessionQueue(key: string) {
+  updateSessionStream(key, s => (s.queue.length === 0 || s.queuePaused ? s : { ...s, queuePaused: true }))
+}
+
+/**
+ * 继续暂停的队列：没有任务运行时立即发送下一条
+ */
+export function resumeSessionQueue(key: string) {
+  updateSessionStream(key, s => (s.queuePaused ? { ...s, queuePaused: false } : s))
+  dispatchNextQueued(key)
+}
+
+function findToolCall(messages: Message[], callId: string): ToolCall | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const seg = messages[i].segments.find(seg => seg.type === 'tool' && seg.tool?.id === callId)
+    if (seg?.tool) return seg.tool
+  }
+  return undefined
+}
+
+/**
+ * 提交工具调用的审批决定并记录；auto 表示按“始终允许”策略自动批准
+ */
+export async function decideToolApproval(key: string, tool: ToolCall, decision: ToolApprovalDecision, auto = false) {
+  const state = states.get(key)
+  const approval = tool.approval
+  if (!state || !approval || approval.status !== 'pending' || approval.submitting) return
+
+  setSessionMessages(key, prev => updateToolCall(prev, tool.id, t => (
+    t.approval ? { ...t, approval: { ...t.approval, submitting: true } } : t
+  )))
+
+  try {
+    await respondToolApproval(state.serviceUrl, approval.id, decision)
+  } catch (err) {
+    setSessionMessages(key, prev => updateToolCall(prev, tool.id, t => (
+      t.approval ? { ...t, approval: { ...t.approval, submitting: false } } : t
+    )))
+    throw err
+  }
+
+  setSessionMessages(key, prev => updateToolCall(prev, tool.id, t => ({
+    ...t,
+    arguments: decision.arguments ?? t.arguments,
+    approval: t.approval ? { ...t.approval, status: decision.decision, submitting: false, auto } : t.approval,
+  })))
+
+  appendApprovalLog({
+    serverId: state.meta.serverId,
+    serviceId: state.meta.serviceId,
+    serviceName: state.meta.serviceName,
+    sessionId: state.sessionId,
+    approvalId: approval.id,
+    callId: tool.id,
+    toolName: tool.name,
+    decision: decision.decision,
+    auto,
+    arguments: tool.arguments,
+    editedArguments: decision.arguments,
+    reason: decision.reason,
+  })
+}
+
+/**
+ * 续传状态回调，写入会话状态
+ */
+export function reconnectHandlers(key: string): ExecuteStreamOptions {
+  return {
+    onReconnecting: () => updateSessionStream(key, s => ({ ...s, reconnecting: true })),
+    onResumed: () => updateSessionStream(key, s => ({ ...s, reconnecting: false })),
+  }
+}
+
+/**
+ * 在会话上运行一个任务流：管理取消控制器与 sending 状态
+ * 同一会话同时只保留一个任务流，新任务会中止旧的（例如已收到完成事件但连接尚未关闭）
+ */
+export async function runSessionTask(
+  key: string,
+  run: (signal: AbortSignal) => Promise<void>,
+  onError?: (err: Error) => void,
+): Promise<void> {
+  controllers.get(key)?.abort()
+  const controller = new AbortController()
+  controllers.set(key, controller)
+  updateSessionStream(key, s => ({ ...s, sending: true }))
+
+  try {
+    await run(controller.signal)
+  } catch (err) {
+    if ((err as Error).name !== 'AbortError') {
+      onError?.(err as Error)
+    }
+  } finally {
+    if (controllers.get(key) === controller) {
+      controllers.delete(key)
+      updateSessionStream(key, s => ({ ...s, sending: false, reconnecting: false }))
+    }
+  }
+}
+
+/**
+ * 中止会话的任务流（不通知后端）
+ */
+export function abortSessionTask(key: string) {
+  const controller = controllers.get(key)
+  if (!controller) return
+  controller.abort()
+  controllers.delete(key)
+  updateSessionStream(key, s => ({ ...s, sending: false, reconnecting: false }))
+}
+
+/**
+ * 订阅单个会话的状态
+ */
+export function useSessionStream(key: string | null): SessionStreamState {
+  return useSyncExternalStore(
+    subscribeSessionStreams,
+    () => (key ? states.get(key) ?? EMPTY_STATE : EMPTY_STATE),
+  )
+}
+
+/**
+ * 所有有任务流进行中的会话 key（sessionKey(serviceUrl, sessionId)，不同服务的同名会话互不影响）
+ */
+export function useRunningSessionKeys(): string[] {
+  return useSyncExternalStore(subscribeSessionStreams, () => runningSessionKeys)
+}
@@ -0,0 +1,183 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+
+import { isNotificationMuted } from '../api/servers'
+import { subscribeTaskFinished, type TaskFinishedInfo } from './useSessionStreams'
+
+/**
+ * 任务通知 - 任务结束时的桌面通知、未读标记与标题/图标角标
+ *
+ * 桌面通知需要用户主动开启；静音的服务器/服务不弹通知、不计入角标，
+ * 但侧边栏仍会显示未读点。
+ */
+
+const NOTIFICATIONS_KEY = 'ineffable_notifications'
+
+const FINISHED_TITLES: Record<TaskFinishedInfo['type'], string> = {
+  task_completed: '任务已完成',
+  task_failed: '任务失败',
+  task_aborted: '任务已取消',
+}
+
+// 未读会话：sessionId → 是否静音
+const unread = new Map<string, boolean>()
+const listeners = new Set<() => void>()
+
+// 快照（useSyncExternalStore 需要稳定引用）
+let unreadSessionIds: string[] = []
+let enabled = localStorage.getItem(NOTIFICATIONS_KEY) === 'on'
+
+function emit() {
+  unreadSessionIds = [...unread.keys()]
+  listeners.forEach(l => l())
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * 浏览器是否支持桌面通知
+ */
+export function isNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window
+}
+
+/**
+ * 开启/关闭桌面通知，开启时请求授权；返回最终是否开启
+ */
+export async function setNotificationsEnabled(on: boolean): Promise<boolean> {
+  let next = on
+  if (on) {
+    if (!isNotificationSupported()) {
+      next = false
+    } else if (Notification.permission !== 'granted') {
+      next = (await Notification.requestPermission()) === 'granted'
+    }
+  }
+  enabled = next
+  localStorage.setItem(NOTIFICATIONS_KEY, next ? 'on' : 'off')
+  emit()
+  return next
+}
+
+export function markSessionRead(sessionId: string) {
+  if (!unread.delete(sessionId)) return
+  emit()
+}
+
+function markSessionUnread(sessionId: string, muted: boolean) {
+  if (unread.get(sessionId) === muted) return
+  unread.set(sessionId, muted)
+  emit()
+}
+
+export function useNotificationsEnabled(): boolean {
+  return useSyncExternalStore(subscribe, () => enabled)
+}
+
+export function useUnreadSessionIds(): string[] {
+  return useSyncExternalStore(subscribe, () => unreadSessionIds)
+}
+
+function showNotification(info: TaskFinishedInfo) {
+  if (!enabled || !isNotificationSupported() || Notification.permission !== 'granted') return
+
+  const { meta } = info
+  const sessionName = meta.sessionName || `会话 ${info.sessionId.slice(0, 8)}`
+  const body = [meta.serviceName ? `${meta.serviceName} · ${sessionName}` : sessionName, info.reason]
+    .filter(Boolean)
+    .join('\n')
+
+  try {
+    const notification = new Notification(FINISHED_TITLES[info.type], {
+      body,
+      // 同一会话只保留最新一条
+      tag: `ineffable-${info.sessionId}`,
+    })
+    notification.onclick = () => {
+      window.focus()
+      notification.close()
+    }
+  } catch (err) {
+    // 部分移动端浏览器只允许通过 ServiceWorker 发送通知
+    console.warn('Failed to show notification:', err)
+  }
+}
+
+// 绘制带未读数的图标（页面没有静态 favicon，角标为 0 时移除）
+function updateFavicon(count: number) {
+  const id = 'ineffable-badge-icon'
+  let link = document.getElementById(id) as HTMLLinkElement | null
+
+  if (count === 0) {
+    link?.remove()
+    return
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = 32
+  canvas.height = 32
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  ctx.fillStyle = '#ef4444'
+  ctx.beginPath()
+  ctx.arc(16, 16, 15, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.fillStyle = '#ffffff'
+  ctx.font = 'bold 20px sans-serif'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(count > 9 ? '9+' : String(count), 16, 17)
+
+  if (!link) {
+    link = document.createElement('link')
+    link.id = id
+    link.rel = 'icon'
+    document.head.appendChild(link)
+  }
+  link.href = canvas.toDataURL('image/png')
+}
+
+/**
+ * 挂载任务通知：监听所有会话的任务结束事件，维护未读标记与角标
+ * 当前正在查看（已选中且页面可见）的会话不计为未读
+ */
+export function useTaskNotifications(selectedSessionId?: string) {
+  const selectedRef = useRef(selectedSessionId)
+  const unreadIds = useUnreadSessionIds()
+
+  useEffect(() => {
+    selectedRef.current = selectedSessionId
+    if (selectedSessionId && !document.hidden) markSessionRead(selectedSessionId)
+  }, [selectedSessionId])
+
+  // 切回页面时，当前会话标记为已读
+  useEffect(() => {
+    function handleVisibility() {
+      if (!document.hidden && selectedRef.current) markSessionRead(selectedRef.current)
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+    return () => document.removeEventListener('visibilitychange', handleVisibility)
+  }, [])
+
+  useEffect(() => {
+    return subscribeTaskFinished(info => {
+      if (info.sessionId === selectedRef.current && !document.hidden) return
+      const muted = isNotificationMuted(info.meta.serverId, info.meta.serviceId)
+      markSessionUnread(info.sessionId, muted)
+      if (!muted) showNotification(info)
+    })
+  }, [])
+
+  // 标题与图标角标（不计静音会话）
+  const badgeCount = unreadIds.filter(id => !unread.get(id)).length
+  useEffect(() => {
+    const baseTitle = document.title.replace(/^\(\d+\+?\) /, '')
+    document.title = badgeCount > 0 ? `(${badgeCount}) ${baseTitle}` : baseTitle
+    updateFavicon(badgeCount)
+  }, [badgeCount])
+}
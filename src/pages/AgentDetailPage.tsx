@@ -5,13 +5,15 @@ import { Badge } from '../components/ui/badge'
 import { Input } from '../components/ui/input'
 import { Separator } from '../components/ui/separator'
 import { cn } from '../utils/cn'
-import { getAgent, executeOnAgentStream, cancelAgentTask, deleteAgent, RegisteredAgent, SSEEvent } from '../api'
+import { getAgent, executeOnAgentStream, cancelAgentTask, deleteAgent, RegisteredAgent } from '../api'
+import type { StreamEvent } from '../types'
+import { normalizeStreamEvent } from '../api/events'
 import { useTheme } from '../hooks/useTheme'
 import { useSession } from '../hooks/useSession'
 import Terminal from '../components/Terminal'
 import type { Agent, AgentStatus } from '../components/AgentCard'
 
-type EventRecord = SSEEvent & {
+type EventRecord = StreamEvent & {
   id?: string
   timestamp?: number
 }
@@ -131,20 +133,24 @@ export default function AgentDetailPage() {
   }, [messages])
 
   // SSE 事件处理
-  const handleEvent = useCallback((evt: SSEEvent) => {
+  const handleEvent = useCallback((raw: StreamEvent) => {
+    const evt = normalizeStreamEvent(raw)
+    if (evt.type === 'unknown') {
+      console.warn('Unknown stream event:', evt.event, evt.data)
+      return
+    }
+
     setMessages(prev => {
       const newMessages = [...prev]
       const lastMsg = newMessages[newMessages.length - 1]
       
       if (!lastMsg || lastMsg.role !== 'assistant') return prev
-
+      
       const updatedMsg = { ...lastMsg }
       
       switch (evt.type) {
-        case 'delta':
-          if (evt.content) {
-            updatedMsg.content += evt.content
-          }
+        case 'text_delta':
+          updatedMsg.content += evt.text
           break
         case 'task_started':
           // 可以在这里更新状态，但主要逻辑在 handleSubmit
@@ -158,47 +164,40 @@ export default function AgentDetailPage() {
           updatedMsg.content += '\n\n[任务已取消]'
           setAgent(prev => prev ? { ...prev, status: 'idle' } : null)
           break
-        case 'tool_start':
-          if (evt.call_id && evt.tool) {
-            const tools = new Map(updatedMsg.toolCalls || [])
-            tools.set(evt.call_id, { id: evt.call_id, name: evt.tool, status: 'running' })
-            updatedMsg.toolCalls = tools
-          }
+        case 'tool_started': {
+          const tools = new Map(updatedMsg.toolCalls || [])
+          tools.set(evt.call_id, { id: evt.call_id, name: evt.name, status: 'running' })
+          updatedMsg.toolCalls = tools
           break
-        case 'tool_complete':
-          if (evt.call_id) {
-            const tools = new Map(updatedMsg.toolCalls || [])
-            const tool = tools.get(evt.call_id)
-            if (tool) {
-              tools.set(evt.call_id, { ...tool, status: 'done', output: evt.output })
-              updatedMsg.toolCalls = tools
-            }
+        }
+        case 'tool_completed': {
+          const tools = new Map(updatedMsg.toolCalls || [])
+          const tool = tools.get(evt.call_id)
+          if (tool) {
+            tools.set(evt.call_id, { ...tool, status: 'done', output: evt.output })
+            updatedMsg.toolCalls = tools
           }
           break
-        case 'tool_call_progress':
-          if (evt.call_id) {
-            const tools = new Map(updatedMsg.toolCalls || [])
-            const tool = tools.get(evt.call_id)
-            if (tool) {
-              const updatedTool = { ...tool }
-              if (evt.progress_type === 'log' || evt.progress_type === 'output') {
-                if (evt.message) {
-                  updatedTool.logs = [...(tool.logs || []), evt.message]
-                }
-              } else if (evt.progress_type === 'progress') {
-                updatedTool.progress = evt.progress
-                updatedTool.total = evt.total
+        }
+        case 'tool_progress': {
+          const tools = new Map(updatedMsg.toolCalls || [])
+          const tool = tools.get(evt.call_id)
+          if (tool) {
+            const updatedTool = { ...tool }
+            if (evt.kind === 'log' || evt.kind === 'output') {
+              if (evt.message) {
+                updatedTool.logs = [...(tool.logs || []), evt.message]
               }
-              tools.set(evt.call_id, updatedTool)
-              updatedMsg.toolCalls = tools
+            } else if (evt.kind === 'progress') {
+              updatedTool.progress = evt.progress
+              updatedTool.total = evt.total
             }
+            tools.set(evt.call_id, updatedTool)
+            updatedMsg.toolCalls = tools
           }
           break
-        // 兼容旧事件
-        case 'assistant_message_delta':
-          if (evt.delta) updatedMsg.content += evt.delta
-          break
-        case 'assistant_message_completed':
+        }
+        case 'message_completed':
           if (evt.content) updatedMsg.content = evt.content
           updatedMsg.status = 'completed'
           break
@@ -4,6 +4,9 @@ import { PanelLeft } from 'lucide-react'
 import type { Server, Service, Session } from '../types'
 import UnifiedSidebar, { type UnifiedSidebarHandle } from '../components/UnifiedSidebar'
 import ChatPanel from '../components/ChatPanel'
+import type { PendingPrompt } from '../components/chat/types'
+import { useRunningSessionKeys } from '../hooks/useSessionStreams'
+import { useTaskNotifications, useUnreadSessionIds } from '../hooks/useTaskNotifications'
 
 type MainPageProps = {
   initialServerId?: string
@@ -26,11 +29,18 @@ export default function MainPage({
   const [selectedSession, setSelectedSession] = useState<Session | null>(null)
   const [serviceUrl, setServiceUrl] = useState<string>('')
 
-  // 仅当当前会话有 SSE 流（sending）时才算“运行中”
-  const [runningSessionId, setRunningSessionId] = useState<string | null>(null)
+  // 有任务流（sending）的会话才算“运行中”，包括在后台运行的会话
+  const runningSessionKeys = useRunningSessionKeys()
+
+  // 任务结束通知：未读标记、标题/图标角标与桌面通知
+  useTaskNotifications(selectedSession?.id)
+  const unreadSessionIds = useUnreadSessionIds()
 
   const sidebarRef = useRef<UnifiedSidebarHandle | null>(null)
 
+  // 切换会话后由 ChatPanel 插入或发送的 prompt
+  const [pendingPrompt, setPendingPrompt] = useState<PendingPrompt | null>(null)
+
   // 当会话选择变化时，更新 URL
   const handleSessionSelect = useCallback((
     server: Server, 
@@ -61,8 +71,32 @@ export default function MainPage({
     }
   }, [navigate, selectedServer, selectedService])
 
-  const handleSessionTitleRefresh = useCallback(async (sessionId: string) => {
-    const url = serviceUrl
+  // 分叉出的新会话：加入侧边栏同一服务下并打开
+  const handleSessionFork = useCallback((session: Session) => {
+    sidebarRef.current?.insertSession(serviceUrl, session)
+    handleSessionChange(session)
+  }, [handleSessionChange, serviceUrl])
+
+  const handleOpenSession = useCallback((sessionId: string) => {
+    const opened = sidebarRef.current?.openSession(serviceUrl, sessionId)
+    if (!opened) alert('来源会话不存在或已被删除')
+  }, [serviceUrl])
+
+  // 固定了目标服务的模板：在该服务中新建会话并打开，再插入或发送
+  const handleRunOnService = useCallback(async (serviceId: string, text: string, send: boolean) => {
+    try {
+      const session = await sidebarRef.current?.createServiceSession(serviceId)
+      if (!session) {
+        alert('模板固定的服务不存在或未运行')
+        return
+      }
+      setPendingPrompt({ sessionId: session.id, text, send })
+    } catch (err) {
+      alert(`创建会话失败: ${(err as Error).message}`)
+    }
+  }, [])
+
+  const handleSessionTitleRefresh = useCallback(async (sessionId: string, url: string) => {
     if (!url) return
     const patch = await sidebarRef.current?.refreshSessionTitle(url, sessionId)
     if (!patch) return
@@ -70,7 +104,7 @@ export default function MainPage({
       if (!prev || prev.id !== sessionId) return prev
       return { ...prev, name: patch.name ?? prev.name, createdAt: patch.createdAt ?? prev.createdAt }
     })
-  }, [serviceUrl])
+  }, [])
 
   return (
     <div className="flex h-screen bg-background text-foreground overflow-hidden">
@@ -81,7 +115,8 @@ export default function MainPage({
         onCollapse={setIsCollapsed}
         onSessionSelect={handleSessionSelect}
         selectedSessionId={selectedSession?.id}
-        runningSessionId={runningSessionId || undefined}
+        runningSessionKeys={runningSessionKeys}
+        unreadSessionIds={unreadSessionIds}
         initialServerId={initialServerId}
         initialServiceId={initialServiceId}
         initialSessionId={initialSessionId}
@@ -111,7 +146,11 @@ export default function MainPage({
             serviceUrl={serviceUrl}
             onSessionChange={handleSessionChange}
             onSessionTitleRefresh={handleSessionTitleRefresh}
-            onRunningSessionChange={setRunningSessionId}
+            onSessionFork={handleSessionFork}
+            onOpenSession={handleOpenSession}
+            onRunOnService={handleRunOnService}
+            pendingPrompt={pendingPrompt}
+            onPendingPromptHandled={() => setPendingPrompt(null)}
           />
         </div>
       </div>
@@ -12,6 +12,10 @@ export interface Server {
   serviceCount?: number
   /** 连接类型: hub=通过 Service Manager, direct=直连 CLI */
   connectionType?: ConnectionType
+  /** 静音：该服务器下的任务结束时不弹通知 */
+  muted?: boolean
+  /** 已静音的服务 ID（直连模式为 'direct'） */
+  mutedServiceIds?: string[]
 }
 
 /** Service - 代表一个 AI Agent 服务 */
@@ -37,6 +41,8 @@ export interface Session {
   workingDir?: string
   createdAt?: string
   lastActivity?: string
+  /** 分叉来源会话 ID（从其他会话的某条消息分叉而来） */
+  parentId?: string
 }
 
 /** Sessions 列表响应 */
@@ -45,12 +51,31 @@ export interface SessionsResponse {
   sessions: Session[]
 }
 
+/**
+ * 提示词模板 - 可复用的 prompt，支持 {{变量}} 占位符
+ * 未指定 serverId 为全局模板；指定 serviceId 时固定目标服务：
+ * 在同一服务器的其他服务中选用时，先切换到该服务（新建会话）再插入或发送
+ */
+export interface PromptTemplate {
+  id: string
+  name: string
+  content: string
+  serverId?: string
+  serviceId?: string
+  /** 固定时的服务名（在其他服务中显示） */
+  serviceName?: string
+  createdAt: string
+  updatedAt: string
+}
+
 /** 消息信息 */
 export interface MessageInfo {
   // 后端 memory 的 role 是 string（例如会有 "tool"）
   role: string
   content: string
   timestamp?: number
+  /** 产生该消息的任务（后端记录时提供） */
+  task_id?: string
 }
 
 /** Session 详情（包含消息） */
@@ -60,30 +85,255 @@ export interface SessionDetail {
   isActive: boolean
 }
 
-/** SSE 事件类型 */
-export interface SSEEvent {
-  type: string
+// ============ 流事件 ============
+
+/** 任务开始 */
+export interface TaskStartedEvent {
+  type: 'task_started'
   task_id?: string
+  task_kind?: string
+}
+
+/** 用户消息回显 */
+export interface UserMessageEvent {
+  type: 'user_message'
+  content?: string
+}
+
+/** 模型增量（CLI serve 使用 delta，Service 使用 assistant_message_delta） */
+export interface AssistantDeltaEvent {
+  type: 'delta' | 'assistant_message_delta'
   content?: string
   delta?: string
-  tool?: string
-  call_id?: string
+}
+
+/** 模型完成（最终内容） */
+export interface AssistantCompletedEvent {
+  type: 'assistant_message_completed'
+  content?: string
+}
+
+/** 工具调用开始（CLI serve 格式） */
+export interface ToolStartEvent {
+  type: 'tool_start'
+  call_id: string
+  tool: string
   arguments?: Record<string, unknown>
+}
+
+/** 工具调用完成（CLI serve 格式） */
+export interface ToolCompleteEvent {
+  type: 'tool_complete'
+  call_id: string
+  tool?: string
   output?: string
   success?: boolean
   duration_ms?: number
+}
+
+/** 工具调用开始（API.md 格式） */
+export interface ToolCallStartedEvent {
+  type: 'tool_call_started'
+  call_id: string
+  name: string
+  args?: Record<string, unknown>
+}
+
+/** 工具调用完成（API.md 格式） */
+export interface ToolCallCompletedEvent {
+  type: 'tool_call_completed'
+  call_id: string
+  name?: string
+  output?: string
+  duration_ms?: number
+}
+
+/** 工具调用的实时进度/日志 */
+export interface ToolCallProgressEvent {
+  type: 'tool_call_progress'
+  call_id: string
+  tool_name?: string
+  progress_type?: 'log' | 'progress' | 'output'
+  message?: string
+  progress?: number
+  total?: number
+}
+
+/** 工具调用请求审批（审批模式下，工具执行前发出） */
+export interface ToolApprovalRequestedEvent {
+  type: 'tool_approval_requested'
+  approval_id: string
+  call_id: string
+  name?: string
+  args?: Record<string, unknown>
+}
+
+/** 工具调用审批已处理（其他标签页或超时自动处理时同样发出） */
+export interface ToolApprovalResolvedEvent {
+  type: 'tool_approval_resolved'
+  approval_id: string
+  call_id: string
+  decision?: 'approved' | 'denied'
+}
+
+/** 任务完成 */
+export interface TaskCompletedEvent {
+  type: 'task_completed'
+  task_id?: string
+  content?: string
+  success?: boolean
   turns?: number
+  duration_ms?: number
+}
+
+/** 任务失败 */
+export interface TaskFailedEvent {
+  type: 'task_failed'
+  task_id?: string
+  error?: string
+  reason?: string
+}
+
+/** 任务被取消 */
+export interface TaskAbortedEvent {
+  type: 'task_aborted'
+  task_id?: string
   reason?: string
   error?: string
-  // tool_call_progress 事件字段
-  tool_name?: string
-  progress_type?: 'log' | 'progress' | 'output'
+}
+
+/** 流错误 */
+export interface StreamErrorEvent {
+  type: 'stream_error'
+  error?: string
+}
+
+/** 服务端警告 */
+export interface WarningEvent {
+  type: 'warning'
+  message?: string
+}
+
+/** 无法识别的事件（保留原始事件名与数据） */
+export interface UnknownStreamEvent {
+  type: 'unknown'
+  event: string
+  data: unknown
+}
+
+/** 流事件：SSE 解析后的强类型事件，按 type 区分 */
+export type StreamEvent =
+  | TaskStartedEvent
+  | UserMessageEvent
+  | AssistantDeltaEvent
+  | AssistantCompletedEvent
+  | ToolStartEvent
+  | ToolCompleteEvent
+  | ToolCallStartedEvent
+  | ToolCallCompletedEvent
+  | ToolCallProgressEvent
+  | ToolApprovalRequestedEvent
+  | ToolApprovalResolvedEvent
+  | TaskCompletedEvent
+  | TaskFailedEvent
+  | TaskAbortedEvent
+  | StreamErrorEvent
+  | WarningEvent
+  | UnknownStreamEvent
+
+// ============ 规范事件 ============
+// 各后端方言（CLI serve / Service API）的流事件经 normalizeStreamEvent 统一为以下事件
+
+/** 模型文本增量 */
+export interface TextDeltaAgentEvent {
+  type: 'text_delta'
+  text: string
+}
+
+/** 模型消息完成 */
+export interface MessageCompletedAgentEvent {
+  type: 'message_completed'
+  content?: string
+}
+
+/** 工具调用开始 */
+export interface ToolStartedAgentEvent {
+  type: 'tool_started'
+  call_id: string
+  name: string
+  arguments?: Record<string, unknown>
+}
+
+/** 工具调用进度/日志 */
+export interface ToolProgressAgentEvent {
+  type: 'tool_progress'
+  call_id: string
+  name?: string
+  kind: 'log' | 'progress' | 'output'
   message?: string
   progress?: number
   total?: number
-  [key: string]: unknown
 }
 
+/** 工具调用完成 */
+export interface ToolCompletedAgentEvent {
+  type: 'tool_completed'
+  call_id: string
+  name?: string
+  output?: string
+  success?: boolean
+  duration_ms?: number
+}
+
+/** 工具调用等待审批 */
+export interface ToolApprovalRequestedAgentEvent {
+  type: 'tool_approval_requested'
+  approval_id: string
+  call_id: string
+  name: string
+  arguments?: Record<string, unknown>
+}
+
+/** 工具调用审批结果 */
+export interface ToolApprovalResolvedAgentEvent {
+  type: 'tool_approval_resolved'
+  approval_id: string
+  call_id: string
+  decision: 'approved' | 'denied'
+}
+
+/** 任务失败（error 为展示用的原因） */
+export interface TaskFailedAgentEvent {
+  type: 'task_failed'
+  task_id?: string
+  error?: string
+}
+
+/** 任务被取消 */
+export interface TaskAbortedAgentEvent {
+  type: 'task_aborted'
+  task_id?: string
+  reason?: string
+}
+
+/** 规范事件：界面只处理这一套事件 */
+export type AgentEvent =
+  | TaskStartedEvent
+  | UserMessageEvent
+  | TextDeltaAgentEvent
+  | MessageCompletedAgentEvent
+  | ToolStartedAgentEvent
+  | ToolProgressAgentEvent
+  | ToolCompletedAgentEvent
+  | ToolApprovalRequestedAgentEvent
+  | ToolApprovalResolvedAgentEvent
+  | TaskCompletedEvent
+  | TaskFailedAgentEvent
+  | TaskAbortedAgentEvent
+  | StreamErrorEvent
+  | WarningEvent
+  | UnknownStreamEvent
+
 /** 创建 Service 请求 */
 export interface CreateServiceRequest {
   name: string
@@ -106,11 +356,94 @@ export interface CreateSessionRequest {
   working_dir: string
 }
 
+/**
+ * 会话分支 - 编辑历史消息重新运行时，被截断的后续对话
+ * turn 为分支起点的用户消息序号（从 0 开始，只计用户消息）
+ */
+export interface SessionBranch {
+  id: string
+  turn: number
+  /** 分支起点用户消息的时间戳，用于排列同一位置的多个版本 */
+  timestamp?: number
+  /** 分支起点用户消息内容摘要 */
+  preview: string
+  messageCount: number
+}
+
+/** 已上传到 Agent 工作目录的文件 */
+export interface UploadedFile {
+  name: string
+  path: string  // 相对工作目录的路径
+  size: number
+  mimeType: string
+}
+
+/** 执行请求中的附件（图片、二进制等已上传的文件；文本文件直接内联在 prompt 中） */
+export interface ExecuteAttachment {
+  name: string
+  path: string
+  mime_type: string
+  size: number
+}
+
+/** 工作目录中的文件/目录（GET /api/files） */
+export interface FileEntry {
+  path: string  // 相对工作目录的路径，目录不带结尾 "/"
+  type: 'file' | 'dir'
+  size?: number
+}
+
+/** prompt 中 @ 引用的文件/目录，后端可据此读取内容或作为路径提示 */
+export interface FileReference {
+  path: string
+  type: 'file' | 'dir'
+}
+
 /** 执行任务请求 */
 export interface ExecuteRequest {
   task_id?: string
   prompt: string  // CLI serve 模式使用 prompt
   stream?: boolean
+  attachments?: ExecuteAttachment[]
+  references?: FileReference[]
+  /** 审批模式：工具执行前发出 tool_approval_requested，等待前端决定 */
+  require_approval?: boolean
+}
+
+/** 工具审批决定 */
+export interface ToolApprovalDecision {
+  decision: 'approved' | 'denied'
+  /** 修改后的工具参数（仅批准时有效） */
+  arguments?: Record<string, unknown>
+  /** 拒绝原因，作为工具结果返回给模型 */
+  reason?: string
+}
+
+/** 服务的工具审批策略 */
+export interface ToolApprovalPolicy {
+  enabled: boolean
+  /** 始终允许（自动批准）的工具名 */
+  alwaysAllow: string[]
+}
+
+/** 工具审批记录 */
+export interface ToolApprovalLogEntry {
+  id: string
+  timestamp: string
+  serverId?: string
+  serviceId?: string
+  serviceName?: string
+  sessionId: string
+  approvalId: string
+  callId: string
+  toolName: string
+  decision: 'approved' | 'denied'
+  /** 按“始终允许”策略自动批准 */
+  auto: boolean
+  arguments?: Record<string, unknown>
+  /** 修改后的参数 */
+  editedArguments?: Record<string, unknown>
+  reason?: string
 }
 
 /** 执行任务响应 */
@@ -121,6 +454,33 @@ export interface ExecuteResponse {
   error?: string
 }
 
+/** Agent 运行状态（GET /api/status） */
+export interface ServiceStatus {
+  sessionId?: string
+  isRunning: boolean
+  state?: string
+  /** 正在运行的任务 ID（运行中时返回） */
+  taskId?: string
+}
+
+/** 服务声明的斜杠命令（GET /api/commands） */
+export interface ServiceCommand {
+  name: string  // 不含 "/"
+  description?: string
+  /** 参数提示，例如 "<文件路径>" */
+  argsHint?: string
+  /** 插入输入框的模板（选中后替换输入内容） */
+  template?: string
+  /** 为 true 时由服务端执行（POST /api/commands/{name}） */
+  action?: boolean
+}
+
+/** 模型信息（GET /api/model） */
+export interface ModelInfo {
+  model: string
+  available: string[]
+}
+
 /** PTY 终端会话 */
 export interface PtySession {
   id: string
@@ -139,6 +499,54 @@ export interface CreatePtyRequest {
   size?: { cols: number; rows: number }
 }
 
+/** 最近使用的终端启动配置（按服务保存，不含初始大小） */
+export interface RecentPtyConfig {
+  command: string
+  args?: string[]
+  working_dir?: string
+  env?: Record<string, string>
+  usedAt: string
+}
+
+/** 终端工作区的分屏节点：单个终端，或按 row（左右）/ column（上下）二分 */
+export type TerminalPaneNode =
+  | { type: 'terminal'; ptyId: string }
+  | { type: 'split'; id: string; direction: 'row' | 'column'; ratio: number; first: TerminalPaneNode; second: TerminalPaneNode }
+
+/** 终端工作区标签页 */
+export interface TerminalTab {
+  id: string
+  title: string
+  root: TerminalPaneNode
+}
+
+/** 终端工作区布局（按服务保存） */
+export interface TerminalLayout {
+  tabs: TerminalTab[]
+  activeTabId: string | null
+}
+
+/** 终端录制（asciicast v2，内容单独保存） */
+export interface TerminalRecording {
+  id: string
+  serviceUrl: string
+  ptyId: string
+  title: string
+  /** 开始录制时所在的聊天会话 */
+  sessionId?: string
+  startedAt: string
+  /** 时长（秒） */
+  duration: number
+  width: number
+  height: number
+  /** 输出事件数 */
+  events: number
+  /** 是否录制了键盘输入 */
+  input?: boolean
+  /** 录制文件大小（字节） */
+  size: number
+}
+
 /** 调整 PTY 大小请求 */
 export interface ResizePtyRequest {
   cols: number